@@ -1,15 +1,43 @@
-import React, { useState, useEffect, useCallback, createContext } from 'react';
-import { Ingredient, Recipe, TabName, ShoppingListItem } from './types';
+import React, { useState, useEffect, useCallback, useMemo, createContext } from 'react';
+import { Ingredient, Recipe, TabName, ShoppingListItem, FoodCategory, SavedRecipe, ScanImage, Detection, Quantity, ReceiptScan, CookingSession, KitchenTimer, InventoryEdit, ChatCardActions, CatalogProduct } from './types';
 import ImageUploader from './components/ImageUploader';
+import ScanReview from './components/ScanReview';
+import ReceiptScanner from './components/ReceiptScanner';
+import BarcodeScanner from './components/BarcodeScanner';
 import RecipeDisplay from './components/RecipeDisplay';
 import FridgeInventory from './components/FridgeInventory';
 import ChatInterface from './components/ChatInterface';
 import ImageGenerator from './components/ImageGenerator';
 import HealthProfile from './components/HealthProfile'; // NEW
+import Cookbook from './components/Cookbook';
+import MealPlanner from './components/MealPlanner';
+import CookingMode from './components/CookingMode';
+import TimerTray from './components/TimerTray';
 import BottomNavigationBar from './components/BottomNavigationBar'; // NEW
 import geminiService from './services/geminiService';
-import { INVENTORY_MILK_EXPIRY_THRESHOLD_DAYS } from './constants';
+import { INVENTORY_EXPIRY_CHECK_INTERVAL_MS, MAX_SCAN_IMAGES, SCAN_CONCURRENCY } from './constants';
 import LoadingSpinner from './components/LoadingSpinner';
+import usePersistentState from './hooks/usePersistentState';
+import { refreshFreshness, getExpiringItems, describeExpiry, recategorizeItem, toISODate } from './services/shelfLifeService';
+import foodTaxonomyService from './services/foodTaxonomyService';
+import { mergeIntoShoppingList, markPurchased, findShoppingMatch } from './services/shoppingListService';
+import { createReceiptScan, addReceiptToInventory, getPurchaseDate } from './services/receiptService';
+import { DEFAULT_USER_PROFILE } from './services/profileService';
+import { checkRecipeSafety, summarizeFindings } from './services/allergenService';
+import { estimateRecipeNutrition } from './services/nutritionService';
+import { toIngredientLine } from './services/recipeScalingService';
+import {
+  createScanImage, readFileAsBase64, mapWithConcurrency, mergeDetections, MergedDetection,
+  createReviewItems, reconcileReviewItems, applyReview, toReviewedIngredient, correctDetection, addAcceptedToInventory, ReviewItem,
+} from './services/scanService';
+import { createMealPlan, getExpiryPriorities, moveMeal, removeMeal, MealSlotRef } from './services/mealPlanService';
+import { saveRecipe, updateSavedRecipe, removeSavedRecipe, recordCooked, unrecordCooked } from './services/cookbookService';
+import { applyConsumption, restoreConsumption, describeConsumption, ConsumedIngredient, Deduction } from './services/recipeInventoryService';
+import { LiveToolActions } from './services/liveToolsService';
+import { applyInventoryEdits } from './services/inventoryEditService';
+import { startCookingSession, goToStep } from './services/cookingService';
+import { createTimer, pauseTimer, resumeTimer, extendTimer, ringDueTimers, getNextDueAt, applyTimerChange } from './services/timerService';
+import { primeAlarm, startAlarm } from './services/alarmService';
 
 // Create a context to provide ChatInterface controls to children
 export const ChatControlContext = createContext<{
@@ -17,25 +45,48 @@ export const ChatControlContext = createContext<{
   setIsChatOverlayOpen: (isOpen: boolean) => void;
   startLiveSession: (initialPrompt?: string) => Promise<void>; // Modified: Accepts optional initialPrompt
   stopLiveSession: () => void;
+  sendLiveText: (text: string) => void; // Tells a running live session what just happened on screen
   isLiveSessionActive: boolean;
   isThinking: boolean;
 } | null>(null);
 
 function App() {
   const [activeTab, setActiveTab] = useState<TabName>('scan');
-  const [fridgeInventory, setFridgeInventory] = useState<Ingredient[]>([]);
-  const [shoppingList, setShoppingList] = useState<ShoppingListItem[]>([]); // NEW State for Shopping List
-  const [healthLog, setHealthLog] = useState<string[]>([]);
-  const [generatedRecipes, setGeneratedRecipes] = useState<Recipe[]>([]);
+  // Persisted across reloads via storageService (IndexedDB)
+  const [fridgeInventory, setFridgeInventory, isInventoryHydrated] = usePersistentState('fridgeInventory', []);
+  const [shoppingList, setShoppingList, isShoppingListHydrated] = usePersistentState('shoppingList', []);
+  const [healthLog, setHealthLog, isHealthLogHydrated] = usePersistentState('healthLog', []);
+  const [generatedRecipes, setGeneratedRecipes, isRecipesHydrated] = usePersistentState('generatedRecipes', []);
+  const [categoryOverrides, setCategoryOverrides, isOverridesHydrated] = usePersistentState('categoryOverrides', {});
+  const [categoryCache, setCategoryCache, isCategoryCacheHydrated] = usePersistentState('categoryCache', {});
+  const [userProfile, setUserProfile, isProfileHydrated] = usePersistentState('userProfile', DEFAULT_USER_PROFILE);
+  const [cookbook, setCookbook, isCookbookHydrated] = usePersistentState('cookbook', []);
+  const [mealPlan, setMealPlan, isMealPlanHydrated] = usePersistentState('mealPlan', null);
+  const [productCodes, setProductCodes, isProductCodesHydrated] = usePersistentState('productCodes', {});
+  const isHydrated = isInventoryHydrated && isShoppingListHydrated && isHealthLogHydrated && isRecipesHydrated
+    && isOverridesHydrated && isCategoryCacheHydrated && isProfileHydrated && isCookbookHydrated && isMealPlanHydrated
+    && isProductCodesHydrated;
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
   const [imageAnalysisLoading, setImageAnalysisLoading] = useState<boolean>(false);
   const [recipeGenerationLoading, setRecipeGenerationLoading] = useState<boolean>(false);
   const [imageAnalysisError, setImageAnalysisError] = useState<string | null>(null);
   const [recipeGenerationError, setRecipeGenerationError] = useState<string | null>(null);
 
-  // State for persistent uploaded image
-  const [uploadedImageFile, setUploadedImageFile] = useState<File | null>(null);
-  const [uploadedImagePreviewUrl, setUploadedImagePreviewUrl] = useState<string | null>(null);
+  // The recipe being cooked step by step, shown full screen over everything else
+  const [cookingSession, setCookingSession] = useState<CookingSession | null>(null);
+  // Kitchen timers, kept here so they keep running whichever tab is open
+  const [timers, setTimers] = useState<KitchenTimer[]>([]);
+
+  // Last "Mark as cooked" action, kept so it can be undone
+  const [lastCookEvent, setLastCookEvent] = useState<{ recipeName: string; consumed: ConsumedIngredient[]; logEntry: string; cookedOn: string } | null>(null);
+
+  // Photos queued for scanning (kept across tab switches) and the merged result of the last batch
+  const [scanQueue, setScanQueue] = useState<ScanImage[]>([]);
+  const [lastScanResults, setLastScanResults] = useState<MergedDetection[]>([]);
+  // Whether the scan tab reads fridge photos, a grocery receipt or product barcodes
+  const [scanMode, setScanMode] = useState<'fridge' | 'receipt' | 'barcode'>('fridge');
+  // Detections from the last batch waiting for the user to confirm them
+  const [scanReview, setScanReview] = useState<{ items: ReviewItem[]; imageIds: string[] } | null>(null);
 
   // State for ChatInterface overlay
   const [isChatOverlayOpen, setIsChatOverlayOpen] = useState<boolean>(false);
@@ -45,67 +96,191 @@ function App() {
   // Modified: Adjust useState setter to match the new signature of startLiveSession
   const [startLiveSession, setStartLiveSession] = useState<(_initialPrompt?: string) => Promise<void>>(() => async (_initialPrompt?: string) => {});
   const [stopLiveSession, setStopLiveSession] = useState<() => void>(() => () => {});
+  const [sendLiveText, setSendLiveText] = useState<(text: string) => void>(() => () => {});
 
 
-  // Simulate dietary preferences from a user profile
-  const dietaryPreferences = 'vegetarian, low-carb';
+  // Keep the taxonomy service in step with the persisted overrides and model classifications
+  useEffect(() => {
+    foodTaxonomyService.setUserData(categoryOverrides, categoryCache);
+  }, [categoryOverrides, categoryCache]);
+
+  // Names the bundled taxonomy doesn't know are classified by the model once, then cached locally.
+  const classifyUnknownIngredients = useCallback(async (names: string[]) => {
+    const unknown = foodTaxonomyService.findUnknown(names);
+    if (unknown.length === 0) return;
+    try {
+      const classified = await geminiService.classifyIngredients(unknown);
+      const byKey: Record<string, FoodCategory> = {};
+      Object.entries(classified).forEach(([name, category]) => {
+        byKey[foodTaxonomyService.normalizeKey(name)] = category;
+      });
+      if (Object.keys(byKey).length === 0) return;
+      setCategoryCache((prev) => ({ ...prev, ...byKey }));
+      // Only re-file items still in the fallback bucket; anything else was placed deliberately.
+      setFridgeInventory((prev) => prev.map((item) => {
+        const category = byKey[foodTaxonomyService.normalizeKey(item.name)];
+        return category && item.category === 'other' ? recategorizeItem(item, category) : item;
+      }));
+    } catch (err) {
+      console.error('Error classifying ingredients:', err);
+    }
+  }, [setCategoryCache, setFridgeInventory]);
+
+  // Recipes from the model, with nutrition estimated and ingredient lines parsed for scaling.
+  const generateRecipesWithNutrition = useCallback(async (ingredients: Ingredient[]): Promise<Recipe[]> => {
+    const recipes = await geminiService.generateRecipes(ingredients, userProfile);
+    return Promise.all(
+      recipes.map(async (recipe) => ({
+        ...recipe,
+        ingredientLines: recipe.ingredients.map(toIngredientLine),
+        nutrition: await estimateRecipeNutrition(recipe),
+      })),
+    );
+  }, [userProfile]);
 
   // --- Consolidated Image Analysis & Recipe Generation ---
-  const initiateFullScanProcess = useCallback(async (file: File) => {
+  // Adds the reviewed items to the inventory and generates recipes from the ones that were kept.
+  const commitScannedIngredients = useCallback(async (items: ReviewItem[], photoCount: number) => {
+    const accepted = items.filter((item) => item.decision !== 'reject');
+    if (accepted.length === 0) return;
+    const ingredients = accepted.map(toReviewedIngredient);
+    setFridgeInventory((prev) => refreshFreshness(applyReview(prev, accepted)));
+    setHealthLog((prev) => [...prev, `Analyzed new ingredients from ${photoCount} photo${photoCount === 1 ? '' : 's'}: ${ingredients.map((ingredient) => ingredient.name).join(', ')}.`]);
+    void classifyUnknownIngredients(ingredients.map((ingredient) => ingredient.name));
+
+    // Generate Recipes
+    setGeneratedRecipes(await generateRecipesWithNutrition(ingredients));
+    setSelectedRecipe(null); // Reset selected recipe
+
+    // Navigate to Recipes tab
+    setActiveTab('recipes');
+  }, [generateRecipesWithNutrition, classifyUnknownIngredients, setFridgeInventory, setHealthLog, setGeneratedRecipes, setSelectedRecipe, setActiveTab]);
+
+  // Analyzes every photo that hasn't been scanned yet (or failed last time), a couple at a time,
+  // then merges what was found across them and holds the result for review. Shots taken with the
+  // camera are passed in directly so they can be queued and scanned in one go.
+  const initiateFullScanProcess = useCallback(async (capturedFiles: File[] = []) => {
+    const captured = capturedFiles.slice(0, Math.max(0, MAX_SCAN_IMAGES - scanQueue.length)).map(createScanImage);
+    if (captured.length > 0) setScanQueue((prev) => [...prev, ...captured]);
+    const pending = [...scanQueue.filter((image) => image.status === 'queued' || image.status === 'error'), ...captured];
+    if (pending.length === 0) return;
     setImageAnalysisLoading(true); // Indicate image analysis is starting
-    setRecipeGenerationLoading(true); // Indicate recipe generation is part of the process
     setImageAnalysisError(null);
     setRecipeGenerationError(null);
 
+    const updateImage = (id: string, changes: Partial<ScanImage>) => {
+      setScanQueue((prev) => prev.map((image) => (image.id === id ? { ...image, ...changes } : image)));
+    };
+
     try {
-      // 1. Analyze Image
-      const reader = new FileReader();
-      const base64ImagePromise = new Promise<string>((resolve) => {
-        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-      });
-      reader.readAsDataURL(file);
-      const base64Image = await base64ImagePromise;
-      const mimeType = file.type;
-
-      const { ingredients, rawAnalysis } = await geminiService.analyzeImage(
-        base64Image,
-        mimeType,
-      );
-
-      // Update inventory (and log health event)
-      setFridgeInventory((prev) => {
-        const newInventory = [...prev];
-        ingredients.forEach(newIng => {
-          const existingIndex = newInventory.findIndex(ing => ing.name.toLowerCase() === newIng.name.toLowerCase());
-          if (existingIndex > -1) {
-            newInventory[existingIndex].quantity = newIng.quantity;
-            newInventory[existingIndex].freshness = newIng.freshness;
-          } else {
-            newInventory.push(newIng);
-          }
-        });
-        return newInventory;
+      const analyzed = await mapWithConcurrency(pending, SCAN_CONCURRENCY, async (image: ScanImage) => {
+        updateImage(image.id, { status: 'analyzing', error: undefined });
+        try {
+          const base64Image = await readFileAsBase64(image.file);
+          const { detections } = await geminiService.analyzeImage(base64Image, image.file.type);
+          updateImage(image.id, { status: 'done', detections });
+          return { id: image.id, detections };
+        } catch (err: any) {
+          console.error(`Error analyzing ${image.file.name}:`, err);
+          updateImage(image.id, { status: 'error', error: err.message || 'Unknown error' });
+          return null;
+        }
       });
-      setHealthLog((prev) => [...prev, `Analyzed new ingredients. Raw analysis: ${rawAnalysis}`]);
-
-      // 2. Generate Recipes
-      const recipes = await geminiService.generateRecipes(ingredients, dietaryPreferences);
-      setGeneratedRecipes(recipes);
-      setSelectedRecipe(null); // Reset selected recipe
-
-      // 3. Navigate to Recipes tab
-      setActiveTab('recipes');
-
+      const succeeded = analyzed.filter((result): result is { id: string; detections: Detection[] } => result !== null);
+      if (succeeded.length === 0) {
+        setImageAnalysisError('None of the photos could be analyzed. Check them and try again.');
+        return;
+      }
+      const merged = mergeDetections(succeeded);
+      if (merged.length === 0) {
+        setImageAnalysisError('No food items were found in these photos.');
+        return;
+      }
+      setScanReview({ items: createReviewItems(merged), imageIds: succeeded.map((result) => result.id) });
     } catch (err: any) {
       console.error('Error during full scan process:', err);
-      setImageAnalysisError(`Failed to process image and generate recipes: ${err.message || 'Unknown error'}.`);
-      setGeneratedRecipes([]); // Clear any partially generated recipes
+      setImageAnalysisError(`Failed to process images: ${err.message || 'Unknown error'}.`);
     } finally {
       setImageAnalysisLoading(false);
+    }
+  }, [scanQueue]);
+
+  const handleConfirmScanReview = useCallback(async () => {
+    if (!scanReview) return;
+    const { items, imageIds } = scanReview;
+    setRecipeGenerationLoading(true);
+    setRecipeGenerationError(null);
+    try {
+      await commitScannedIngredients(items, imageIds.length);
+      setLastScanResults(items
+        .filter((item) => item.decision !== 'reject')
+        .map((item) => ({ ...item.detection, ingredient: toReviewedIngredient(item) })));
+      setScanReview(null);
+    } catch (err: any) {
+      console.error('Error generating recipes after scan:', err);
+      setImageAnalysisError(`Added to your fridge, but generating recipes failed: ${err.message || 'Unknown error'}.`);
+      setGeneratedRecipes([]); // Clear any partially generated recipes
+      setScanReview(null);
+    } finally {
       setRecipeGenerationLoading(false);
     }
-  }, [dietaryPreferences, setFridgeInventory, setHealthLog, setGeneratedRecipes, setSelectedRecipe, setActiveTab]);
+  }, [scanReview, commitScannedIngredients, setGeneratedRecipes]);
 
+  const handleDiscardScanReview = useCallback(() => {
+    setScanReview(null);
+  }, []);
+
+  const handleChangeScanReviewItems = useCallback((items: ReviewItem[]) => {
+    setScanReview((prev) => (prev ? { ...prev, items } : prev));
+  }, []);
+
+  // Corrections made on a photo under review are re-merged into the review list.
+  const updateImageDetections = useCallback((imageId: string, update: (detections: Detection[]) => Detection[]) => {
+    const nextQueue = scanQueue.map((image) => (image.id === imageId ? { ...image, detections: update(image.detections) } : image));
+    setScanQueue(nextQueue);
+    setScanReview((prev) => {
+      if (!prev || !prev.imageIds.includes(imageId)) return prev;
+      const merged = mergeDetections(nextQueue.filter((image) => prev.imageIds.includes(image.id)));
+      return { ...prev, items: reconcileReviewItems(prev.items, merged) };
+    });
+  }, [scanQueue]);
+
+  const handleCorrectDetection = useCallback((imageId: string, index: number, changes: { name: string; quantity: Quantity }) => {
+    updateImageDetections(imageId, (detections) => detections.map((detection, i) => (i === index ? correctDetection(detection, changes) : detection)));
+  }, [updateImageDetections]);
+
+  const handleRemoveDetection = useCallback((imageId: string, index: number) => {
+    updateImageDetections(imageId, (detections) => detections.filter((_, i) => i !== index));
+  }, [updateImageDetections]);
+
+  // --- Receipt scanning ---
+  const handleAnalyzeReceipt = useCallback(async (file: File): Promise<ReceiptScan> => {
+    const base64Image = await readFileAsBase64(file);
+    const reading = await geminiService.analyzeReceipt(base64Image, file.type);
+    return createReceiptScan(reading, fridgeInventory);
+  }, [fridgeInventory]);
+
+  const handleAddReceipt = useCallback((scan: ReceiptScan): number => {
+    const purchasedOn = getPurchaseDate(scan);
+    const names = scan.lines.map((line) => line.name);
+    const ticked = new Set(names.map((name) => findShoppingMatch(shoppingList, name)?.id).filter(Boolean)).size;
+    setFridgeInventory((prev) => refreshFreshness(addReceiptToInventory(prev, scan.lines, purchasedOn)));
+    setShoppingList((prev) => markPurchased(prev, names));
+    setHealthLog((prev) => [...prev, `Added groceries from a receipt${scan.store ? ` (${scan.store})` : ''}: ${names.join(', ')}.`]);
+    void classifyUnknownIngredients(names);
+    return ticked;
+  }, [shoppingList, classifyUnknownIngredients, setFridgeInventory, setShoppingList, setHealthLog]);
+
+  // --- Barcode scanning ---
+  const handleAddScannedProducts = useCallback((ingredients: Ingredient[]) => {
+    setFridgeInventory((prev) => refreshFreshness(addAcceptedToInventory(prev, ingredients)));
+    setHealthLog((prev) => [...prev, `Added scanned products: ${ingredients.map((ingredient) => ingredient.name).join(', ')}.`]);
+    void classifyUnknownIngredients(ingredients.map((ingredient) => ingredient.name));
+  }, [classifyUnknownIngredients, setFridgeInventory, setHealthLog]);
+
+  const handleSaveProductCodes = useCallback((products: Record<string, CatalogProduct>) => {
+    setProductCodes((prev) => ({ ...prev, ...products }));
+  }, [setProductCodes]);
 
   const handleImageUploadLoadingChange = useCallback((isLoading: boolean) => {
     setImageAnalysisLoading(isLoading);
@@ -115,52 +290,271 @@ function App() {
     setImageAnalysisError(error);
   }, []);
 
-  const handleRemoveImage = useCallback(() => {
-    setUploadedImageFile(null);
-    setUploadedImagePreviewUrl(null);
-    setGeneratedRecipes([]); // Clear recipes when image is removed
-    setSelectedRecipe(null); // Clear selected recipe
+  const handleAddScanImages = useCallback((files: File[]) => {
+    setScanQueue((prev) => [...prev, ...files.slice(0, Math.max(0, MAX_SCAN_IMAGES - prev.length)).map(createScanImage)]);
+    if (scanQueue.length + files.length > MAX_SCAN_IMAGES) {
+      setImageAnalysisError(`You can scan up to ${MAX_SCAN_IMAGES} photos at a time; the extra ones were left out.`);
+    } else {
+      setImageAnalysisError(null);
+    }
+  }, [scanQueue.length]);
+
+  const handleRemoveScanImage = useCallback((id: string) => {
+    setScanQueue((prev) => {
+      const removed = prev.find((image) => image.id === id);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((image) => image.id !== id);
+    });
+  }, []);
+
+  const handleClearScanImages = useCallback(() => {
+    setScanQueue((prev) => {
+      prev.forEach((image) => URL.revokeObjectURL(image.previewUrl));
+      return [];
+    });
+    setLastScanResults([]);
+    setScanReview(null);
     setImageAnalysisError(null);
     setRecipeGenerationError(null);
   }, []);
 
   // --- Fridge Inventory Management ---
   const handleUpdateInventory = useCallback((newInventory: Ingredient[]) => {
-    setFridgeInventory(newInventory);
-    // Simulate proactive alert if milk is expiring
-    const milkItem = newInventory.find(item => item.name.toLowerCase().includes('milk') && item.freshness === 'good');
-    if (milkItem && !healthLog.includes(`Proactive alert: ${milkItem.name} is expiring soon!`)) {
-      setHealthLog((prev) => [...prev, `Proactive alert: ${milkItem.name} is expiring soon!`]);
-      console.log(`Proactive alert: ${milkItem.name} is expiring soon!`);
+    setFridgeInventory(refreshFreshness(newInventory));
+    const knownNames = new Set(fridgeInventory.map((item) => item.name));
+    void classifyUnknownIngredients(newInventory.map((item) => item.name).filter((name) => !knownNames.has(name)));
+  }, [fridgeInventory, classifyUnknownIngredients]);
+
+  // A category picked by the user wins over the taxonomy and the model, for this name from now on.
+  // Items of that name are re-filed and their estimated expiry recomputed for the new category.
+  const handleOverrideCategory = useCallback((name: string, category: FoodCategory) => {
+    const key = foodTaxonomyService.normalizeKey(name);
+    const updatedOverrides = { ...categoryOverrides, [key]: category };
+    foodTaxonomyService.setUserData(updatedOverrides, categoryCache);
+    setCategoryOverrides(updatedOverrides);
+    setFridgeInventory((prev) => prev.map((item) =>
+      foodTaxonomyService.normalizeKey(item.name) === key ? recategorizeItem(item, category) : item
+    ));
+  }, [categoryOverrides, categoryCache, setCategoryOverrides, setFridgeInventory]);
+
+  // --- Cooking: deduct used ingredients and log the event (undoable) ---
+  const handleRecipeCooked = useCallback((recipe: Recipe, deductions: Deduction[]) => {
+    const { inventory: updatedInventory, consumed } = applyConsumption(fridgeInventory, deductions);
+    const logEntry = consumed.length > 0
+      ? `Cooked "${recipe.name}" on ${new Date().toLocaleDateString()}. Used ${describeConsumption(consumed)}.`
+      : `Cooked "${recipe.name}" on ${new Date().toLocaleDateString()}.`;
+    setFridgeInventory(refreshFreshness(updatedInventory));
+    const cookedOn = toISODate(new Date());
+    setHealthLog((prev) => [...prev, logEntry]);
+    setCookbook((prev) => recordCooked(prev, recipe.name, cookedOn));
+    setLastCookEvent({ recipeName: recipe.name, consumed, logEntry, cookedOn });
+    setSelectedRecipe(null);
+  }, [fridgeInventory]);
+
+  const handleUndoCook = useCallback(() => {
+    if (!lastCookEvent) return;
+    setFridgeInventory((prev) => refreshFreshness(restoreConsumption(prev, lastCookEvent.consumed)));
+    setHealthLog((prev) => {
+      const index = prev.lastIndexOf(lastCookEvent.logEntry);
+      return index > -1 ? [...prev.slice(0, index), ...prev.slice(index + 1)] : prev;
+    });
+    setCookbook((prev) => unrecordCooked(prev, lastCookEvent.recipeName, lastCookEvent.cookedOn));
+    setLastCookEvent(null);
+  }, [lastCookEvent]);
+
+  // The undo banner only stays up for a short while
+  useEffect(() => {
+    if (!lastCookEvent) return;
+    const timeout = setTimeout(() => setLastCookEvent(null), 15000);
+    return () => clearTimeout(timeout);
+  }, [lastCookEvent]);
+
+  // --- Allergen safety: swap a blocked or flagged recipe for a model-generated safe one ---
+  const handleRegenerateSafeRecipe = useCallback(async (recipe: Recipe): Promise<void> => {
+    const { findings } = checkRecipeSafety(recipe, userProfile);
+    const safeRecipe = await geminiService.regenerateSafeRecipe(recipe, fridgeInventory, userProfile, summarizeFindings(findings));
+    // The model can miss a substitution; never present a recipe that still fails as the safe one
+    const recheck = checkRecipeSafety(safeRecipe, userProfile);
+    if (recheck.findings.length > 0) {
+      throw new Error(`the new version still contains ${summarizeFindings(recheck.findings)}`);
     }
-  }, [healthLog]);
+    const replacement = {
+      ...safeRecipe,
+      ingredientLines: safeRecipe.ingredients.map(toIngredientLine),
+      nutrition: await estimateRecipeNutrition(safeRecipe),
+    };
+    setGeneratedRecipes((prev) => prev.map((candidate) => (candidate === recipe ? replacement : candidate)));
+    setMealPlan((prev) => prev && {
+      ...prev,
+      meals: prev.meals.map((meal) => (meal.recipe === recipe ? { ...meal, recipe: replacement } : meal)),
+    });
+    setSelectedRecipe((prev) => (prev === recipe ? replacement : prev));
+  }, [userProfile, fridgeInventory, setGeneratedRecipes, setMealPlan]);
+
+  // --- Cookbook: saved recipes outlive scans, with the user's own ratings, tags, notes and history ---
+  const handleSaveRecipe = useCallback((recipe: Recipe) => {
+    setCookbook((prev) => saveRecipe(prev, recipe));
+  }, [setCookbook]);
+
+  const handleUpdateSavedRecipe = useCallback((id: string, changes: Partial<Pick<SavedRecipe, 'isFavorite' | 'rating' | 'tags' | 'notes' | 'cookedOn'>>) => {
+    setCookbook((prev) => updateSavedRecipe(prev, id, changes));
+  }, [setCookbook]);
+
+  const handleRemoveSavedRecipe = useCallback((id: string) => {
+    setCookbook((prev) => removeSavedRecipe(prev, id));
+  }, [setCookbook]);
+
+  // --- Meal planning: a week starting today, built around what expires first ---
+  const handleGenerateMealPlan = useCallback(async (): Promise<string[]> => {
+    const weekStart = toISODate(new Date());
+    const generated = await geminiService.generateMealPlan(getExpiryPriorities(fridgeInventory, weekStart), userProfile, weekStart);
+    const { plan, rejected } = createMealPlan(weekStart, generated, userProfile);
+    setMealPlan(plan);
+    return rejected;
+  }, [fridgeInventory, userProfile, setMealPlan]);
+
+  const handleMoveMeal = useCallback((from: MealSlotRef, to: MealSlotRef) => {
+    setMealPlan((prev) => (prev ? moveMeal(prev, from, to) : prev));
+  }, [setMealPlan]);
+
+  const handleRemoveMeal = useCallback((ref: MealSlotRef) => {
+    setMealPlan((prev) => (prev ? removeMeal(prev, ref) : prev));
+  }, [setMealPlan]);
 
   // --- Shopping List Management ---
   const handleUpdateShoppingList = useCallback((updatedList: ShoppingListItem[]) => {
     setShoppingList(updatedList);
   }, []);
 
-  // --- Proactive Alerts (Example: Milk Expiry) ---
+  const handleAddToShoppingList = useCallback((items: { name: string; quantity?: string }[]) => {
+    setShoppingList((prev) => mergeIntoShoppingList(prev, items));
+  }, []);
+
+  // --- Cooking mode: one step at a time, driven by touch or by the live session ---
+  const handleStartCooking = useCallback((recipe: Recipe) => {
+    setCookingSession(startCookingSession(recipe));
+  }, []);
+
+  const handleChangeCookingStep = useCallback((stepIndex: number) => {
+    setCookingSession((prev) => (prev ? goToStep(prev, stepIndex) : prev));
+  }, []);
+
+  const handleExitCooking = useCallback(() => {
+    setCookingSession(null);
+  }, []);
+
+  // --- Kitchen timers: several at once, started by tap or by voice ---
+  const handleStartTimer = useCallback((label: string, seconds: number) => {
+    primeAlarm(); // Usually a tap, which lets the alarm sound later
+    setTimers((prev) => [...prev, createTimer(label, seconds)]);
+  }, []);
+
+  const updateTimer = useCallback((id: string, update: (timer: KitchenTimer) => KitchenTimer) => {
+    setTimers((prev) => prev.map((timer) => (timer.id === id ? update(timer) : timer)));
+  }, []);
+
+  const handlePauseTimer = useCallback((id: string) => updateTimer(id, (timer) => pauseTimer(timer)), [updateTimer]);
+  const handleResumeTimer = useCallback((id: string) => updateTimer(id, (timer) => resumeTimer(timer)), [updateTimer]);
+  const handleExtendTimer = useCallback((id: string, seconds: number) => updateTimer(id, (timer) => extendTimer(timer, seconds)), [updateTimer]);
+
+  const handleRemoveTimer = useCallback((id: string) => {
+    setTimers((prev) => prev.filter((timer) => timer.id !== id));
+  }, []);
+
+  // Wakes up when the next timer is due. A voice session is told, so Chef Fridge can say what to do next.
+  useEffect(() => {
+    const nextDueAt = getNextDueAt(timers);
+    if (nextDueAt === null) return;
+    const timeout = setTimeout(() => {
+      const now = Date.now();
+      const due = timers.filter((timer) => timer.status === 'running' && timer.endsAt <= now);
+      setTimers((prev) => ringDueTimers(prev, now));
+      if (isLiveSessionActive && due.length > 0) {
+        sendLiveText(`My ${due.map((timer) => `"${timer.label}"`).join(' and ')} timer just went off.`);
+      }
+    }, Math.max(0, nextDueAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [timers, isLiveSessionActive, sendLiveText]);
+
+  const isAlarmRinging = timers.some((timer) => timer.status === 'ringing');
+  useEffect(() => {
+    if (!isAlarmRinging) return;
+    return startAlarm();
+  }, [isAlarmRinging]);
+
+  // --- Live session tools: the app actions Chef Fridge can take by voice ---
+  // Recipes asked for by voice replace the suggestions without leaving the conversation.
+  const handleGenerateRecipesFromInventory = useCallback(async (inventory: Ingredient[]): Promise<Recipe[]> => {
+    const recipes = await generateRecipesWithNutrition(inventory);
+    setGeneratedRecipes(recipes);
+    setSelectedRecipe(null);
+    return recipes;
+  }, [generateRecipesWithNutrition, setGeneratedRecipes]);
+
+  const liveToolActions = useMemo<LiveToolActions>(() => ({
+    getState: () => ({ inventory: fridgeInventory, shoppingList, profile: userProfile, cooking: cookingSession, timers }),
+    updateInventory: handleUpdateInventory,
+    updateShoppingList: handleUpdateShoppingList,
+    generateRecipes: handleGenerateRecipesFromInventory,
+    setCookingStep: handleChangeCookingStep,
+    changeTimers: (change) => setTimers((prev) => applyTimerChange(prev, change)),
+  }), [
+    fridgeInventory, shoppingList, userProfile, cookingSession, timers,
+    handleUpdateInventory, handleUpdateShoppingList, handleGenerateRecipesFromInventory, handleChangeCookingStep,
+  ]);
+
+  // --- Chat cards: text chat proposes, and these carry it out when the user taps ---
+  const handleApplyInventoryEdits = useCallback((edits: InventoryEdit[]): string[] => {
+    const { inventory, failed } = applyInventoryEdits(fridgeInventory, edits);
+    if (inventory !== fridgeInventory) handleUpdateInventory(inventory);
+    return failed;
+  }, [fridgeInventory, handleUpdateInventory]);
+
+  const chatCardActions = useMemo<ChatCardActions>(() => ({
+    onSaveRecipe: handleSaveRecipe,
+    onStartCooking: handleStartCooking,
+    onApplyInventoryEdits: handleApplyInventoryEdits,
+    onAddToShoppingList: handleAddToShoppingList,
+  }), [handleSaveRecipe, handleStartCooking, handleApplyInventoryEdits, handleAddToShoppingList]);
+
+  // --- Proactive Alerts: freshness is derived from expiry dates as days pass ---
   useEffect(() => {
+    if (!isHydrated) return; // Wait for the stored health log so alerts aren't duplicated
     const checkExpiry = () => {
-      const updatedInventory = fridgeInventory.map(item => {
-        if (item.name.toLowerCase().includes('milk') && item.freshness === 'good') {
-          const daysUntilExpiry = 1; // For demonstration, assume 1 day left
-          if (daysUntilExpiry <= INVENTORY_MILK_EXPIRY_THRESHOLD_DAYS) {
-            return { ...item, freshness: 'expiring' };
-          }
-        }
-        return item;
-      });
-      if (JSON.stringify(updatedInventory) !== JSON.stringify(fridgeInventory)) {
+      const updatedInventory = refreshFreshness(fridgeInventory);
+      if (updatedInventory !== fridgeInventory) {
         setFridgeInventory(updatedInventory);
       }
+      const alerts = getExpiringItems(updatedInventory)
+        .map(item => `Proactive alert: ${item.name} (${item.expiresOn}) - ${describeExpiry(item)}.`)
+        .filter(alert => !healthLog.some(entry => entry.startsWith(alert.split(' - ')[0])));
+      if (alerts.length > 0) {
+        setHealthLog((prev) => [...prev, ...alerts]);
+      }
     };
 
-    const interval = setInterval(checkExpiry, 60000); // Check every minute for demo
+    const interval = setInterval(checkExpiry, INVENTORY_EXPIRY_CHECK_INTERVAL_MS);
     checkExpiry(); // Initial check
     return () => clearInterval(interval);
-  }, [fridgeInventory]);
+  }, [fridgeInventory, healthLog, isHydrated]);
+
+  // Detail view for a recipe opened from outside the suggestions list (cookbook, meal plan)
+  const renderRecipeDetail = () => (
+    <RecipeDisplay
+      recipes={[]}
+      onRecipeSelected={setSelectedRecipe}
+      selectedRecipe={selectedRecipe}
+      inventory={fridgeInventory}
+      onRecipeCooked={handleRecipeCooked}
+      onAddToShoppingList={handleAddToShoppingList}
+      profile={userProfile}
+      onRegenerateSafeRecipe={handleRegenerateSafeRecipe}
+      cookbook={cookbook}
+      onSaveRecipe={handleSaveRecipe}
+      onStartCooking={handleStartCooking}
+      onStartTimer={handleStartTimer}
+    />
+  );
 
   const chatViewMode = activeTab === 'voicechat' ? 'tab' : (isChatOverlayOpen ? 'overlay' : 'hidden');
 
@@ -176,42 +570,96 @@ function App() {
         setIsChatOverlayOpen,
         startLiveSession,
         stopLiveSession,
+        sendLiveText,
         isLiveSessionActive,
         isThinking,
       }}>
         <main className="w-full max-w-4xl flex-1 mb-20 flex flex-col"> {/* Added flex flex-col for proper tab layout */}
-          {activeTab === 'scan' && (
+          {!isHydrated && (
+            <div className="mt-8">
+              <LoadingSpinner message="Restoring your kitchen..." />
+            </div>
+          )}
+
+          {isHydrated && activeTab === 'scan' && (
             <section className="animate-fade-in flex-1">
-              <ImageUploader
-                onScanAndGenerateRecipes={initiateFullScanProcess} // Pass the combined function
-                onLoadingChange={handleImageUploadLoadingChange}
-                onError={handleImageUploadError}
-                uploadedImageFile={uploadedImageFile}
-                uploadedImagePreviewUrl={uploadedImagePreviewUrl}
-                setUploadedImageFile={setUploadedImageFile}
-                setUploadedImagePreviewUrl={setUploadedImagePreviewUrl}
-                onRemoveImage={handleRemoveImage}
-                analyzedIngredients={fridgeInventory} // Pass current inventory for display if needed
-              />
-              {imageAnalysisError && (
-                <p className="text-rose-400 text-center mt-4 text-sm">{imageAnalysisError}</p>
-              )}
+              <div className="flex justify-center gap-2 mt-4" role="tablist" aria-label="What to scan">
+                {([['fridge', 'Fridge photos'], ['receipt', 'Receipt'], ['barcode', 'Barcodes']] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    role="tab"
+                    aria-selected={scanMode === mode}
+                    onClick={() => setScanMode(mode)}
+                    className={`px-4 py-2 rounded-full text-base font-semibold transition duration-200 ${scanMode === mode ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-cyan-300'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {scanMode === 'receipt' ? (
+                <ReceiptScanner
+                  inventory={fridgeInventory}
+                  shoppingList={shoppingList}
+                  onAnalyzeReceipt={handleAnalyzeReceipt}
+                  onAddReceipt={handleAddReceipt}
+                />
+              ) : scanMode === 'barcode' ? (
+                <BarcodeScanner onAddProducts={handleAddScannedProducts} savedProducts={productCodes} onSaveProducts={handleSaveProductCodes} />
+              ) : (
+                <>
+                <ImageUploader
+                  onScanAndGenerateRecipes={initiateFullScanProcess} // Pass the combined function
+                  onLoadingChange={handleImageUploadLoadingChange}
+                  onError={handleImageUploadError}
+                  scanQueue={scanQueue}
+                  onAddImages={handleAddScanImages}
+                  onRemoveImage={handleRemoveScanImage}
+                  onClearImages={handleClearScanImages}
+                  scanResults={lastScanResults}
+                  reviewImageIds={scanReview?.imageIds ?? []}
+                  onCorrectDetection={handleCorrectDetection}
+                  onRemoveDetection={handleRemoveDetection}
+                />
+                {scanReview && (
+                  <ScanReview
+                    items={scanReview.items}
+                    onChangeItems={handleChangeScanReviewItems}
+                    inventory={fridgeInventory}
+                    scanQueue={scanQueue}
+                    onConfirm={handleConfirmScanReview}
+                    onDiscard={handleDiscardScanReview}
+                  />
+                )}
+                {imageAnalysisError && (
+                  <p className="text-rose-400 text-center mt-4 text-sm">{imageAnalysisError}</p>
+                )}
 
-              {(imageAnalysisLoading || recipeGenerationLoading) && !imageAnalysisError && (
-                <div className="mt-8">
-                  <LoadingSpinner message={imageAnalysisLoading ? "Analyzing your ingredients with Chef Fridge..." : "Chef Fridge is thinking up delicious recipes with your ingredients..."} />
-                </div>
+                {(imageAnalysisLoading || recipeGenerationLoading) && !imageAnalysisError && (
+                  <div className="mt-8">
+                    <LoadingSpinner message={imageAnalysisLoading ? "Analyzing your ingredients with Chef Fridge..." : "Chef Fridge is thinking up delicious recipes with your ingredients..."} />
+                  </div>
+                )}
+                </>
               )}
             </section>
           )}
 
-          {activeTab === 'recipes' && (
+          {isHydrated && activeTab === 'recipes' && (
             <section className="animate-fade-in flex-1">
               {!recipeGenerationLoading && !recipeGenerationError && (
                 <RecipeDisplay
                   recipes={generatedRecipes}
                   onRecipeSelected={setSelectedRecipe}
                   selectedRecipe={selectedRecipe}
+                  inventory={fridgeInventory}
+                  onRecipeCooked={handleRecipeCooked}
+                  onAddToShoppingList={handleAddToShoppingList}
+                  profile={userProfile}
+                  onRegenerateSafeRecipe={handleRegenerateSafeRecipe}
+                  cookbook={cookbook}
+                  onSaveRecipe={handleSaveRecipe}
+                  onStartCooking={handleStartCooking}
+                  onStartTimer={handleStartTimer}
                 />
               )}
               {/* The "No recipes generated yet..." message will now be handled within RecipeDisplay */}
@@ -223,7 +671,37 @@ function App() {
             </section>
           )}
 
-          {activeTab === 'inventory' && (
+          {isHydrated && activeTab === 'cookbook' && (
+            <section className="animate-fade-in flex-1">
+              {/* A saved recipe opens in the same detail view as suggestions; "Back" returns here */}
+              {selectedRecipe ? renderRecipeDetail() : (
+                <Cookbook
+                  cookbook={cookbook}
+                  onUpdateSavedRecipe={handleUpdateSavedRecipe}
+                  onRemoveSavedRecipe={handleRemoveSavedRecipe}
+                  onOpenRecipe={setSelectedRecipe}
+                />
+              )}
+            </section>
+          )}
+
+          {isHydrated && activeTab === 'planner' && (
+            <section className="animate-fade-in flex-1">
+              {selectedRecipe ? renderRecipeDetail() : (
+                <MealPlanner
+                  plan={mealPlan}
+                  inventory={fridgeInventory}
+                  onGeneratePlan={handleGenerateMealPlan}
+                  onMoveMeal={handleMoveMeal}
+                  onRemoveMeal={handleRemoveMeal}
+                  onOpenRecipe={setSelectedRecipe}
+                  onAddToShoppingList={handleAddToShoppingList}
+                />
+              )}
+            </section>
+          )}
+
+          {isHydrated && activeTab === 'inventory' && (
             <section className="animate-fade-in flex-1">
               <FridgeInventory
                 inventory={fridgeInventory}
@@ -231,19 +709,20 @@ function App() {
                 shoppingList={shoppingList}
                 onUpdateShoppingList={handleUpdateShoppingList}
                 healthLog={healthLog}
+                onOverrideCategory={handleOverrideCategory}
               />
             </section>
           )}
 
-          {activeTab === 'imageGen' && (
+          {isHydrated && activeTab === 'imageGen' && (
             <section className="animate-fade-in flex-1">
               <ImageGenerator />
             </section>
           )}
 
-          {activeTab === 'health' && (
+          {isHydrated && activeTab === 'health' && (
             <section className="animate-fade-in flex-1">
-              <HealthProfile healthLog={healthLog} />
+              <HealthProfile healthLog={healthLog} profile={userProfile} onUpdateProfile={setUserProfile} />
             </section>
           )}
           
@@ -258,9 +737,34 @@ function App() {
             setThinking={setIsThinking}
             setStartLiveSession={setStartLiveSession}
             setStopLiveSession={setStopLiveSession}
+            setSendLiveText={setSendLiveText}
+            userProfile={userProfile}
+            toolActions={liveToolActions}
+            cardActions={chatCardActions}
           />
         </main>
 
+        {cookingSession && (
+          <CookingMode session={cookingSession} onChangeStep={handleChangeCookingStep} onExit={handleExitCooking} onStartTimer={handleStartTimer} />
+        )}
+
+        <TimerTray
+          timers={timers}
+          onPause={handlePauseTimer}
+          onResume={handleResumeTimer}
+          onExtend={handleExtendTimer}
+          onRemove={handleRemoveTimer}
+        />
+
+        {lastCookEvent && (
+          <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-50 bg-gray-800 text-gray-100 rounded-xl shadow-2xl px-5 py-3 flex items-center gap-4 animate-fade-in-up" role="status">
+            <span>Marked <span className="font-semibold">{lastCookEvent.recipeName}</span> as cooked.</span>
+            <button onClick={handleUndoCook} className="text-cyan-400 font-bold hover:text-cyan-200" aria-label="Undo mark as cooked">
+              Undo
+            </button>
+          </div>
+        )}
+
         <BottomNavigationBar
           activeTab={activeTab}
           setActiveTab={setActiveTab}
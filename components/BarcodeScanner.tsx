@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CatalogProduct, Ingredient } from '../types';
+import { BARCODE_REPEAT_MS, BARCODE_SCAN_INTERVAL_MS } from '../constants';
+import { CameraSource, browserCameraSource, drawFrame, stopStream } from '../services/cameraService';
+import { canReadAllFormats, createIngredientFromProduct, createProductFromEntry, decodeCanvas, decodeImageFile, lookupProduct } from '../services/barcodeService';
+
+interface BarcodeScannerProps {
+  onAddProducts: (ingredients: Ingredient[]) => void;
+  savedProducts: Record<string, CatalogProduct>; // Codes named on earlier scans
+  onSaveProducts: (products: Record<string, CatalogProduct>) => void;
+  cameraSource?: CameraSource; // Defaults to the device camera
+}
+
+// One scanned code. Products missing from the catalog are named by hand before adding, and
+// remembered for the next scan.
+interface ScannedProduct {
+  code: string;
+  product: CatalogProduct | null;
+  count: number;
+  customName: string;
+  customQuantity: string;
+}
+
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onAddProducts, savedProducts, onSaveProducts, cameraSource = browserCameraSource }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isLive, setIsLive] = useState<boolean>(false);
+  const [scanned, setScanned] = useState<ScannedProduct[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isDecodingFile, setIsDecodingFile] = useState<boolean>(false);
+  // When each code was last seen on camera, so a pack held in view counts once
+  const lastSeenRef = useRef<Map<string, number>>(new Map());
+  // The camera loop outlives renders; read the latest saved codes through a ref
+  const savedProductsRef = useRef(savedProducts);
+  savedProductsRef.current = savedProducts;
+
+  const addCode = (code: string) => {
+    setScanned((prev) => {
+      const existing = prev.find((item) => item.code === code);
+      if (existing) return prev.map((item) => (item.code === code ? { ...item, count: item.count + 1 } : item));
+      return [{ code, product: lookupProduct(code, savedProductsRef.current), count: 1, customName: '', customQuantity: '1' }, ...prev];
+    });
+    navigator.vibrate?.(40);
+  };
+
+  useEffect(() => {
+    if (!isLive) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let isDecoding = false;
+    let hasLoggedError = false;
+    const canvas = document.createElement('canvas');
+    setError(null);
+
+    cameraSource.start('environment')
+      .then((started) => {
+        if (cancelled) {
+          stopStream(started);
+          return;
+        }
+        stream = started;
+        if (videoRef.current) {
+          videoRef.current.srcObject = started;
+          void videoRef.current.play().catch(() => undefined);
+        }
+      })
+      .catch((err: any) => {
+        console.error('Error starting camera for barcodes:', err);
+        if (!cancelled) {
+          setError(err.message || 'Could not start the camera.');
+          setIsLive(false);
+        }
+      });
+
+    const interval = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (isDecoding || !video || !drawFrame(video, canvas, 960)) return;
+      isDecoding = true;
+      try {
+        const codes = await decodeCanvas(canvas);
+        const now = Date.now();
+        codes.forEach((code) => {
+          const lastSeen = lastSeenRef.current.get(code) ?? 0;
+          lastSeenRef.current.set(code, now);
+          if (!cancelled && now - lastSeen > BARCODE_REPEAT_MS) addCode(code);
+        });
+      } catch (err) {
+        // One bad frame shouldn't stop the scan; log the first failure only, as it tends to repeat
+        if (!hasLoggedError) console.error('Error decoding barcode frame:', err);
+        hasLoggedError = true;
+      } finally {
+        isDecoding = false;
+      }
+    }, BARCODE_SCAN_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+      stopStream(stream);
+    };
+  }, [isLive, cameraSource]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(event.target.files ?? []).filter((file) => file.type.startsWith('image/'));
+    event.target.value = '';
+    if (files.length === 0) return;
+    setIsDecodingFile(true);
+    setError(null);
+    try {
+      const results = await Promise.all(files.map(decodeImageFile));
+      const codes = results.flat();
+      codes.forEach(addCode);
+      if (codes.length === 0) setError('No barcode could be read. Try a sharper, straight-on photo of the code.');
+    } catch (err: any) {
+      setError(err.message || 'Could not read the photo.');
+    } finally {
+      setIsDecodingFile(false);
+    }
+  };
+
+  const updateScanned = (code: string, changes: Partial<ScannedProduct>) => {
+    setScanned((prev) => prev.map((item) => (item.code === code ? { ...item, ...changes } : item)));
+  };
+
+  const changeCount = (code: string, delta: number) => {
+    setScanned((prev) => prev
+      .map((item) => (item.code === code ? { ...item, count: item.count + delta } : item))
+      .filter((item) => item.count > 0));
+  };
+
+  const ready = scanned.filter((item) => item.product || item.customName.trim());
+
+  const handleAdd = () => {
+    const named: Record<string, CatalogProduct> = {};
+    const ingredients = ready.map((item) => {
+      if (item.product) return createIngredientFromProduct(item.product, item.count);
+      const product = createProductFromEntry(item.customName.trim(), item.customQuantity.trim() || '1');
+      named[item.code] = product;
+      return createIngredientFromProduct(product, item.count);
+    });
+    onAddProducts(ingredients);
+    if (Object.keys(named).length > 0) onSaveProducts(named);
+    setNotice(`Added ${ingredients.length} product${ingredients.length === 1 ? '' : 's'} to your fridge.`);
+    setScanned((prev) => prev.filter((item) => !ready.includes(item)));
+    lastSeenRef.current.clear();
+  };
+
+  return (
+    <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg max-w-2xl mx-auto my-6 animate-fade-in text-gray-100">
+      <h2 className="text-3xl font-bold text-gray-100 mb-4 border-b border-gray-700 pb-3 flex items-center">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mr-2 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4 6v12M7 6v12M10 6v12M14 6v12M17 6v12M20 6v12" />
+        </svg>
+        Scan Barcodes
+      </h2>
+      <p className="text-gray-300 mb-6 text-lg">Hold each pack's barcode up to the camera. Known products are filled in with their pack size and shelf life, and any you name by hand are remembered for next time.</p>
+
+      {!canReadAllFormats() && (
+        <p className="mb-4 text-amber-300 text-sm">
+          This browser can only read standard product barcodes (EAN-13 and UPC-A). QR codes and short EAN-8 or UPC-E codes need a browser with barcode detection, such as Chrome on Android.
+        </p>
+      )}
+      {notice && <p className="mb-4 text-emerald-300 text-base" role="status">{notice}</p>}
+
+      {isLive ? (
+        <div className="relative mb-4 rounded-2xl overflow-hidden bg-black">
+          <video ref={videoRef} autoPlay playsInline muted className="w-full" aria-label="Barcode camera preview" />
+          {/* Aiming guide over the band of rows the built-in reader scans */}
+          <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-1/3 border-2 border-cyan-400 rounded-xl pointer-events-none" />
+          <button
+            onClick={() => setIsLive(false)}
+            className="absolute top-3 right-3 bg-gray-900/80 text-white font-semibold px-4 py-2 rounded-xl hover:bg-gray-800"
+          >
+            Stop camera
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-3 mb-4">
+          <button
+            onClick={() => {
+              setNotice(null);
+              setIsLive(true);
+            }}
+            className="flex-1 bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-3 px-4 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 shadow-lg text-lg"
+          >
+            Start camera
+          </button>
+          <label className={`flex-1 relative bg-gray-700 text-white font-semibold py-3 px-4 rounded-xl hover:bg-gray-600 transition duration-200 shadow-md text-lg text-center cursor-pointer ${isDecodingFile ? 'opacity-50' : ''}`}>
+            {isDecodingFile ? 'Reading...' : 'Upload photos'}
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleFileChange}
+              disabled={isDecodingFile}
+              className="absolute inset-0 opacity-0 cursor-pointer w-full h-full"
+              aria-label="Upload barcode photos"
+            />
+          </label>
+        </div>
+      )}
+      {error && <p className="mb-4 text-rose-400 text-base" role="alert">{error}</p>}
+
+      {scanned.length > 0 && (
+        <>
+          <ul className="space-y-2 mb-4">
+            {scanned.map((item) => (
+              <li key={item.code} className={`p-3 rounded-xl border bg-gray-900/50 ${item.product ? 'border-gray-700' : 'border-amber-500'}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex-1">
+                    {item.product ? (
+                      <p className="text-lg">
+                        <span className="font-semibold text-cyan-300">{item.product.name}</span>
+                        {item.product.brand && <span className="text-gray-400"> · {item.product.brand}</span>}
+                        <span className="text-gray-300"> · {item.product.packSize}</span>
+                      </p>
+                    ) : (
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                          type="text"
+                          value={item.customName}
+                          onChange={(e) => updateScanned(item.code, { customName: e.target.value })}
+                          placeholder="New code: what is it?"
+                          className="flex-1 p-2 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 bg-gray-900 text-gray-100"
+                          aria-label={`Name for barcode ${item.code}`}
+                        />
+                        <input
+                          type="text"
+                          value={item.customQuantity}
+                          onChange={(e) => updateScanned(item.code, { customQuantity: e.target.value })}
+                          className="sm:w-28 p-2 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 bg-gray-900 text-gray-100"
+                          aria-label={`Pack size for barcode ${item.code}`}
+                        />
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500 font-mono mt-1">{item.code}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => changeCount(item.code, -1)} className="bg-gray-700 w-8 h-8 rounded-full hover:bg-gray-600" aria-label={`One fewer ${item.product?.name ?? item.code}`}>−</button>
+                    <span className="w-6 text-center font-semibold">{item.count}</span>
+                    <button onClick={() => changeCount(item.code, 1)} className="bg-gray-700 w-8 h-8 rounded-full hover:bg-gray-600" aria-label={`One more ${item.product?.name ?? item.code}`}>+</button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleAdd}
+            disabled={ready.length === 0}
+            className="w-full bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-4 px-4 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg text-xl"
+          >
+            Add {ready.length} product{ready.length === 1 ? '' : 's'} to my fridge
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BarcodeScanner;
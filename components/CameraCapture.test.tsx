@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import CameraCapture from './CameraCapture';
+import { createFakeCameraSource } from '../services/cameraService';
+
+// jsdom has no canvas, media streams or video frames; stand in for the few calls the fake camera
+// and the capture flow make, so the flow runs against the fake source itself.
+function stubBrowserMedia() {
+  const drawn: string[] = [];
+  const stops: (() => void)[] = []; // Each stream's own stop, under the fake source's wrapper
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ({
+    fillRect: () => undefined,
+    drawImage: () => undefined,
+    fillText: (text: string) => drawn.push(text),
+  }) as unknown as CanvasRenderingContext2D);
+  Object.assign(HTMLCanvasElement.prototype, {
+    captureStream: () => {
+      const track = { stop: vi.fn(), addEventListener: () => undefined };
+      stops.push(track.stop);
+      return { getTracks: () => [track], getVideoTracks: () => [track] };
+    },
+    toBlob: (callback: BlobCallback, type?: string) => callback(new Blob(['frame'], { type })),
+  });
+  vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+  vi.spyOn(HTMLVideoElement.prototype, 'videoWidth', 'get').mockReturnValue(640);
+  vi.spyOn(HTMLVideoElement.prototype, 'videoHeight', 'get').mockReturnValue(480);
+  let nextUrl = 0;
+  URL.createObjectURL = vi.fn(() => `blob:shot-${nextUrl++}`);
+  URL.revokeObjectURL = vi.fn();
+  return { drawn, stops };
+}
+
+function renderCamera(maxShots = 2) {
+  const props = { maxShots, onUsePhotos: vi.fn(), onScanPhotos: vi.fn(), onClose: vi.fn() };
+  render(<CameraCapture source={createFakeCameraSource()} {...props} />);
+  return props;
+}
+
+async function takePhoto() {
+  const shutter = screen.getByRole('button', { name: 'Take photo' });
+  await waitFor(() => expect(shutter).toHaveProperty('disabled', false));
+  await act(async () => fireEvent.click(shutter));
+  await screen.findByRole('button', { name: 'Keep photo' });
+}
+
+describe('CameraCapture with the fake camera', () => {
+  let media: ReturnType<typeof stubBrowserMedia>;
+
+  beforeEach(() => {
+    media = stubBrowserMedia();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('films the test card for the facing it was opened with', async () => {
+    renderCamera();
+    await waitFor(() => expect(screen.queryByText('Starting camera...')).toBeNull());
+    expect(media.drawn[0]).toBe('Fake environment camera · frame 0');
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Switch to front camera' }));
+    await waitFor(() => expect(media.drawn).toContain('Fake user camera · frame 0'));
+    expect(media.stops[0]).toHaveBeenCalled();
+  });
+
+  it('shows a shot for review and throws it away on retake', async () => {
+    renderCamera();
+    await takePhoto();
+    expect(screen.getByAltText('Photo just taken')).toHaveProperty('src', 'blob:shot-0');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retake' }));
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:shot-0');
+    expect(screen.queryByLabelText('Photos taken')).toBeNull();
+    expect(screen.getByText('0/2 photos')).toBeTruthy();
+  });
+
+  it('keeps shots in the tray up to the limit and scans them', async () => {
+    const props = renderCamera();
+    await takePhoto();
+    fireEvent.click(screen.getByRole('button', { name: 'Keep photo' }));
+    await takePhoto();
+    fireEvent.click(screen.getByRole('button', { name: 'Keep photo' }));
+
+    expect(screen.getByText('2/2 photos')).toBeTruthy();
+    expect(screen.getAllByAltText(/^Camera photo \d$/)).toHaveLength(2);
+    expect(screen.getByRole('button', { name: 'No more photos can be added' })).toHaveProperty('disabled', true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove camera photo 1' }));
+    expect(screen.getByText('1/2 photos')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Scan 1 now' }));
+    expect(props.onScanPhotos).toHaveBeenCalledWith([expect.any(File)]);
+    const [[files]] = props.onScanPhotos.mock.calls;
+    expect(files[0].type).toBe('image/jpeg');
+  });
+
+  it('stops the camera when closed', async () => {
+    renderCamera();
+    await waitFor(() => expect(media.stops).toHaveLength(1));
+    cleanup();
+    expect(media.stops[0]).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraFacing, CameraSource, browserCameraSource, captureFrame, stopStream } from '../services/cameraService';
+
+interface CameraCaptureProps {
+  // Where frames come from; tests pass createFakeCameraSource()
+  source?: CameraSource;
+  maxShots: number; // How many more photos the scan queue can take
+  onUsePhotos: (files: File[]) => void; // Adds the shots to the scan queue without scanning
+  onScanPhotos: (files: File[]) => void; // Adds the shots and starts the scan straight away
+  onClose: () => void;
+}
+
+interface Shot {
+  id: string;
+  file: File;
+  url: string;
+}
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ source = browserCameraSource, maxShots, onUsePhotos, onScanPhotos, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facing, setFacing] = useState<CameraFacing>('environment');
+  const [canSwitch, setCanSwitch] = useState<boolean>(false);
+  const [isStarting, setIsStarting] = useState<boolean>(true);
+  const [isCapturing, setIsCapturing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shots, setShots] = useState<Shot[]>([]);
+  // The shot just taken, waiting for Keep or Retake
+  const [review, setReview] = useState<Shot | null>(null);
+
+  // Object URLs still held when the camera closes, released on unmount
+  const urlsRef = useRef<Set<string>>(new Set());
+  useEffect(() => () => urlsRef.current.forEach((url) => URL.revokeObjectURL(url)), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    setIsStarting(true);
+    setError(null);
+    source.start(facing)
+      .then((started) => {
+        if (cancelled) {
+          stopStream(started);
+          return;
+        }
+        stream = started;
+        if (videoRef.current) {
+          videoRef.current.srcObject = started;
+          void videoRef.current.play().catch(() => undefined); // Autoplay is allowed for muted video; ignore the rare refusal
+        }
+      })
+      .catch((err: any) => {
+        console.error('Error starting camera:', err);
+        if (!cancelled) setError(err.message || 'Could not start the camera.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsStarting(false);
+      });
+    return () => {
+      cancelled = true;
+      stopStream(stream);
+    };
+  }, [source, facing]);
+
+  useEffect(() => {
+    source.canSwitchFacing().then(setCanSwitch).catch(() => setCanSwitch(false));
+  }, [source]);
+
+  const discardShot = (shot: Shot) => {
+    URL.revokeObjectURL(shot.url);
+    urlsRef.current.delete(shot.url);
+  };
+
+  const handleShutter = async () => {
+    if (!videoRef.current || isCapturing) return;
+    setIsCapturing(true);
+    try {
+      const file = await captureFrame(videoRef.current);
+      const url = URL.createObjectURL(file);
+      urlsRef.current.add(url);
+      setReview({ id: url, file, url });
+    } catch (err: any) {
+      setError(err.message || 'Could not capture a photo.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleRetake = () => {
+    if (review) discardShot(review);
+    setReview(null);
+  };
+
+  const handleKeep = () => {
+    if (!review) return;
+    setShots((prev) => [...prev, review]);
+    setReview(null);
+  };
+
+  const handleRemoveShot = (id: string) => {
+    setShots((prev) => {
+      const removed = prev.find((shot) => shot.id === id);
+      if (removed) discardShot(removed);
+      return prev.filter((shot) => shot.id !== id);
+    });
+  };
+
+  const handleClose = () => {
+    if (shots.length > 0 && !window.confirm(`Discard ${shots.length} photo${shots.length === 1 ? '' : 's'} taken with the camera?`)) return;
+    onClose();
+  };
+
+  const isFull = shots.length >= maxShots;
+  const files = shots.map((shot) => shot.file);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-950 flex flex-col text-gray-100 animate-fade-in" role="dialog" aria-label="Camera">
+      <div className="flex items-center justify-between p-4">
+        <button onClick={handleClose} className="text-gray-300 hover:text-white font-semibold text-lg" aria-label="Close camera">
+          Cancel
+        </button>
+        <span className="text-gray-400 text-sm">{shots.length}/{maxShots} photos</span>
+        {canSwitch ? (
+          <button
+            onClick={() => setFacing((prev) => (prev === 'environment' ? 'user' : 'environment'))}
+            disabled={isStarting || review !== null}
+            className="bg-gray-800 p-2 rounded-full hover:bg-gray-700 disabled:opacity-50"
+            aria-label={facing === 'environment' ? 'Switch to front camera' : 'Switch to back camera'}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+          </button>
+        ) : (
+          <span className="w-10" />
+        )}
+      </div>
+
+      <div className="relative flex-1 flex items-center justify-center overflow-hidden bg-black">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`max-h-full max-w-full ${facing === 'user' ? '-scale-x-100' : ''} ${review ? 'hidden' : ''}`}
+          aria-label="Camera preview"
+        />
+        {review && <img src={review.url} alt="Photo just taken" className="max-h-full max-w-full" />}
+        {isStarting && !error && <p className="absolute text-gray-300 text-lg">Starting camera...</p>}
+        {error && (
+          <div className="absolute inset-x-6 p-4 bg-gray-900/90 border border-rose-500 rounded-xl text-center" role="alert">
+            <p className="text-rose-300 mb-2">{error}</p>
+            <p className="text-gray-400 text-sm">You can still upload photos from your device instead.</p>
+          </div>
+        )}
+      </div>
+
+      {shots.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto p-3 bg-gray-900" aria-label="Photos taken">
+          {shots.map((shot, index) => (
+            <div key={shot.id} className="relative flex-shrink-0">
+              <img src={shot.url} alt={`Camera photo ${index + 1}`} className="h-16 w-16 object-cover rounded-lg border border-gray-700" />
+              <button
+                onClick={() => handleRemoveShot(shot.id)}
+                className="absolute -top-1 -right-1 bg-rose-600 text-white rounded-full p-0.5 hover:bg-rose-700"
+                aria-label={`Remove camera photo ${index + 1}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-900 pb-8">
+        {review ? (
+          <div className="flex gap-3">
+            <button onClick={handleRetake} className="flex-1 bg-gray-700 text-white font-semibold py-3 rounded-xl hover:bg-gray-600 text-lg">
+              Retake
+            </button>
+            <button onClick={handleKeep} className="flex-1 bg-emerald-600 text-white font-semibold py-3 rounded-xl hover:bg-emerald-700 text-lg">
+              Keep photo
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-3">
+            <button
+              onClick={() => onUsePhotos(files)}
+              disabled={shots.length === 0}
+              className="flex-1 bg-gray-700 text-white font-semibold py-3 rounded-xl hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Add to scan
+            </button>
+            <button
+              onClick={handleShutter}
+              disabled={isStarting || isCapturing || isFull || error !== null}
+              className="w-20 h-20 rounded-full border-4 border-white bg-white/20 hover:bg-white/40 disabled:opacity-40 disabled:cursor-not-allowed flex-shrink-0"
+              aria-label={isFull ? 'No more photos can be added' : 'Take photo'}
+            />
+            <button
+              onClick={() => onScanPhotos(files)}
+              disabled={shots.length === 0}
+              className="flex-1 bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-3 rounded-xl hover:from-cyan-500 hover:to-emerald-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {shots.length > 0 ? `Scan ${shots.length} now` : 'Scan now'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
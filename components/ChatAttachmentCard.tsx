@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ChatAttachment, ChatCardActions, UserProfile } from '../types';
+import { describeInventoryEdit } from '../services/inventoryEditService';
+import { checkRecipeSafety } from '../services/allergenService';
+import SafetyNotice from './SafetyNotice';
+
+interface ChatAttachmentCardProps {
+  attachment: ChatAttachment;
+  actions: ChatCardActions;
+  profile: UserProfile; // Recipes are checked against its allergens, as on the recipes tab
+}
+
+const primaryButton = 'bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-semibold px-3 py-1.5 rounded-lg hover:from-cyan-500 hover:to-emerald-600 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+const secondaryButton = 'bg-gray-700 text-gray-100 font-semibold px-3 py-1.5 rounded-lg hover:bg-gray-600 text-sm';
+
+// A suggestion from a chat reply, made real with one tap. Each card can only be used once.
+const ChatAttachmentCard: React.FC<ChatAttachmentCardProps> = ({ attachment, actions, profile }) => {
+  const [result, setResult] = useState<{ text: string; problems: string[] } | null>(null);
+
+  const done = result && (
+    <div className="text-sm mt-2" role="status">
+      <p className="text-emerald-300 font-semibold">{result.text}</p>
+      {result.problems.length > 0 && (
+        <ul className="text-amber-300 list-disc list-inside mt-1">
+          {result.problems.map((problem, i) => <li key={i}>{problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+
+  if (attachment.type === 'recipe') {
+    const { recipe } = attachment;
+    const totalMinutes = (recipe.prepMinutes ?? 0) + (recipe.cookMinutes ?? 0);
+    const safetyReport = checkRecipeSafety(recipe, profile);
+    const meta = [recipe.servings && `Serves ${recipe.servings}`, totalMinutes > 0 && `${totalMinutes} min`, recipe.cuisine].filter(Boolean);
+    return (
+      <div className="mt-3 p-3 bg-gray-800/80 border border-gray-600 rounded-xl">
+        <p className="text-xs uppercase tracking-wide text-gray-400">Recipe</p>
+        <h4 className="text-lg font-bold text-cyan-400">{recipe.name}</h4>
+        {meta.length > 0 && <p className="text-xs text-gray-400">{meta.join(' · ')}</p>}
+        {recipe.summary && <p className="text-sm text-gray-200 mt-1">{recipe.summary}</p>}
+        {safetyReport.status !== 'safe' && <div className="mt-2"><SafetyNotice report={safetyReport} /></div>}
+        <details className="mt-2 text-sm">
+          <summary className="cursor-pointer text-cyan-300">Ingredients ({recipe.ingredients.length}) and {recipe.instructions.length} steps</summary>
+          <ul className="list-disc list-outside ml-5 mt-1 space-y-0.5">
+            {recipe.ingredients.map((ingredient, i) => <li key={i}>{ingredient}</li>)}
+          </ul>
+          <ol className="list-decimal list-outside ml-5 mt-2 space-y-1">
+            {recipe.instructions.map((step, i) => <li key={i}>{step}</li>)}
+          </ol>
+        </details>
+        <div className="flex flex-wrap gap-2 mt-3">
+          <button
+            onClick={() => {
+              actions.onSaveRecipe(recipe);
+              setResult({ text: 'Saved to your cookbook ✓', problems: [] });
+            }}
+            disabled={result !== null}
+            className={primaryButton}
+          >
+            Save recipe
+          </button>
+          {safetyReport.status === 'safe' ? (
+            <button onClick={() => actions.onStartCooking(recipe)} className={secondaryButton}>
+              Cook now
+            </button>
+          ) : (
+            <button
+              onClick={() => actions.onStartCooking(recipe)}
+              className="text-sm text-gray-400 underline hover:text-gray-200"
+              aria-label={`Cook ${recipe.name} anyway`}
+            >
+              Cook anyway
+            </button>
+          )}
+        </div>
+        {done}
+      </div>
+    );
+  }
+
+  if (attachment.type === 'inventoryEdits') {
+    const { edits } = attachment;
+    const apply = () => {
+      const problems = actions.onApplyInventoryEdits(edits);
+      const applied = edits.length - problems.length;
+      setResult({ text: applied === edits.length ? 'Fridge updated ✓' : `Made ${applied} of ${edits.length} changes.`, problems });
+    };
+    return (
+      <div className="mt-3 p-3 bg-gray-800/80 border border-gray-600 rounded-xl">
+        <p className="text-xs uppercase tracking-wide text-gray-400">Fridge changes</p>
+        <ul className="text-sm list-disc list-outside ml-5 mt-1 space-y-0.5">
+          {edits.map((edit, i) => <li key={i}>{describeInventoryEdit(edit)}</li>)}
+        </ul>
+        <button onClick={apply} disabled={result !== null} className={`${primaryButton} mt-3`}>
+          Apply to fridge
+        </button>
+        {done}
+      </div>
+    );
+  }
+
+  const { items } = attachment;
+  return (
+    <div className="mt-3 p-3 bg-gray-800/80 border border-gray-600 rounded-xl">
+      <p className="text-xs uppercase tracking-wide text-gray-400">Shopping list</p>
+      <ul className="text-sm list-disc list-outside ml-5 mt-1 space-y-0.5">
+        {items.map((item, i) => <li key={i}>{item.quantity ? `${item.quantity} ${item.name}` : item.name}</li>)}
+      </ul>
+      <button
+        onClick={() => {
+          actions.onAddToShoppingList(items);
+          setResult({ text: `Added ${items.length === 1 ? 'it' : `all ${items.length}`} to your list ✓`, problems: [] });
+        }}
+        disabled={result !== null}
+        className={`${primaryButton} mt-3`}
+      >
+        Add to list
+      </button>
+      {done}
+    </div>
+  );
+};
+
+export default ChatAttachmentCard;
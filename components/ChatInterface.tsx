@@ -1,10 +1,19 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import geminiService from '../services/geminiService';
-import { ChatMessage } from '../types';
+import { ChatAttachment, ChatCardActions, ChatMessage, UserProfile } from '../types';
+import { MAX_CHAT_TOOL_ROUNDS } from '../constants';
 import LoadingSpinner from './LoadingSpinner';
+import MarkdownContent from './MarkdownContent';
+import ChatAttachmentCard from './ChatAttachmentCard';
 import { v4 as uuidv4 } from 'uuid';
-import { FunctionCall, LiveServerMessage, Chat, Session } from '@google/genai';
+import { FunctionCall, LiveServerMessage, Chat, Session, Part, PartListUnion } from '@google/genai';
+import { buildKitchenSnapshot } from '../services/chatContextService';
+import { primeAlarm } from '../services/alarmService';
+import { LiveToolActions, getChatToolDeclarations, getLiveToolDeclarations, runChatToolCalls, runLiveToolCalls } from '../services/liveToolsService';
+
+// Sent with the last round of tool results a reply may use.
+const FINISH_IN_WORDS_NOTE = 'That was your last tool call for this reply. Answer the user now in words, using the results above, without calling any more tools.';
 
 interface ChatInterfaceProps {
   viewMode: 'hidden' | 'tab' | 'overlay'; // New prop
@@ -13,27 +22,12 @@ interface ChatInterfaceProps {
   setThinking: (thinking: boolean) => void;
   setStartLiveSession: React.Dispatch<React.SetStateAction<(initialPrompt?: string) => Promise<void>>>;
   setStopLiveSession: React.Dispatch<React.SetStateAction<() => void>>;
+  setSendLiveText: React.Dispatch<React.SetStateAction<(text: string) => void>>;
+  userProfile: UserProfile; // Folded into the system instructions of every session
+  toolActions: LiveToolActions; // App actions the live session can call
+  cardActions: ChatCardActions; // What the buttons on chat replies' cards do
 }
 
-// Utility component to display Markdown content
-const MarkdownContent: React.FC<{ content: string }> = ({ content }) => {
-  // Simple markdown-like rendering for bold and links.
-  const formattedContent = content
-    .split('**').map((text, i) => i % 2 === 1 ? <strong key={i}>{text}</strong> : text)
-    .flatMap((segment, i) => {
-      if (typeof segment === 'string') {
-        // Regex to find URLs and convert them to anchor tags
-        const urlRegex = /(https?:\/\/[^\s]+)/g;
-        return segment.split(urlRegex).map((part, j) =>
-          urlRegex.test(part) ? <a key={`${i}-${j}`} href={part} target="_blank" rel="noopener noreferrer" className="text-cyan-400 underline hover:text-cyan-200">{part}</a> : part
-        );
-      }
-      return segment;
-    });
-
-  return <>{formattedContent}</>;
-};
-
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   viewMode,
   onClose,
@@ -41,6 +35,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   setThinking,
   setStartLiveSession,
   setStopLiveSession,
+  setSendLiveText,
+  userProfile,
+  toolActions,
+  cardActions,
 }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [currentInput, setCurrentInput] = useState<string>('');
@@ -62,6 +60,27 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   // Chat specific refs
   const chatRef = useRef<Chat | null>(null);
   const chatScrollRef = useRef<HTMLDivElement>(null);
+  // Latest profile, read when a session starts so callbacks don't go stale
+  const userProfileRef = useRef<UserProfile>(userProfile);
+  // Likewise for the tool actions, which read the latest app state
+  const toolActionsRef = useRef<LiveToolActions>(toolActions);
+
+  // The kitchen snapshot in the chat's current instructions
+  const kitchenSnapshotRef = useRef<string>('');
+
+  useEffect(() => {
+    toolActionsRef.current = toolActions;
+  }, [toolActions]);
+
+  // Builds the chat, or rebuilds it keeping the conversation, when its instructions are out of date.
+  // Rebuilding is local, so checking the snapshot before every message costs nothing.
+  const syncChatSession = useCallback((force = false) => {
+    const { inventory, shoppingList } = toolActionsRef.current.getState();
+    const snapshot = buildKitchenSnapshot(inventory, shoppingList);
+    if (chatRef.current && !force && snapshot === kitchenSnapshotRef.current) return;
+    kitchenSnapshotRef.current = snapshot;
+    chatRef.current = geminiService.createChatSession(userProfileRef.current, getChatToolDeclarations(), snapshot, chatRef.current?.getHistory());
+  }, []);
 
   // Propagate internal states to parent
   useEffect(() => {
@@ -75,7 +94,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   useEffect(() => {
     if (!chatRef.current) {
-      chatRef.current = geminiService.createChatSession();
+      syncChatSession();
       console.log('Gemini Chat session initialized.');
       // Add initial greeting message
       setMessages([{
@@ -91,6 +110,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, [viewMode]); // Removed messages, liveTranscription from deps to prevent re-runs
 
+  // A profile edit takes effect immediately: rebuild the chat with the new instructions, keeping the conversation.
+  useEffect(() => {
+    if (userProfileRef.current === userProfile) return;
+    userProfileRef.current = userProfile;
+    if (chatRef.current) syncChatSession(true);
+  }, [userProfile, syncChatSession]);
+
   const addMessage = useCallback((message: Omit<ChatMessage, 'id' | 'timestamp'>) => {
     setMessages((prev) => [...prev, { id: uuidv4(), timestamp: new Date(), ...message }]);
   }, []);
@@ -105,29 +131,51 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
     try {
       if (useSearchGrounding) {
-        const { text, sources } = await geminiService.getGroundedResponse(messageText);
+        const { text, sources } = await geminiService.getGroundedResponse(messageText, userProfileRef.current);
         addMessage({ sender: 'gemini', text, sources });
       } else {
+        syncChatSession(); // The fridge may have changed since the last message
         if (!chatRef.current) {
           throw new Error("Chat session not initialized.");
         }
         let fullResponseText = '';
+        const attachments: ChatAttachment[] = [];
         addMessage({ sender: 'gemini', text: '', isStreaming: true });
 
-        const responseStream = await chatRef.current.sendMessageStream({
-          message: messageText,
-        });
-
-        for await (const chunk of responseStream) {
-          const chunkText = chunk.text;
-          if (chunkText) {
-            fullResponseText += chunkText;
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.isStreaming ? { ...msg, text: fullResponseText, isStreaming: true } : msg,
-              ),
-            );
+        // Tool calls are answered and the reply streams on, until the model finishes its turn
+        let message: PartListUnion = messageText;
+        for (let round = 0; round <= MAX_CHAT_TOOL_ROUNDS; round++) {
+          const responseStream = await chatRef.current.sendMessageStream({ message });
+          const functionCalls: FunctionCall[] = [];
+          for await (const chunk of responseStream) {
+            const chunkText = chunk.text;
+            if (chunkText) {
+              fullResponseText += chunkText;
+              setMessages((prev) =>
+                prev.map((msg) =>
+                  msg.isStreaming ? { ...msg, text: fullResponseText, isStreaming: true } : msg,
+                ),
+              );
+            }
+            if (chunk.functionCalls) functionCalls.push(...chunk.functionCalls);
+          }
+          if (functionCalls.length === 0) break;
+          if (round === MAX_CHAT_TOOL_ROUNDS) {
+            // The model was told to stop; what it said is the reply
+            console.warn('Chat reply still calling tools after the last round:', functionCalls.map((call) => call.name));
+            break;
           }
+
+          const { responses, attachments: attached } = await runChatToolCalls(functionCalls, toolActionsRef.current);
+          attachments.push(...attached);
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.isStreaming ? { ...msg, attachments: [...attachments] } : msg,
+            ),
+          );
+          const parts: Part[] = responses.map((functionResponse) => ({ functionResponse }));
+          if (round === MAX_CHAT_TOOL_ROUNDS - 1) parts.push({ text: FINISH_IN_WORDS_NOTE });
+          message = parts;
         }
         setMessages((prev) =>
           prev.map((msg) =>
@@ -145,7 +193,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     } finally {
       setIsThinkingInternal(false);
     }
-  }, [addMessage]);
+  }, [addMessage, syncChatSession]);
 
   const stopAllAudioPlayback = useCallback(() => {
     for (const source of outputAudioSourcesRef.current.values()) {
@@ -259,18 +307,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       console.log('Function calls received:', functionCalls);
       addMessage({ sender: 'gemini', text: `Executing function: ${functionCalls.map(fc => fc.name).join(', ')}`, functionCalls });
 
+      const functionResponses = await runLiveToolCalls(functionCalls, toolActionsRef.current);
       liveSessionRef.current?.then(session => {
-        for (const fc of functionCalls) {
-          const result = `Successfully controlled light with brightness: ${fc.args.brightness}, colorTemperature: ${fc.args.colorTemperature}`;
-          session.sendToolResponse({
-            functionResponses: {
-              id: fc.id,
-              name: fc.name,
-              response: { result: result },
-            },
-          });
-          console.log(`Sent tool response for ${fc.name}: ${result}`);
-        }
+        session.sendToolResponse({ functionResponses });
+        console.log('Sent tool responses:', functionResponses);
       });
     }
   }, [addMessage, stopAllAudioPlayback]);
@@ -283,6 +323,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     setIsThinkingInternal(true);
 
     try {
+      // Voice-started timers never get a tap of their own; unlock their alarm now, in this one
+      primeAlarm();
       inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
       outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
 
@@ -342,6 +384,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         },
         inputAudioContext: inputAudioContextRef.current,
         outputAudioContext: outputAudioContextRef.current,
+        profile: userProfileRef.current,
+        tools: getLiveToolDeclarations(),
       });
     } catch (err: any) {
       console.error('Failed to start live session:', err);
@@ -356,10 +400,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   }, [isLiveSessionActiveInternal, handleLiveSessionMessage, addMessage, stopAllAudioPlayback, stopLiveSession]);
 
 
+  // Tells the live session about something that happened on screen, e.g. a step change in cooking mode.
+  const sendLiveText = useCallback((text: string) => {
+    liveSessionRef.current?.then((session) => session.sendRealtimeInput({ text }));
+  }, []);
+
   useEffect(() => {
     setStartLiveSession(() => startLiveSession);
     setStopLiveSession(() => stopLiveSession);
-  }, [startLiveSession, stopLiveSession, setStartLiveSession, setStopLiveSession]);
+    setSendLiveText(() => sendLiveText);
+  }, [startLiveSession, stopLiveSession, sendLiveText, setStartLiveSession, setStopLiveSession, setSendLiveText]);
 
 
   useEffect(() => {
@@ -471,6 +521,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               {message.isStreaming && (
                 <span className="animate-pulse ml-2">...</span>
               )}
+              {message.attachments?.map((attachment, idx) => (
+                <ChatAttachmentCard key={idx} attachment={attachment} actions={cardActions} profile={userProfile} />
+              ))}
               {message.functionCalls && (
                 <div className="mt-2 text-sm text-yellow-300">
                   <p>Function Calls:</p>
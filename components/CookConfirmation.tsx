@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Ingredient, Recipe } from '../types';
+import { Deduction, matchRecipeToInventory, toDeduction } from '../services/recipeInventoryService';
+import { formatQuantity } from '../services/quantityService';
+
+interface CookConfirmationProps {
+  recipe: Recipe;
+  inventory: Ingredient[];
+  onConfirm: (deductions: Deduction[]) => void;
+  onCancel: () => void;
+}
+
+// Shows which inventory items a recipe will use up and lets the user adjust amounts before deducting.
+const CookConfirmation: React.FC<CookConfirmationProps> = ({ recipe, inventory, onConfirm, onCancel }) => {
+  // Matched against the inventory as it was on opening; deductions name their items, so changes
+  // made meanwhile (e.g. by the voice assistant) can't shift them onto the wrong ones
+  const [snapshot] = useState(inventory);
+  const [matches, setMatches] = useState(() => matchRecipeToInventory(recipe, snapshot));
+
+  const updateAmount = (lineIndex: number, value: string) => {
+    const amount = Math.max(0, parseFloat(value) || 0);
+    setMatches(prev => prev.map((match, i) => i === lineIndex ? { ...match, consumeAmount: amount, needsReview: false } : match));
+  };
+
+  const matched = matches.filter(match => match.inventoryIndex !== null);
+  const unmatched = matches.filter(match => match.inventoryIndex === null);
+
+  const handleConfirm = () => {
+    onConfirm(matched.map(match => toDeduction(snapshot[match.inventoryIndex!], match.consumeAmount)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-gray-950/80 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" role="dialog" aria-modal="true" aria-label={`Confirm cooking ${recipe.name}`}>
+      <div className="w-full max-w-xl bg-gray-800 rounded-2xl shadow-2xl p-6 text-gray-100 max-h-[85vh] flex flex-col">
+        <h3 className="text-2xl font-bold text-cyan-400 mb-1">Cooked {recipe.name}?</h3>
+        <p className="text-gray-300 mb-4">These amounts will be taken out of your fridge. Adjust anything that doesn't look right.</p>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+          {matched.length === 0 && (
+            <p className="text-gray-400 italic">None of this recipe's ingredients are in your inventory.</p>
+          )}
+          {matches.map((match, lineIndex) => {
+            if (match.inventoryIndex === null) return null;
+            const item = snapshot[match.inventoryIndex];
+            const remaining = Math.max(0, item.quantity.amount - match.consumeAmount);
+            return (
+              <div key={lineIndex} className={`p-3 rounded-xl border ${match.needsReview ? 'border-orange-400 bg-orange-900/20' : 'border-gray-700 bg-gray-900/50'}`}>
+                <p className="text-sm text-gray-400">{match.line}</p>
+                <div className="flex items-center justify-between mt-1 gap-3">
+                  <span className="font-semibold">{item.name}</span>
+                  <label className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-400">Use</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={item.quantity.amount}
+                      step="any"
+                      value={Math.round(match.consumeAmount * 100) / 100}
+                      onChange={(e) => updateAmount(lineIndex, e.target.value)}
+                      className="w-20 p-1 rounded-md bg-gray-900 border border-gray-600 text-gray-100 text-right"
+                      aria-label={`Amount of ${item.name} to use`}
+                    />
+                    <span className="text-gray-300">{item.quantity.unit === 'piece' ? (item.quantity.descriptor ?? 'pcs') : item.quantity.unit}</span>
+                  </label>
+                </div>
+                <p className="text-xs mt-1 text-gray-400">
+                  {formatQuantity(item.quantity)} → <span className={remaining === 0 ? 'text-rose-400' : 'text-emerald-300'}>{remaining === 0 ? 'used up' : formatQuantity({ ...item.quantity, amount: remaining })}</span>
+                  {match.needsReview && <span className="text-orange-300"> · couldn't convert units, please check</span>}
+                </p>
+              </div>
+            );
+          })}
+          {unmatched.length > 0 && (
+            <div className="p-3 rounded-xl border border-gray-700 bg-gray-900/30">
+              <p className="text-sm font-semibold text-gray-300 mb-1">Not tracked in your fridge:</p>
+              <ul className="list-disc list-inside text-sm text-gray-400">
+                {unmatched.map((match, i) => <li key={i}>{match.line}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onCancel}
+            className="flex-1 bg-gray-600 text-white font-semibold py-3 rounded-xl hover:bg-gray-700 transition duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="flex-1 bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-3 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 shadow-md"
+          >
+            Confirm & Update Fridge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CookConfirmation;
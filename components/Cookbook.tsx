@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import { Recipe, SavedRecipe } from '../types';
+import { parseListInput } from '../services/profileService';
+import { toISODate } from '../services/shelfLifeService';
+import { describeRecipeMetadata } from '../services/recipeFilterService';
+import {
+  COOKBOOK_SORTS, CookbookSortId, searchCookbook, sortCookbook, getAllTags, getLastCooked, normalizeTags,
+} from '../services/cookbookService';
+
+type SavedRecipeChanges = Partial<Pick<SavedRecipe, 'isFavorite' | 'rating' | 'tags' | 'notes' | 'cookedOn'>>;
+
+interface CookbookProps {
+  cookbook: SavedRecipe[];
+  onUpdateSavedRecipe: (id: string, changes: SavedRecipeChanges) => void;
+  onRemoveSavedRecipe: (id: string) => void;
+  onOpenRecipe: (recipe: Recipe) => void;
+}
+
+// Five clickable stars; clicking the current rating again clears it.
+const StarRating: React.FC<{ rating: number; onRate?: (rating: number) => void; size?: string }> = ({ rating, onRate, size = 'text-2xl' }) => (
+  <div className={`flex ${size}`} role={onRate ? 'radiogroup' : undefined} aria-label={`Rated ${rating} out of 5`}>
+    {[1, 2, 3, 4, 5].map((star) => (
+      onRate ? (
+        <button
+          key={star}
+          onClick={(e) => { e.stopPropagation(); onRate(star === rating ? 0 : star); }}
+          className={`px-0.5 ${star <= rating ? 'text-amber-400' : 'text-gray-600 hover:text-amber-200'}`}
+          role="radio"
+          aria-checked={star === rating}
+          aria-label={`${star} star${star > 1 ? 's' : ''}`}
+        >
+          ★
+        </button>
+      ) : (
+        <span key={star} className={star <= rating ? 'text-amber-400' : 'text-gray-600'} aria-hidden="true">★</span>
+      )
+    ))}
+  </div>
+);
+
+const Cookbook: React.FC<CookbookProps> = ({ cookbook, onUpdateSavedRecipe, onRemoveSavedRecipe, onOpenRecipe }) => {
+  const [searchText, setSearchText] = useState<string>('');
+  const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<CookbookSortId>('recent');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Tags and notes are edited as drafts and saved together
+  const [tagsDraft, setTagsDraft] = useState<string>('');
+  const [notesDraft, setNotesDraft] = useState<string>('');
+  const [cookedDateDraft, setCookedDateDraft] = useState<string>(toISODate(new Date()));
+
+  const allTags = getAllTags(cookbook);
+  const visibleEntries = sortCookbook(searchCookbook(cookbook, { text: searchText, favoritesOnly, tag: activeTag }), sortBy);
+
+  const toggleExpanded = (entry: SavedRecipe) => {
+    if (expandedId === entry.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(entry.id);
+    setTagsDraft(entry.tags.join(', '));
+    setNotesDraft(entry.notes);
+    setCookedDateDraft(toISODate(new Date()));
+  };
+
+  const isDraftDirty = (entry: SavedRecipe) =>
+    notesDraft !== entry.notes || normalizeTags(parseListInput(tagsDraft)).join(',') !== entry.tags.join(',');
+
+  return (
+    <div className="mt-6 p-0 max-w-2xl mx-auto animate-fade-in text-gray-100">
+      <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg mb-6">
+        <h3 className="text-3xl font-bold text-gray-100 mb-5 border-b border-gray-700 pb-3 flex items-center">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mr-2 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+          </svg>
+          My Cookbook
+        </h3>
+
+        {cookbook.length === 0 ? (
+          <p className="text-center text-gray-400 italic text-xl py-8">
+            Your cookbook is empty.<br/>Open a recipe and tap "Save to Cookbook" to keep it here.
+          </p>
+        ) : (
+          <>
+            <input
+              type="search"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Search by name, ingredient, tag or note"
+              className="w-full p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 text-lg bg-gray-900 text-gray-100 placeholder-gray-500 mb-4"
+              aria-label="Search your cookbook"
+            />
+            <div className="flex flex-wrap gap-2 mb-4">
+              <button
+                onClick={() => setFavoritesOnly((prev) => !prev)}
+                className={`py-2 px-5 rounded-full text-base font-bold transition duration-200 shadow-sm
+                  ${favoritesOnly ? 'bg-gradient-to-r from-rose-400 to-violet-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                aria-pressed={favoritesOnly}
+              >
+                ♥ Favorites
+              </button>
+              {allTags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag((prev) => (prev === tag ? null : tag))}
+                  className={`py-2 px-5 rounded-full text-base font-bold transition duration-200 shadow-sm
+                    ${activeTag === tag ? 'bg-gradient-to-r from-cyan-400 to-violet-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  aria-pressed={activeTag === tag}
+                  aria-label={`Filter by tag ${tag}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-3 text-gray-300 text-lg">
+              Sort by
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as CookbookSortId)}
+                className="p-2 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 text-base bg-gray-900 text-gray-100"
+                aria-label="Sort cookbook"
+              >
+                {COOKBOOK_SORTS.map((sort) => (
+                  <option key={sort.id} value={sort.id}>{sort.label}</option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      {cookbook.length > 0 && (
+        <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg">
+          {visibleEntries.length === 0 ? (
+            <p className="text-center text-gray-400 italic text-xl py-8">No saved recipes match your search.</p>
+          ) : (
+            <div className="space-y-4">
+              {visibleEntries.map((entry) => {
+                const isExpanded = expandedId === entry.id;
+                const lastCooked = getLastCooked(entry);
+                return (
+                  <div key={entry.id} className={`bg-gray-900/30 border ${isExpanded ? 'border-cyan-500' : 'border-gray-700'} rounded-2xl shadow-lg`}>
+                    <div
+                      className="p-5 cursor-pointer"
+                      onClick={() => toggleExpanded(entry)}
+                      role="button"
+                      tabIndex={0}
+                      aria-expanded={isExpanded}
+                      aria-label={`${isExpanded ? 'Collapse' : 'Expand'} ${entry.recipe.name}`}
+                    >
+                      <div className="flex justify-between items-start gap-3">
+                        <h4 className="text-2xl font-bold text-gray-100">{entry.recipe.name}</h4>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onUpdateSavedRecipe(entry.id, { isFavorite: !entry.isFavorite }); }}
+                          className={`text-2xl ${entry.isFavorite ? 'text-rose-400' : 'text-gray-600 hover:text-rose-300'}`}
+                          aria-pressed={entry.isFavorite}
+                          aria-label={entry.isFavorite ? `Remove ${entry.recipe.name} from favorites` : `Add ${entry.recipe.name} to favorites`}
+                        >
+                          ♥
+                        </button>
+                      </div>
+                      {describeRecipeMetadata(entry.recipe) && (
+                        <p className="text-sm text-cyan-300 mt-1">{describeRecipeMetadata(entry.recipe)}</p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-3 mt-2">
+                        <StarRating rating={entry.rating} size="text-lg" />
+                        <span className="text-sm text-gray-400">
+                          {entry.cookedOn.length === 0
+                            ? 'Not cooked yet'
+                            : `Cooked ${entry.cookedOn.length} time${entry.cookedOn.length > 1 ? 's' : ''}, last on ${lastCooked}`}
+                        </span>
+                      </div>
+                      {entry.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {entry.tags.map((tag) => (
+                            <span key={tag} className="text-xs bg-gray-700 text-gray-300 rounded-full px-3 py-1">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    {isExpanded && (
+                      <div className="px-5 pb-5 border-t border-gray-700 pt-4 space-y-5">
+                        <div>
+                          <p className="text-gray-300 text-base mb-1">Your rating</p>
+                          <StarRating rating={entry.rating} onRate={(rating) => onUpdateSavedRecipe(entry.id, { rating })} />
+                        </div>
+
+                        <div>
+                          <label className="block text-gray-300 text-base mb-1" htmlFor={`tags-${entry.id}`}>Tags (comma separated)</label>
+                          <input
+                            id={`tags-${entry.id}`}
+                            type="text"
+                            value={tagsDraft}
+                            onChange={(e) => setTagsDraft(e.target.value)}
+                            placeholder="e.g. weeknight, batch cook"
+                            className="w-full p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 text-base bg-gray-900 text-gray-100 placeholder-gray-500"
+                          />
+                          <label className="block text-gray-300 text-base mt-3 mb-1" htmlFor={`notes-${entry.id}`}>Personal notes</label>
+                          <textarea
+                            id={`notes-${entry.id}`}
+                            value={notesDraft}
+                            onChange={(e) => setNotesDraft(e.target.value)}
+                            rows={3}
+                            placeholder="e.g. Double the garlic, kids loved it"
+                            className="w-full p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 text-base bg-gray-900 text-gray-100 placeholder-gray-500"
+                          />
+                          <button
+                            onClick={() => onUpdateSavedRecipe(entry.id, { tags: parseListInput(tagsDraft), notes: notesDraft.trim() })}
+                            disabled={!isDraftDirty(entry)}
+                            className="mt-2 bg-gradient-to-r from-cyan-400 to-violet-500 text-white font-semibold py-2 px-5 rounded-xl hover:from-cyan-500 hover:to-violet-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Save tags & notes
+                          </button>
+                        </div>
+
+                        <div>
+                          <p className="text-gray-300 text-base mb-2">Cooked on</p>
+                          {entry.cookedOn.length === 0 ? (
+                            <p className="text-gray-500 italic text-sm mb-2">No cooks recorded yet. Marking the recipe as cooked adds one automatically.</p>
+                          ) : (
+                            <ul className="flex flex-wrap gap-2 mb-2">
+                              {entry.cookedOn.map((date, i) => (
+                                <li key={`${date}-${i}`} className="flex items-center bg-gray-700 text-gray-200 rounded-full pl-3 pr-1 py-1 text-sm">
+                                  {date}
+                                  <button
+                                    onClick={() => onUpdateSavedRecipe(entry.id, { cookedOn: entry.cookedOn.filter((_, j) => j !== i) })}
+                                    className="ml-1 px-2 text-gray-400 hover:text-rose-400"
+                                    aria-label={`Remove cooked date ${date}`}
+                                  >
+                                    ×
+                                  </button>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          <div className="flex gap-2">
+                            <input
+                              type="date"
+                              value={cookedDateDraft}
+                              max={toISODate(new Date())}
+                              onChange={(e) => setCookedDateDraft(e.target.value)}
+                              className="p-2 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 text-base bg-gray-900 text-gray-100"
+                              aria-label="Date cooked"
+                            />
+                            <button
+                              onClick={() => onUpdateSavedRecipe(entry.id, { cookedOn: [...entry.cookedOn, cookedDateDraft] })}
+                              disabled={!cookedDateDraft}
+                              className="bg-gray-700 text-gray-100 font-semibold py-2 px-4 rounded-xl hover:bg-gray-600 transition duration-200 disabled:opacity-50"
+                            >
+                              Add date
+                            </button>
+                          </div>
+                        </div>
+
+                        <div className="flex gap-3">
+                          <button
+                            onClick={() => onOpenRecipe(entry.recipe)}
+                            className="flex-1 bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-3 px-4 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 shadow-md text-lg"
+                            aria-label={`Open ${entry.recipe.name}`}
+                          >
+                            Open recipe
+                          </button>
+                          <button
+                            onClick={() => {
+                              if (window.confirm(`Remove "${entry.recipe.name}" from your cookbook? Your rating, notes and history will be lost.`)) {
+                                onRemoveSavedRecipe(entry.id);
+                                setExpandedId(null);
+                              }
+                            }}
+                            className="bg-rose-600/80 text-white font-semibold py-3 px-4 rounded-xl hover:bg-rose-700 transition duration-200 text-lg"
+                            aria-label={`Remove ${entry.recipe.name} from cookbook`}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Cookbook;
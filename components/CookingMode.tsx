@@ -0,0 +1,169 @@
+import React, { useContext, useEffect } from 'react';
+import { CookingSession } from '../types';
+import { ChatControlContext } from '../App';
+import { buildCookingPrompt, getStepCount, isLastStep } from '../services/cookingService';
+import StepTimerButtons from './StepTimerButtons';
+
+interface CookingModeProps {
+  session: CookingSession;
+  onChangeStep: (stepIndex: number) => void;
+  onExit: () => void;
+  onStartTimer: (label: string, seconds: number) => void;
+}
+
+// Full-screen, one step at a time, with big controls for messy hands. The live session moves
+// through the steps with its own tools; steps changed here are told to it so both stay in step.
+const CookingMode: React.FC<CookingModeProps> = ({ session, onChangeStep, onExit, onStartTimer }) => {
+  const chatContext = useContext(ChatControlContext);
+  if (!chatContext) {
+    throw new Error("ChatControlContext must be used within a ChatControlProvider");
+  }
+  const { setIsChatOverlayOpen, startLiveSession, stopLiveSession, sendLiveText, isLiveSessionActive, isThinking } = chatContext;
+
+  const { recipe, stepIndex } = session;
+  const stepCount = getStepCount(session);
+  const instruction = recipe.instructions[stepIndex];
+
+  const changeStep = (index: number) => {
+    if (index < 0 || index >= stepCount || index === stepIndex) return;
+    onChangeStep(index);
+    if (isLiveSessionActive) {
+      sendLiveText(`I've moved to step ${index + 1} on my screen: "${recipe.instructions[index]}". Read me that step.`);
+    }
+  };
+
+  const toggleVoice = () => {
+    if (isLiveSessionActive) {
+      stopLiveSession();
+      return;
+    }
+    setIsChatOverlayOpen(true); // The conversation is waiting underneath when cooking mode closes
+    void startLiveSession(buildCookingPrompt(session));
+  };
+
+  const handleExit = () => {
+    if (isLiveSessionActive) stopLiveSession();
+    setIsChatOverlayOpen(false);
+    onExit();
+  };
+
+  // Arrow keys (or a foot pedal that sends them) turn the page
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowRight') changeStep(stepIndex + 1);
+      if (event.key === 'ArrowLeft') changeStep(stepIndex - 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Keep the screen on while cooking, where the browser allows it
+  useEffect(() => {
+    let wakeLock: WakeLockSentinel | null = null;
+    let released = false;
+    navigator.wakeLock?.request('screen')
+      .then((sentinel) => {
+        if (released) void sentinel.release();
+        else wakeLock = sentinel;
+      })
+      .catch(() => undefined);
+    return () => {
+      released = true;
+      void wakeLock?.release();
+    };
+  }, []);
+
+  let voiceStatus = 'Voice guide off';
+  if (isLiveSessionActive) voiceStatus = 'Chef Fridge is listening: say "next step" or "repeat that"';
+  else if (isThinking) voiceStatus = 'Connecting Chef Fridge...';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-gray-950 flex flex-col p-6 text-gray-100 animate-fade-in" role="dialog" aria-modal="true" aria-label={`Cooking ${recipe.name}`}>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-extrabold text-cyan-400">{recipe.name}</h2>
+          {stepCount > 0 && <p className="text-gray-400 text-lg">Step {stepIndex + 1} of {stepCount}</p>}
+        </div>
+        <button onClick={handleExit} className="bg-gray-800 text-gray-100 font-semibold px-5 py-3 rounded-xl hover:bg-gray-700 text-lg" aria-label="Leave cooking mode">
+          Exit
+        </button>
+      </div>
+
+      {stepCount > 0 && (
+        <div className="flex gap-1 mb-6" aria-hidden="true">
+          {recipe.instructions.map((_, i) => (
+            <button
+              key={i}
+              tabIndex={-1}
+              onClick={() => changeStep(i)}
+              className={`h-2 flex-1 rounded-full ${i < stepIndex ? 'bg-emerald-500' : i === stepIndex ? 'bg-cyan-400' : 'bg-gray-700'}`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto flex flex-col items-center justify-center">
+        <p className="text-3xl md:text-4xl leading-relaxed font-semibold text-center max-w-3xl" aria-live="polite">
+          {instruction ?? 'This recipe has no written steps. Ask Chef Fridge to talk you through it.'}
+        </p>
+        {instruction && <StepTimerButtons instruction={instruction} stepNumber={stepIndex + 1} onStartTimer={onStartTimer} size="large" />}
+      </div>
+
+      <details className="my-4 text-gray-300">
+        <summary className="cursor-pointer text-cyan-400 font-semibold text-lg">Ingredients</summary>
+        <ul className="list-disc list-outside ml-6 mt-2 text-lg space-y-1">
+          {recipe.ingredients.map((ingredient, i) => <li key={i}>{ingredient}</li>)}
+        </ul>
+      </details>
+
+      <div className="flex items-center justify-center gap-3 mb-4">
+        <button
+          onClick={toggleVoice}
+          disabled={isThinking && !isLiveSessionActive}
+          className={`p-3 rounded-full shadow-md disabled:opacity-50 ${isLiveSessionActive ? 'bg-rose-600 hover:bg-rose-700 animate-pulse-light' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          aria-label={isLiveSessionActive ? 'Turn off the voice guide' : 'Turn on the voice guide'}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.5a6.5 6.5 0 006.5-6.5M12 18.5A6.5 6.5 0 015.5 12M12 18.5V22m0-7a3 3 0 01-3-3V5a3 3 0 116 0v7a3 3 0 01-3 3z" />
+          </svg>
+        </button>
+        <span className="text-gray-300 text-base" role="status">{voiceStatus}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <button
+          onClick={() => changeStep(stepIndex - 1)}
+          disabled={stepIndex === 0 || stepCount === 0}
+          className="bg-gray-800 text-gray-100 font-bold py-6 rounded-2xl hover:bg-gray-700 text-2xl disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          ← Back
+        </button>
+        <button
+          onClick={() => sendLiveText(`Please read step ${stepIndex + 1} again.`)}
+          disabled={!isLiveSessionActive || stepCount === 0}
+          className="bg-gray-800 text-gray-100 font-bold py-6 rounded-2xl hover:bg-gray-700 text-2xl disabled:opacity-40 disabled:cursor-not-allowed"
+          aria-label="Have Chef Fridge read this step again"
+        >
+          Repeat
+        </button>
+        {stepCount === 0 || isLastStep(session) ? (
+          <button
+            onClick={handleExit}
+            className="bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-6 rounded-2xl hover:from-cyan-500 hover:to-emerald-600 text-2xl"
+          >
+            Done ✓
+          </button>
+        ) : (
+          <button
+            onClick={() => changeStep(stepIndex + 1)}
+            className="bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-6 rounded-2xl hover:from-cyan-500 hover:to-emerald-600 text-2xl"
+          >
+            Next →
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CookingMode;
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Quantity, ScanImage } from '../types';
+import { formatQuantity, parseQuantity } from '../services/quantityService';
+import { isLowConfidence } from '../services/scanService';
+
+interface DetectionOverlayProps {
+  image: ScanImage;
+  label: string; // e.g. "Photo 2"
+  // Whether detections can still be corrected, i.e. the photo's batch hasn't been confirmed yet
+  editable: boolean;
+  onCorrect: (index: number, changes: { name: string; quantity: Quantity }) => void;
+  onRemove: (index: number) => void;
+}
+
+// The scanned photo with a labelled box over each detected item. Tapping a box (or its row
+// in the list, for items the model couldn't place) selects it for correction.
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ image, label, editable, onCorrect, onRemove }) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<{ name: string; quantity: string }>({ name: '', quantity: '' });
+
+  const selected = selectedIndex !== null ? image.detections[selectedIndex] : undefined;
+
+  // Clear the selection when another photo is shown
+  useEffect(() => {
+    setSelectedIndex(null);
+  }, [image.id]);
+
+  const select = (index: number) => {
+    if (selectedIndex === index) {
+      setSelectedIndex(null);
+      return;
+    }
+    const { ingredient } = image.detections[index];
+    setSelectedIndex(index);
+    setDraft({ name: ingredient.name, quantity: formatQuantity(ingredient.quantity) });
+  };
+
+  const handleSave = () => {
+    if (selectedIndex === null || !draft.name.trim()) return;
+    onCorrect(selectedIndex, { name: draft.name.trim(), quantity: parseQuantity(draft.quantity) });
+    setSelectedIndex(null);
+  };
+
+  const handleDelete = () => {
+    if (selectedIndex === null) return;
+    onRemove(selectedIndex);
+    setSelectedIndex(null);
+  };
+
+  return (
+    <div>
+      <div className="relative inline-block w-full">
+        <img src={image.previewUrl} alt={label} className="w-full rounded-lg" />
+        {image.detections.map((detection, index) => {
+          if (!detection.box) return null;
+          const { x, y, width, height } = detection.box;
+          const isSelected = selectedIndex === index;
+          const colour = isSelected ? 'border-cyan-300 bg-cyan-400/20' : isLowConfidence(detection) ? 'border-amber-400' : 'border-emerald-400';
+          return (
+            <button
+              key={index}
+              onClick={() => select(index)}
+              style={{ left: `${x * 100}%`, top: `${y * 100}%`, width: `${width * 100}%`, height: `${height * 100}%` }}
+              className={`absolute border-2 rounded-md transition duration-200 hover:bg-white/10 ${colour}`}
+              aria-label={`${detection.ingredient.name}, ${Math.round(detection.confidence * 100)}% sure`}
+              aria-pressed={isSelected}
+            >
+              <span className={`absolute left-0 -top-6 whitespace-nowrap text-xs font-semibold rounded px-1.5 py-0.5 ${isSelected ? 'bg-cyan-300 text-gray-950' : isLowConfidence(detection) ? 'bg-amber-400 text-gray-950' : 'bg-emerald-500 text-white'}`}>
+                {detection.ingredient.name} · {Math.round(detection.confidence * 100)}%
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {image.detections.length === 0 ? (
+        <p className="text-gray-400 italic mt-3">No food items found in this photo.</p>
+      ) : (
+        <ul className="mt-3 space-y-1 text-gray-200">
+          {image.detections.map(({ ingredient: item, confidence, box }, index) => (
+            <li key={index}>
+              <button
+                onClick={() => select(index)}
+                className={`text-left w-full rounded-lg px-2 py-1 transition duration-200 ${selectedIndex === index ? 'bg-cyan-900/40' : 'hover:bg-gray-800'}`}
+              >
+                <span className="font-semibold text-cyan-300">{item.name}</span>: {formatQuantity(item.quantity)}
+                <span className="text-sm text-gray-400"> ({Math.round(confidence * 100)}% sure{box ? '' : ', not located on the photo'})</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="mt-3 p-3 bg-gray-800 rounded-xl border border-cyan-500 animate-fade-in">
+          {editable ? (
+            <>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                  className="flex-1 p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 bg-gray-900 text-gray-100"
+                  aria-label="Detected item name"
+                />
+                <input
+                  type="text"
+                  value={draft.quantity}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, quantity: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                  className="sm:w-32 p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 bg-gray-900 text-gray-100"
+                  aria-label="Detected amount"
+                />
+              </div>
+              <div className="flex gap-3 mt-3">
+                <button onClick={handleSave} className="bg-cyan-600 text-white font-semibold px-4 py-2 rounded-xl hover:bg-cyan-700">Save</button>
+                <button onClick={handleDelete} className="bg-rose-600 text-white font-semibold px-4 py-2 rounded-xl hover:bg-rose-700">Delete</button>
+                <button onClick={() => setSelectedIndex(null)} className="text-gray-400 hover:text-gray-200 px-2">Cancel</button>
+              </div>
+            </>
+          ) : (
+            <p className="text-gray-300 text-sm">
+              Detections can only be corrected while their scan is waiting for review. Edit {selected.ingredient.name} from the Fridge tab instead.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DetectionOverlay;
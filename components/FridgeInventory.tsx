@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { Ingredient, ShoppingListItem } from '../types';
+import { Ingredient, ShoppingListItem, StorageLocation, FoodCategory } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { parseQuantity, formatQuantity } from '../services/quantityService';
+import { createInventoryItem, describeExpiry, getExpiringItems } from '../services/shelfLifeService';
+import { groupByCategory, getCategoryInfo, ALL_FOOD_CATEGORIES } from '../services/foodTaxonomyService';
 
 interface FridgeInventoryProps {
   inventory: Ingredient[];
@@ -8,12 +11,15 @@ interface FridgeInventoryProps {
   shoppingList: ShoppingListItem[];
   onUpdateShoppingList: (newShoppingList: ShoppingListItem[]) => void;
   healthLog: string[];
+  // Remembers the category for this food name permanently (applies to future items too).
+  onOverrideCategory: (name: string, category: FoodCategory) => void;
 }
 
-const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateInventory, shoppingList, onUpdateShoppingList, healthLog }) => {
+const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateInventory, shoppingList, onUpdateShoppingList, healthLog, onOverrideCategory }) => {
   const [newIngredientName, setNewIngredientName] = useState('');
   const [newIngredientQuantity, setNewIngredientQuantity] = useState('');
-  const [newIngredientFreshness, setNewIngredientFreshness] = useState('fresh');
+  const [newIngredientStorage, setNewIngredientStorage] = useState<StorageLocation>('fridge');
+  const [newIngredientExpiry, setNewIngredientExpiry] = useState(''); // Empty means "estimate for me"
   const [editIngredientIndex, setEditIngredientIndex] = useState<number | null>(null);
 
   const [newShoppingItemName, setNewShoppingItemName] = useState('');
@@ -25,11 +31,20 @@ const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateIn
       return;
     }
 
-    const newIngredient: Ingredient = {
-      name: newIngredientName.trim(),
-      quantity: newIngredientQuantity.trim(),
-      freshness: newIngredientFreshness,
-    };
+    const original = editIngredientIndex !== null ? inventory[editIngredientIndex] : null;
+    const name = newIngredientName.trim();
+    let newIngredient: Ingredient = createInventoryItem({
+      name,
+      quantity: parseQuantity(newIngredientQuantity),
+      storage: newIngredientStorage,
+      addedOn: original?.addedOn,
+      expiresOn: newIngredientExpiry || undefined,
+    });
+    // Editing only the amount shouldn't reset an estimate that came from a scan.
+    if (original && !newIngredientExpiry && original.expirySource === 'estimated'
+      && original.name === name && original.storage === newIngredientStorage) {
+      newIngredient = { ...newIngredient, expiresOn: original.expiresOn, freshness: original.freshness };
+    }
 
     let updatedInventory: Ingredient[];
     if (editIngredientIndex !== null) {
@@ -42,7 +57,8 @@ const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateIn
     onUpdateInventory(updatedInventory);
     setNewIngredientName('');
     setNewIngredientQuantity('');
-    setNewIngredientFreshness('fresh');
+    setNewIngredientStorage('fridge');
+    setNewIngredientExpiry('');
     setEditIngredientIndex(null);
   };
 
@@ -50,37 +66,17 @@ const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateIn
     setEditIngredientIndex(index);
     const ingredientToEdit = inventory[index];
     setNewIngredientName(ingredientToEdit.name);
-    setNewIngredientQuantity(ingredientToEdit.quantity);
-    setNewIngredientFreshness(ingredientToEdit.freshness);
+    setNewIngredientQuantity(formatQuantity(ingredientToEdit.quantity));
+    setNewIngredientStorage(ingredientToEdit.storage);
+    setNewIngredientExpiry(ingredientToEdit.expirySource === 'user' ? ingredientToEdit.expiresOn : '');
   };
 
   const handleRemoveIngredient = (indexToRemove: number) => {
     onUpdateInventory(inventory.filter((_, index) => index !== indexToRemove));
   };
 
-  const categorizeIngredients = (ingredients: Ingredient[]) => {
-    const categories: { [key: string]: Ingredient[] } = {};
-    ingredients.forEach(item => {
-      let category = 'Other';
-      if (item.name.toLowerCase().includes('milk') || item.name.toLowerCase().includes('cheese') || item.name.toLowerCase().includes('yogurt')) {
-        category = 'Dairy';
-      } else if (item.name.toLowerCase().includes('chicken') || item.name.toLowerCase().includes('beef') || item.name.toLowerCase().includes('fish')) {
-        category = 'Meat & Seafood';
-      } else if (item.name.toLowerCase().includes('carrot') || item.name.toLowerCase().includes('apple') || item.name.toLowerCase().includes('lettuce')) {
-        category = 'Produce';
-      } else if (item.name.toLowerCase().includes('bread') || item.name.toLowerCase().includes('rice') || item.name.toLowerCase().includes('pasta')) {
-        category = 'Pantry & Grains';
-      }
-      if (!categories[category]) {
-        categories[category] = [];
-      }
-      categories[category].push(item);
-    });
-    return categories;
-  };
-
-  const ingredientCategories = categorizeIngredients(inventory);
-  const expiringItems = inventory.filter(item => item.freshness === 'expiring' || item.freshness === 'spoiled');
+  const ingredientCategories = groupByCategory(inventory);
+  const expiringItems = getExpiringItems(inventory);
 
   // Shopping List Handlers
   const handleAddShoppingItem = () => {
@@ -107,7 +103,7 @@ const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateIn
     onUpdateShoppingList(shoppingList.filter(item => !item.checked));
   };
 
-  const mostCriticalExpiringItem = expiringItems.find(item => item.freshness === 'spoiled') || expiringItems[0];
+  const mostCriticalExpiringItem = expiringItems[0];
 
 
   return (
@@ -122,7 +118,7 @@ const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateIn
         </h2>
         {mostCriticalExpiringItem ? (
           <div>
-            <p className="text-xl font-semibold mb-3">Heads up! Your <span className="underline">{mostCriticalExpiringItem.name}</span> is <span className="font-bold uppercase">{mostCriticalExpiringItem.freshness}</span>.</p>
+            <p className="text-xl font-semibold mb-3">Heads up! Your <span className="underline">{mostCriticalExpiringItem.name}</span> is <span className="font-bold uppercase">{mostCriticalExpiringItem.freshness}</span>. {describeExpiry(mostCriticalExpiringItem)}.</p>
             <button className="bg-white text-rose-600 font-bold py-3 px-6 rounded-xl hover:bg-gray-100 transition duration-200 shadow-md text-lg" aria-label={`Save ${mostCriticalExpiringItem.name} now`}>
               Save It Now! ✨
             </button>
@@ -140,28 +136,36 @@ const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateIn
           </svg>
           Your Fridge Inventory
         </h3>
-        {Object.keys(ingredientCategories).length === 0 ? (
+        {ingredientCategories.length === 0 ? (
           <p className="text-center text-gray-400 italic mt-4 text-base">Your fridge is looking a bit empty! Add some ingredients.</p>
         ) : (
           <div className="flex-1 space-y-4">
-            {Object.entries(ingredientCategories).map(([category, items]) => (
+            {ingredientCategories.map(({ category, name, icon, items }) => (
               <div key={category} className="bg-gray-700/30 backdrop-blur-sm p-4 rounded-xl shadow-sm border border-gray-700">
                 <h4 className="text-xl font-semibold text-gray-200 mb-3 flex items-center">
-                  {category === 'Produce' && <span className="mr-2">🥦</span>}
-                  {category === 'Dairy' && <span className="mr-2">🥛</span>}
-                  {category === 'Meat & Seafood' && <span className="mr-2">🥩</span>}
-                  {category === 'Pantry & Grains' && <span className="mr-2">🍞</span>}
-                  {category === 'Other' && <span className="mr-2">📦</span>}
-                  {category} ({items.length})
+                  <span className="mr-2">{icon}</span>
+                  {name} ({items.length})
                 </h4>
                 <ul className="divide-y divide-gray-700">
                   {items.map((item, index) => (
                     <li key={index} className="flex justify-between items-center py-2 group">
                       <div className="flex-1">
                         <p className="text-lg font-medium text-gray-100">{item.name}</p>
-                        <p className="text-sm text-gray-400">Qty: {item.quantity} - Freshness: {item.freshness}</p>
+                        <p className="text-sm text-gray-400">Qty: {formatQuantity(item.quantity)} - Freshness: {item.freshness}</p>
+                        <p className="text-xs text-gray-500">{describeExpiry(item)} · {item.storage}</p>
                       </div>
                       <div className="flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                        <select
+                          value={item.category}
+                          onChange={(e) => onOverrideCategory(item.name, e.target.value as FoodCategory)}
+                          className="bg-gray-900 text-gray-100 border border-gray-600 rounded-md text-sm px-2 py-1"
+                          aria-label={`Change category of ${item.name}`}
+                          title="Move to another category (remembered for this item)"
+                        >
+                          {ALL_FOOD_CATEGORIES.map((option) => (
+                            <option key={option} value={option}>{getCategoryInfo(option).icon} {getCategoryInfo(option).label}</option>
+                          ))}
+                        </select>
                         <button
                           onClick={() => handleEditIngredient(inventory.indexOf(item))}
                           className="bg-indigo-600 text-white px-3 py-1 rounded-md text-sm hover:bg-indigo-700 transition duration-200"
@@ -205,16 +209,23 @@ const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateIn
               aria-label="New ingredient quantity"
             />
             <select
-              value={newIngredientFreshness}
-              onChange={(e) => setNewIngredientFreshness(e.target.value)}
+              value={newIngredientStorage}
+              onChange={(e) => setNewIngredientStorage(e.target.value as StorageLocation)}
               className="p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 text-base bg-gray-900 text-gray-100"
-              aria-label="New ingredient freshness"
+              aria-label="New ingredient storage location"
             >
-              <option value="fresh">Fresh</option>
-              <option value="good">Good</option>
-              <option value="expiring">Expiring Soon</option>
-              <option value="spoiled">Spoiled</option>
+              <option value="fridge">Fridge</option>
+              <option value="freezer">Freezer</option>
+              <option value="pantry">Pantry</option>
             </select>
+            <input
+              type="date"
+              value={newIngredientExpiry}
+              onChange={(e) => setNewIngredientExpiry(e.target.value)}
+              className="md:col-span-3 p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 text-base bg-gray-900 text-gray-100"
+              aria-label="Expiry date (leave empty to estimate)"
+              title="Expiry date (leave empty to estimate)"
+            />
           </div>
           <button
             onClick={handleAddOrUpdateIngredient}
@@ -229,7 +240,8 @@ const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateIn
                 setEditIngredientIndex(null);
                 setNewIngredientName('');
                 setNewIngredientQuantity('');
-                setNewIngredientFreshness('fresh');
+                setNewIngredientStorage('fridge');
+                setNewIngredientExpiry('');
               }}
               className="w-full mt-2 bg-gray-600 text-white font-semibold py-3 px-4 rounded-xl hover:bg-gray-700 transition duration-200 shadow-md text-lg"
               aria-label="Cancel editing ingredient"
@@ -295,6 +307,7 @@ const FridgeInventory: React.FC<FridgeInventoryProps> = ({ inventory, onUpdateIn
                     aria-label={item.name}
                   >
                     {item.name}
+                    {item.quantity && <span className="ml-2 text-sm text-gray-400">({item.quantity})</span>}
                   </span>
                 )}
                 <button
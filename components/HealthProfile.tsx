@@ -1,84 +1,227 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { DietType, NutritionTargets, UserProfile } from '../types';
+import { DIET_TYPES, getDietLabel, parseListInput } from '../services/profileService';
 
 interface HealthProfileProps {
   healthLog: string[];
+  profile: UserProfile;
+  onUpdateProfile: (profile: UserProfile) => void;
 }
 
-const HealthProfile: React.FC<HealthProfileProps> = ({ healthLog }) => {
-  const userName = "Chef Sarah"; // Mock user name
+// Form state: list fields are edited as comma-separated text, targets as raw input strings.
+interface ProfileDraft {
+  name: string;
+  dietType: DietType;
+  allergens: string;
+  intolerances: string;
+  dislikedFoods: string;
+  targets: Record<keyof NutritionTargets, string>;
+}
+
+const TARGET_FIELDS: { key: keyof NutritionTargets; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'proteinGrams', label: 'Protein', unit: 'g' },
+  { key: 'carbsGrams', label: 'Carbs', unit: 'g' },
+  { key: 'fatGrams', label: 'Fat', unit: 'g' },
+];
 
-  // Mock data for demonstration
-  const dietaryGoals = [
-    { name: 'Reduce Carbs', progress: 70, unit: '%' },
-    { name: 'Increase Protein', progress: 85, unit: '%' },
-    { name: 'Stay Hydrated', progress: 60, unit: '%' },
-  ];
+function toDraft(profile: UserProfile): ProfileDraft {
+  return {
+    name: profile.name,
+    dietType: profile.dietType,
+    allergens: profile.allergens.join(', '),
+    intolerances: profile.intolerances.join(', '),
+    dislikedFoods: profile.dislikedFoods.join(', '),
+    targets: {
+      calories: profile.targets.calories?.toString() ?? '',
+      proteinGrams: profile.targets.proteinGrams?.toString() ?? '',
+      carbsGrams: profile.targets.carbsGrams?.toString() ?? '',
+      fatGrams: profile.targets.fatGrams?.toString() ?? '',
+    },
+  };
+}
+
+function fromDraft(draft: ProfileDraft): UserProfile {
+  const targets: NutritionTargets = {};
+  TARGET_FIELDS.forEach(({ key }) => {
+    const value = Math.round(Number(draft.targets[key]));
+    if (draft.targets[key].trim() && Number.isFinite(value) && value > 0) targets[key] = value;
+  });
+  return {
+    name: draft.name.trim(),
+    dietType: draft.dietType,
+    allergens: parseListInput(draft.allergens),
+    intolerances: parseListInput(draft.intolerances),
+    dislikedFoods: parseListInput(draft.dislikedFoods),
+    targets,
+  };
+}
 
-  const allergens = ['Peanuts', 'Dairy (lactose intolerant)'];
+const HealthProfile: React.FC<HealthProfileProps> = ({ healthLog, profile, onUpdateProfile }) => {
+  const [draft, setDraft] = useState<ProfileDraft | null>(null); // Non-null while editing
 
   const foodWasteStats = {
     itemsSavedLastWeek: 5,
     totalWasteReduction: 25, // percentage
   };
 
+  const handleSave = () => {
+    if (!draft) return;
+    onUpdateProfile(fromDraft(draft));
+    setDraft(null);
+  };
+
+  const inputClassName = 'w-full p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 text-base bg-gray-900 text-gray-100';
+  const setTargets = TARGET_FIELDS.filter(({ key }) => profile.targets[key] !== undefined);
+
   return (
     <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg max-w-2xl mx-auto my-6 animate-fade-in text-gray-100">
       <h2 className="text-3xl font-bold text-gray-100 mb-4 border-b border-gray-700 pb-3 flex items-center">
         <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mr-2 text-cyan-400" viewBox="0 0 20 20" fill="currentColor">
           <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-6-3a2 2 1 00-2 2v4a2 2 0 104 0V9a2 2 0 00-2-2zm-2 7a2 2 0 114 0 2 2 0 01-4 0z" clipRule="evenodd" />
         </svg>
-        Hello, {userName}!
+        Hello, {profile.name || 'Chef'}!
       </h2>
       <p className="text-gray-300 mb-6 text-lg">Your personalized health and food management insights at a glance.</p>
 
-      {/* Dietary Goals */}
-      <div className="mb-8 p-6 bg-gray-900/50 backdrop-blur-md rounded-2xl shadow-sm">
-        <h3 className="text-2xl font-bold text-gray-100 mb-4 flex items-center">
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
-          </svg>
-          Your Dietary Goals
-        </h3>
-        {dietaryGoals.length === 0 ? (
-          <p className="text-gray-400 italic text-base">No dietary goals set yet.</p>
-        ) : (
-          <ul className="space-y-4">
-            {dietaryGoals.map((goal, index) => (
-              <li key={index} className="flex flex-col">
-                <div className="flex justify-between items-center mb-1">
-                  <span className="text-lg text-gray-100 font-medium">{goal.name}</span>
-                  <span className="text-emerald-400 font-bold text-lg">{goal.progress}{goal.unit}</span>
-                </div>
-                <div className="w-full bg-gray-700 rounded-full h-2.5">
-                  <div
-                    className="bg-emerald-500 h-2.5 rounded-full transition-all duration-500 ease-out"
-                    style={{ width: `${goal.progress}%` }}
-                  ></div>
-                </div>
-              </li>
-            ))}
-          </ul>
-        )}
-      </div>
+      {draft ? (
+        /* Profile editor */
+        <div className="mb-8 p-6 bg-gray-900/50 backdrop-blur-md rounded-2xl shadow-sm space-y-4">
+          <h3 className="text-2xl font-bold text-gray-100">Edit Your Profile</h3>
+          <label className="block">
+            <span className="text-sm text-gray-300">Name</span>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={inputClassName}
+              aria-label="Your name"
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-300">Diet</span>
+            <select
+              value={draft.dietType}
+              onChange={(e) => setDraft({ ...draft, dietType: e.target.value as DietType })}
+              className={inputClassName}
+              aria-label="Diet type"
+            >
+              {DIET_TYPES.map((diet) => (
+                <option key={diet.value} value={diet.value}>{diet.label}</option>
+              ))}
+            </select>
+          </label>
+          {([
+            ['allergens', 'Allergens (never suggested)', 'e.g. peanuts, shellfish'],
+            ['intolerances', 'Intolerances', 'e.g. lactose, gluten'],
+            ['dislikedFoods', 'Disliked foods', 'e.g. cilantro, olives'],
+          ] as const).map(([field, label, placeholder]) => (
+            <label key={field} className="block">
+              <span className="text-sm text-gray-300">{label}</span>
+              <input
+                type="text"
+                value={draft[field]}
+                placeholder={placeholder}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                className={inputClassName}
+                aria-label={label}
+              />
+            </label>
+          ))}
+          <div>
+            <span className="text-sm text-gray-300">Daily targets (leave empty for no target)</span>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-1">
+              {TARGET_FIELDS.map(({ key, label, unit }) => (
+                <input
+                  key={key}
+                  type="number"
+                  min={0}
+                  value={draft.targets[key]}
+                  placeholder={`${label} (${unit})`}
+                  onChange={(e) => setDraft({ ...draft, targets: { ...draft.targets, [key]: e.target.value } })}
+                  className={inputClassName}
+                  aria-label={`${label} target in ${unit}`}
+                />
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              className="flex-1 bg-gradient-to-r from-cyan-400 to-violet-500 text-white font-semibold py-3 px-4 rounded-xl hover:from-cyan-500 hover:to-violet-600 transition duration-200 shadow-md text-lg"
+              aria-label="Save profile"
+            >
+              Save Profile
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="flex-1 bg-gray-600 text-white font-semibold py-3 px-4 rounded-xl hover:bg-gray-700 transition duration-200 shadow-md text-lg"
+              aria-label="Cancel editing profile"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Diet & Targets */}
+          <div className="mb-8 p-6 bg-gray-900/50 backdrop-blur-md rounded-2xl shadow-sm">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-2xl font-bold text-gray-100 flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                </svg>
+                Your Diet & Targets
+              </h3>
+              <button
+                onClick={() => setDraft(toDraft(profile))}
+                className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-semibold hover:bg-indigo-700 transition duration-200"
+                aria-label="Edit profile"
+              >
+                Edit Profile
+              </button>
+            </div>
+            <p className="text-lg text-gray-100 mb-3">Diet: <span className="font-semibold text-emerald-400">{getDietLabel(profile.dietType)}</span></p>
+            {setTargets.length === 0 ? (
+              <p className="text-gray-400 italic text-base">No daily targets set yet.</p>
+            ) : (
+              <ul className="grid grid-cols-2 gap-3">
+                {setTargets.map(({ key, label, unit }) => (
+                  <li key={key} className="bg-gray-700/40 rounded-xl p-3">
+                    <span className="block text-sm text-gray-400">{label}</span>
+                    <span className="text-xl font-bold text-gray-100">{profile.targets[key]} {unit}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
 
-      {/* Allergens */}
-      <div className="mb-8 p-6 bg-gray-900/50 backdrop-blur-md rounded-2xl shadow-sm">
-        <h3 className="text-2xl font-bold text-gray-100 mb-4 flex items-center">
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2 text-rose-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-          </svg>
-          Known Allergens
-        </h3>
-        {allergens.length === 0 ? (
-          <p className="text-gray-400 italic text-base">No allergens listed.</p>
-        ) : (
-          <ul className="list-disc list-inside text-lg text-gray-200 space-y-1">
-            {allergens.map((allergen, index) => (
-              <li key={index}>{allergen}</li>
-            ))}
-          </ul>
-        )}
-      </div>
+          {/* Allergens, intolerances & dislikes */}
+          <div className="mb-8 p-6 bg-gray-900/50 backdrop-blur-md rounded-2xl shadow-sm">
+            <h3 className="text-2xl font-bold text-gray-100 mb-4 flex items-center">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2 text-rose-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+              Foods to Avoid
+            </h3>
+            {profile.allergens.length + profile.intolerances.length + profile.dislikedFoods.length === 0 ? (
+              <p className="text-gray-400 italic text-base">No allergens, intolerances or dislikes listed.</p>
+            ) : (
+              <ul className="list-disc list-inside text-lg text-gray-200 space-y-1">
+                {profile.allergens.map((allergen) => (
+                  <li key={`allergen-${allergen}`}>{allergen} <span className="text-rose-400 text-sm">(allergy)</span></li>
+                ))}
+                {profile.intolerances.map((intolerance) => (
+                  <li key={`intolerance-${intolerance}`}>{intolerance} <span className="text-amber-400 text-sm">(intolerance)</span></li>
+                ))}
+                {profile.dislikedFoods.map((food) => (
+                  <li key={`dislike-${food}`}>{food} <span className="text-gray-400 text-sm">(dislike)</span></li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
 
       {/* AI-Driven Health Insights & Food Waste */}
       <div className="p-6 bg-gray-900/50 backdrop-blur-md rounded-2xl shadow-sm">
@@ -1,50 +1,73 @@
 import React from 'react';
-import { Ingredient } from '../types'; // Ingredient type is still used for local state/display if needed
+import { Quantity, ScanImage, ScanStatus } from '../types';
 import LoadingSpinner from './LoadingSpinner';
+import CameraCapture from './CameraCapture';
+import DetectionOverlay from './DetectionOverlay';
+import { formatQuantity } from '../services/quantityService';
+import { MergedDetection } from '../services/scanService';
+import { CameraSource } from '../services/cameraService';
+import { MAX_SCAN_IMAGES } from '../constants';
 
 interface ImageUploaderProps {
   onLoadingChange: (isLoading: boolean) => void;
   onError: (error: string | null) => void;
-  uploadedImageFile: File | null;
-  uploadedImagePreviewUrl: string | null;
-  setUploadedImageFile: (file: File | null) => void;
-  setUploadedImagePreviewUrl: (url: string | null) => void;
-  onRemoveImage: () => void;
-  // NEW: This prop handles the entire scan -> analyze -> generate recipes -> navigate flow
-  onScanAndGenerateRecipes: (file: File) => Promise<void>;
-  // This is for displaying ingredients if the process hasn't completed yet, or if there's an error.
-  analyzedIngredients: Ingredient[];
+  // Photos waiting to be scanned, being scanned, or already scanned in this session
+  scanQueue: ScanImage[];
+  onAddImages: (files: File[]) => void;
+  onRemoveImage: (id: string) => void;
+  onClearImages: () => void;
+  // Analyzes and merges pending photos, plus any camera shots passed in, and hands the result
+  // to the review step
+  onScanAndGenerateRecipes: (capturedFiles?: File[]) => Promise<void>;
+  // What the last batch found, de-duplicated across its photos
+  scanResults: MergedDetection[];
+  cameraSource?: CameraSource; // Defaults to the device camera
+  // Photos whose detections are waiting for review; while there are any, the queue is locked
+  reviewImageIds: string[];
+  onCorrectDetection: (imageId: string, index: number, changes: { name: string; quantity: Quantity }) => void;
+  onRemoveDetection: (imageId: string, index: number) => void;
 }
 
+const STATUS_BADGES: Record<ScanStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-700 text-gray-200' },
+  analyzing: { label: 'Analyzing...', className: 'bg-cyan-600 text-white animate-pulse' },
+  done: { label: 'Done', className: 'bg-emerald-600 text-white' },
+  error: { label: 'Failed', className: 'bg-rose-600 text-white' },
+};
+
 const ImageUploader: React.FC<ImageUploaderProps> = ({
   onLoadingChange,
   onError,
-  uploadedImageFile,
-  uploadedImagePreviewUrl,
-  setUploadedImageFile,
-  setUploadedImagePreviewUrl,
+  scanQueue,
+  onAddImages,
   onRemoveImage,
-  onScanAndGenerateRecipes, // Destructure new prop
-  analyzedIngredients, // Destructure analyzed ingredients from App.tsx
+  onClearImages,
+  onScanAndGenerateRecipes,
+  scanResults,
+  cameraSource,
+  reviewImageIds,
+  onCorrectDetection,
+  onRemoveDetection,
 }) => {
   const [isLoadingInternal, setIsLoadingInternal] = React.useState<boolean>(false);
-  
+  const [expandedImageId, setExpandedImageId] = React.useState<string | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = React.useState<boolean>(false);
+
+  const isReviewing = reviewImageIds.length > 0;
+  const canAddPhotos = scanQueue.length < MAX_SCAN_IMAGES && !isLoadingInternal && !isReviewing;
+  const pendingCount = scanQueue.filter((image) => image.status === 'queued' || image.status === 'error').length;
+  const finishedCount = scanQueue.filter((image) => image.status === 'done' || image.status === 'error').length;
+  const photoNumbers = new Map(scanQueue.map((image, index) => [image.id, index + 1]));
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setUploadedImageFile(file);
-      setUploadedImagePreviewUrl(URL.createObjectURL(file));
-      onError(null);
-    } else {
-      setUploadedImageFile(null);
-      setUploadedImagePreviewUrl(null);
-      onRemoveImage();
-    }
+    const files = Array.from<File>(event.target.files ?? []).filter((file) => file.type.startsWith('image/'));
+    if (files.length > 0) onAddImages(files);
+    event.target.value = ''; // Allow picking the same photo again after removing it
   };
 
-  const handleScanButtonClick = async () => {
-    if (!uploadedImageFile) {
-      onError('Please select an image to analyze.');
+  const handleScanButtonClick = async (capturedFiles: File[] = []) => {
+    if (pendingCount + capturedFiles.length === 0) {
+      onError('Please add a photo to analyze.');
       return;
     }
     setIsLoadingInternal(true);
@@ -52,7 +75,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
     onError(null);
 
     try {
-      await onScanAndGenerateRecipes(uploadedImageFile); // Trigger the full process in App.tsx
+      await onScanAndGenerateRecipes(capturedFiles); // Trigger the full process in App.tsx
     } catch (err: any) {
       // Error handling is primarily done in App.tsx now, but keep a fallback
       console.error('Error during scan and recipe generation:', err);
@@ -63,6 +86,17 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
     }
   };
 
+  const handleCameraPhotos = (files: File[], scanNow: boolean) => {
+    setIsCameraOpen(false);
+    if (scanNow) {
+      void handleScanButtonClick(files);
+    } else {
+      onAddImages(files);
+    }
+  };
+
+  const expandedImage = scanQueue.find((image) => image.id === expandedImageId);
+
   return (
     <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg max-w-2xl mx-auto my-6 animate-fade-in text-gray-100">
       <h2 className="text-3xl font-bold text-gray-100 mb-4 border-b border-gray-700 pb-3 flex items-center">
@@ -71,69 +105,152 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
         </svg>
         Scan Your Fridge
       </h2>
-      <p className="text-gray-300 mb-6 text-lg">Snap a photo of your fridge contents and let Chef Fridge do the magic!</p>
+      <p className="text-gray-300 mb-6 text-lg">Snap a photo of each shelf, the door and the pantry, and let Chef Fridge do the magic!</p>
 
-      <div className={`mb-6 p-8 bg-gray-900/50 border-4 border-dashed ${uploadedImagePreviewUrl ? 'border-emerald-400' : 'border-gray-700'} rounded-2xl flex flex-col items-center justify-center relative overflow-hidden transition-all duration-300 group ${isLoadingInternal ? 'animate-pulse-light' : 'hover:border-cyan-400 hover:bg-violet-900/20'}`}>
-        {!uploadedImagePreviewUrl ? (
+      <div className={`mb-6 p-8 bg-gray-900/50 border-4 border-dashed ${scanQueue.length > 0 ? 'border-emerald-400' : 'border-gray-700'} rounded-2xl flex flex-col items-center justify-center relative overflow-hidden transition-all duration-300 group ${isLoadingInternal ? 'animate-pulse-light' : 'hover:border-cyan-400 hover:bg-violet-900/20'}`}>
+        {canAddPhotos && (
+          <input
+            id="file-upload"
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={handleFileChange}
+            className="absolute inset-0 opacity-0 cursor-pointer w-full h-full"
+            aria-label="Upload ingredient photos"
+          />
+        )}
+        {scanQueue.length === 0 ? (
           <>
-            <input
-              id="file-upload"
-              type="file"
-              accept="image/*"
-              onChange={handleFileChange}
-              className="absolute inset-0 opacity-0 cursor-pointer w-full h-full"
-              aria-label="Upload ingredient photo"
-            />
             <svg xmlns="http://www.w3.org/2000/svg" className="h-20 w-20 text-gray-400 group-hover:text-cyan-400 mb-4 transition-colors duration-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
               <path strokeLinecap="round" strokeLinejoin="round" d="M7 16a4 4 0 01-.88-7.903A5 5 0 0115.9 6H16a2 2 0 012 2v1H6a2 2 0 00-2 2v2m2 5l4-4m0 0l4 4m-4-4v12" />
             </svg>
             <p className="text-gray-200 group-hover:text-cyan-200 text-xl font-bold mb-2 transition-colors duration-300">Drag & Drop or Click to Upload</p>
-            <p className="text-gray-400 group-hover:text-cyan-300 text-base transition-colors duration-300">PNG, JPG, GIF up to 10MB</p>
+            <p className="text-gray-400 group-hover:text-cyan-300 text-base transition-colors duration-300">Up to {MAX_SCAN_IMAGES} photos · PNG, JPG, GIF up to 10MB each</p>
           </>
         ) : (
-          <div className="relative w-full h-64 flex items-center justify-center">
-            <img src={uploadedImagePreviewUrl} alt="Preview" className="max-w-full max-h-full object-contain rounded-xl shadow-md" />
-            <button
-              onClick={onRemoveImage}
-              className="absolute top-2 right-2 bg-rose-600 text-white p-2 rounded-full hover:bg-rose-700 transition duration-200 shadow-md"
-              aria-label="Remove image"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
+          <div className="w-full">
+            {/* Thumbnails sit above the file input so their buttons stay clickable */}
+            <div className="relative z-10 grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {scanQueue.map((image, index) => {
+                const badge = STATUS_BADGES[image.status];
+                return (
+                  <div key={image.id} className={`relative rounded-xl overflow-hidden bg-gray-800 border ${expandedImageId === image.id ? 'border-cyan-400' : 'border-gray-700'}`}>
+                    <button
+                      onClick={() => setExpandedImageId((prev) => (prev === image.id ? null : image.id))}
+                      disabled={image.status !== 'done' && image.status !== 'error'}
+                      className="block w-full"
+                      aria-label={`Show results for photo ${index + 1}`}
+                    >
+                      <img src={image.previewUrl} alt={`Photo ${index + 1}`} className="w-full h-28 object-cover" />
+                    </button>
+                    <span className="absolute top-1 left-1 bg-gray-950/80 text-gray-100 text-xs font-bold rounded-full px-2 py-0.5">{index + 1}</span>
+                    <span className={`absolute bottom-1 left-1 text-xs font-semibold rounded-full px-2 py-0.5 ${badge.className}`}>
+                      {image.status === 'done' ? `${image.detections.length} items` : badge.label}
+                    </span>
+                    {!isLoadingInternal && !isReviewing && (
+                      <button
+                        onClick={() => onRemoveImage(image.id)}
+                        className="absolute top-1 right-1 bg-rose-600 text-white p-1 rounded-full hover:bg-rose-700 transition duration-200 shadow-md"
+                        aria-label={`Remove photo ${index + 1}`}
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {canAddPhotos && (
+              <p className="text-gray-400 group-hover:text-cyan-300 text-base text-center mt-4">Click or drop to add more photos ({scanQueue.length}/{MAX_SCAN_IMAGES})</p>
+            )}
           </div>
         )}
       </div>
 
-      <button
-        onClick={handleScanButtonClick}
-        className="w-full bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-4 px-4 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg text-xl flex items-center justify-center"
-        disabled={!uploadedImageFile || isLoadingInternal}
-        aria-label="Analyze ingredients"
-      >
-        {isLoadingInternal ? (
-          <>
-            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-3"></div>
-            Scanning & Generating Recipes...
-          </>
-        ) : (
-          <>
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" />
-            </svg>
-            Scan My Fridge
-          </>
-        )}
-      </button>
+      {isReviewing && (
+        <p className="mb-6 text-gray-300 text-base text-center">Tap a photo to see what was found on it, and tap a box to correct it.</p>
+      )}
+
+      {canAddPhotos && (
+        <button
+          onClick={() => setIsCameraOpen(true)}
+          className="w-full mb-6 bg-gray-700 text-white font-semibold py-3 px-4 rounded-xl hover:bg-gray-600 transition duration-200 shadow-md text-lg flex items-center justify-center"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          Use Camera
+        </button>
+      )}
+
+      {isCameraOpen && (
+        <CameraCapture
+          source={cameraSource}
+          maxShots={MAX_SCAN_IMAGES - scanQueue.length}
+          onUsePhotos={(files) => handleCameraPhotos(files, false)}
+          onScanPhotos={(files) => handleCameraPhotos(files, true)}
+          onClose={() => setIsCameraOpen(false)}
+        />
+      )}
+
+      {expandedImage && (
+        <div className="mb-6 p-4 bg-gray-900/50 rounded-xl border border-gray-700 animate-fade-in">
+          <h3 className="text-lg font-bold text-gray-100 mb-2">Photo {photoNumbers.get(expandedImage.id)}</h3>
+          {expandedImage.status === 'error' ? (
+            <p className="text-rose-400">Couldn't analyze this photo: {expandedImage.error}. It will be retried on the next scan.</p>
+          ) : (
+            <DetectionOverlay
+              image={expandedImage}
+              label={`Photo ${photoNumbers.get(expandedImage.id)}`}
+              editable={reviewImageIds.includes(expandedImage.id)}
+              onCorrect={(index, changes) => onCorrectDetection(expandedImage.id, index, changes)}
+              onRemove={(index) => onRemoveDetection(expandedImage.id, index)}
+            />
+          )}
+        </div>
+      )}
+
+      {!isReviewing && (
+        <button
+          onClick={() => handleScanButtonClick()}
+          className="w-full bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-4 px-4 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg text-xl flex items-center justify-center"
+          disabled={pendingCount === 0 || isLoadingInternal}
+          aria-label="Analyze ingredients"
+        >
+          {isLoadingInternal ? (
+            <>
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-3"></div>
+              Scanning...
+            </>
+          ) : (
+            <>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" />
+              </svg>
+              {pendingCount > 1 ? `Scan ${pendingCount} Photos` : 'Scan My Fridge'}
+            </>
+          )}
+        </button>
+      )}
+      {scanQueue.length > 0 && !isLoadingInternal && !isReviewing && (
+        <button
+          onClick={onClearImages}
+          className="w-full mt-3 text-gray-400 hover:text-gray-200 text-base underline"
+        >
+          Clear all photos
+        </button>
+      )}
 
       {isLoadingInternal && (
         <div className="mt-8">
-          <LoadingSpinner message="Chef Fridge is identifying your items and creating recipes..." />
+          <LoadingSpinner message={`Chef Fridge is identifying your items (${finishedCount}/${scanQueue.length} photos)...`} />
         </div>
       )}
 
-      {analyzedIngredients.length > 0 && !isLoadingInternal && (
+      {scanResults.length > 0 && !isLoadingInternal && !isReviewing && (
         <div className="mt-8 p-6 bg-white/10 backdrop-blur-lg border border-white/20 rounded-2xl shadow-xl animate-fade-in">
           <h3 className="text-2xl font-bold text-gray-100 mb-4 flex items-center">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2 text-cyan-400" viewBox="0 0 20 20" fill="currentColor">
@@ -142,9 +259,14 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
             Ingredients Found:
           </h3>
           <ul className="list-disc list-inside space-y-2 text-lg text-gray-200">
-            {analyzedIngredients.map((item, index) => (
-              <li key={index} className="flex items-center">
-                <span className="font-semibold text-cyan-300 mr-2">{item.name}:</span> {item.quantity} - <span className={`font-medium ${item.freshness === 'expiring' ? 'text-orange-300' : item.freshness === 'spoiled' ? 'text-rose-400' : 'text-emerald-300'}`}>{item.freshness}</span>
+            {scanResults.map(({ ingredient: item, imageIds }, index) => (
+              <li key={index} className="flex flex-wrap items-center">
+                <span className="font-semibold text-cyan-300 mr-2">{item.name}:</span> {formatQuantity(item.quantity)} - <span className={`font-medium ${item.freshness === 'expiring' ? 'text-orange-300' : item.freshness === 'spoiled' ? 'text-rose-400' : 'text-emerald-300'}`}>{item.freshness}</span>
+                {imageIds.length > 1 && (
+                  <span className="ml-2 text-sm text-gray-400">
+                    (seen in photos {imageIds.map((id) => photoNumbers.get(id)).filter(Boolean).join(', ')}, counted once)
+                  </span>
+                )}
               </li>
             ))}
           </ul>
@@ -155,4 +277,4 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
   );
 };
 
-export default ImageUploader;
\ No newline at end of file
+export default ImageUploader;
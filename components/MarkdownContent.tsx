@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../services/markdownService';
+
+const HEADING_CLASSES = ['text-xl font-bold', 'text-lg font-bold', 'text-base font-bold', 'text-base font-semibold', 'text-sm font-semibold', 'text-sm font-semibold text-gray-300'];
+
+function renderInlines(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={i}>{renderInlines(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInlines(node.children)}</em>;
+      case 'strikethrough':
+        return <del key={i}>{renderInlines(node.children)}</del>;
+      case 'code':
+        return <code key={i} className="bg-gray-900/70 px-1 py-0.5 rounded text-[0.9em] font-mono text-amber-200">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-cyan-400 underline hover:text-cyan-200 break-words">
+            {renderInlines(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={i} />;
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[]): React.ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+        return <Tag key={i} className={`${HEADING_CLASSES[block.level - 1]} mt-3 first:mt-0 mb-1`}>{renderInlines(block.children)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={i} className="mb-2 last:mb-0">{renderInlines(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j} className="pl-1">{renderBlocks(item)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal list-outside ml-5 mb-2 last:mb-0 space-y-1">{items}</ol>
+          : <ul key={i} className="list-disc list-outside ml-5 mb-2 last:mb-0 space-y-1">{items}</ul>;
+      }
+      case 'code':
+        return (
+          <pre key={i} className="bg-gray-900 p-3 rounded-lg text-xs font-mono overflow-x-auto mb-2 last:mb-0" data-language={block.language ?? undefined}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'table':
+        return (
+          <div key={i} className="overflow-x-auto mb-2 last:mb-0">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, j) => (
+                    <th key={j} className="border border-gray-500 px-2 py-1 bg-gray-800/60 font-semibold" style={{ textAlign: block.align[j] ?? 'left' }}>
+                      {renderInlines(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, j) => (
+                      <td key={j} className="border border-gray-600 px-2 py-1" style={{ textAlign: block.align[j] ?? 'left' }}>
+                        {renderInlines(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'quote':
+        return <blockquote key={i} className="border-l-4 border-gray-500 pl-3 italic text-gray-300 mb-2 last:mb-0">{renderBlocks(block.children)}</blockquote>;
+      case 'rule':
+        return <hr key={i} className="border-gray-600 my-3" />;
+    }
+  });
+}
+
+// Renders chat Markdown as React elements, never as HTML, so whatever a reply contains is shown as text.
+const MarkdownContent: React.FC<{ content: string }> = ({ content }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className="break-words">{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownContent;
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { Ingredient, MealPlan, Recipe } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import { describeRecipeMetadata } from '../services/recipeFilterService';
+import { describeExpiry, getExpiringItems } from '../services/shelfLifeService';
+import { MEAL_SLOTS, MealSlotRef, getPlanDates, getPlannedMeal, getPlanShoppingNeeds } from '../services/mealPlanService';
+
+interface MealPlannerProps {
+  plan: MealPlan | null;
+  inventory: Ingredient[];
+  onGeneratePlan: () => Promise<string[]>; // Resolves with the names of meals dropped by the allergen check
+  onMoveMeal: (from: MealSlotRef, to: MealSlotRef) => void;
+  onRemoveMeal: (ref: MealSlotRef) => void;
+  onOpenRecipe: (recipe: Recipe) => void;
+  onAddToShoppingList: (items: { name: string; quantity?: string }[]) => void;
+}
+
+const DRAG_TYPE = 'application/x-meal-slot';
+
+function formatDay(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+const MealPlanner: React.FC<MealPlannerProps> = ({ plan, inventory, onGeneratePlan, onMoveMeal, onRemoveMeal, onOpenRecipe, onAddToShoppingList }) => {
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rejected, setRejected] = useState<string[]>([]);
+  // Tap-to-move for touch screens, where HTML drag and drop isn't available
+  const [movingFrom, setMovingFrom] = useState<MealSlotRef | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [addedShoppingFor, setAddedShoppingFor] = useState<MealPlan | null>(null);
+
+  const expiringSoon = getExpiringItems(inventory);
+  const shoppingNeeds = plan ? getPlanShoppingNeeds(plan, inventory) : [];
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    setMovingFrom(null);
+    try {
+      setRejected(await onGeneratePlan());
+    } catch (err: any) {
+      console.error('Error generating meal plan:', err);
+      setError(`Couldn't plan your week: ${err.message || 'Unknown error'}.`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSlotActivated = (ref: MealSlotRef) => {
+    if (!movingFrom) return;
+    onMoveMeal(movingFrom, ref);
+    setMovingFrom(null);
+  };
+
+  return (
+    <div className="mt-6 p-0 max-w-4xl mx-auto animate-fade-in text-gray-100">
+      <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg mb-6">
+        <h3 className="text-3xl font-bold text-gray-100 mb-4 border-b border-gray-700 pb-3 flex items-center">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mr-2 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+          Meal Plan
+        </h3>
+        <p className="text-gray-300 text-lg mb-4">
+          Chef Fridge plans breakfast, lunch and dinner for the week around what's in your fridge, using whatever expires first early in the week.
+        </p>
+        {expiringSoon.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4" aria-label="Ingredients to use first">
+            <span className="text-sm text-gray-400 self-center">Use first:</span>
+            {expiringSoon.map((item) => (
+              <span key={`${item.name}-${item.expiresOn}`} className="text-sm bg-orange-900/40 border border-orange-500 text-orange-200 rounded-full px-3 py-1">
+                {item.name} · {describeExpiry(item)}
+              </span>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating || inventory.length === 0}
+          className="w-full bg-gradient-to-r from-cyan-400 to-violet-500 text-white font-bold py-4 px-6 rounded-xl hover:from-cyan-500 hover:to-violet-600 transition duration-200 shadow-lg text-xl disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {plan ? 'Re-plan my week ✨' : 'Plan my week ✨'}
+        </button>
+        {inventory.length === 0 && (
+          <p className="text-gray-400 text-sm mt-2 text-center">Add some ingredients to your fridge first.</p>
+        )}
+        {error && <p className="mt-3 text-rose-400 text-base" role="alert">{error}</p>}
+        {rejected.length > 0 && (
+          <p className="mt-3 text-amber-300 text-base" role="status">
+            Left out because they contain your allergens: {rejected.join(', ')}.
+          </p>
+        )}
+      </div>
+
+      {isGenerating && (
+        <div className="mb-6">
+          <LoadingSpinner message="Chef Fridge is planning your week..." />
+        </div>
+      )}
+
+      {plan && !isGenerating && (
+        <>
+          <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg mb-6">
+            {movingFrom && (
+              <div className="mb-4 flex items-center justify-between bg-cyan-900/40 border border-cyan-500 rounded-xl px-4 py-2" role="status">
+                <span>Tap the slot to move this meal to.</span>
+                <button onClick={() => setMovingFrom(null)} className="text-cyan-300 font-semibold hover:text-cyan-100">Cancel</button>
+              </div>
+            )}
+            <div className="space-y-4">
+              {getPlanDates(plan).map((date) => (
+                <div key={date}>
+                  <h4 className="text-lg font-bold text-cyan-300 mb-2">{formatDay(date)}</h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    {MEAL_SLOTS.map((slot) => {
+                      const ref: MealSlotRef = { date, slot: slot.id };
+                      const key = `${date}|${slot.id}`;
+                      const meal = getPlannedMeal(plan, ref);
+                      const isMoving = movingFrom?.date === date && movingFrom.slot === slot.id;
+                      return (
+                        <div
+                          key={key}
+                          onDragOver={(e) => {
+                            if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+                            e.preventDefault();
+                            setDropTarget(key);
+                          }}
+                          onDragLeave={() => setDropTarget((prev) => (prev === key ? null : prev))}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            setDropTarget(null);
+                            const from = e.dataTransfer.getData(DRAG_TYPE);
+                            if (from) onMoveMeal(JSON.parse(from), ref);
+                          }}
+                          onClick={() => handleSlotActivated(ref)}
+                          className={`min-h-24 rounded-xl border p-3 transition duration-200
+                            ${dropTarget === key ? 'border-cyan-400 bg-cyan-900/30' : isMoving ? 'border-violet-400 bg-violet-900/30' : 'border-gray-700 bg-gray-900/40'}
+                            ${movingFrom && !isMoving ? 'cursor-pointer hover:border-cyan-400' : ''}`}
+                          aria-label={`${slot.label} on ${formatDay(date)}`}
+                        >
+                          <p className="text-xs uppercase tracking-wide text-gray-400 mb-1">{slot.icon} {slot.label}</p>
+                          {meal ? (
+                            <div
+                              draggable
+                              onDragStart={(e) => {
+                                e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(ref));
+                                e.dataTransfer.effectAllowed = 'move';
+                              }}
+                              className="cursor-grab active:cursor-grabbing"
+                            >
+                              <button
+                                onClick={(e) => {
+                                  if (movingFrom) return; // Let the click land on the slot
+                                  e.stopPropagation();
+                                  onOpenRecipe(meal.recipe);
+                                }}
+                                className="text-left font-semibold text-gray-100 hover:text-cyan-300"
+                                aria-label={`Open ${meal.recipe.name}`}
+                              >
+                                {meal.recipe.name}
+                              </button>
+                              {describeRecipeMetadata(meal.recipe) && (
+                                <p className="text-xs text-gray-400 mt-1">{describeRecipeMetadata(meal.recipe)}</p>
+                              )}
+                              {!movingFrom && (
+                                <div className="flex gap-3 mt-2 text-sm">
+                                  <button
+                                    onClick={(e) => { e.stopPropagation(); setMovingFrom(ref); }}
+                                    className="text-cyan-400 hover:text-cyan-200"
+                                    aria-label={`Move ${meal.recipe.name}`}
+                                  >
+                                    Move
+                                  </button>
+                                  <button
+                                    onClick={(e) => { e.stopPropagation(); onRemoveMeal(ref); }}
+                                    className="text-gray-400 hover:text-rose-400"
+                                    aria-label={`Remove ${meal.recipe.name} from the plan`}
+                                  >
+                                    Remove
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-gray-500 italic">{movingFrom ? 'Move here' : 'Nothing planned'}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg">
+            <h3 className="text-2xl font-bold text-gray-100 mb-3">To buy for this plan</h3>
+            {shoppingNeeds.length === 0 ? (
+              <p className="text-gray-400 italic">Your fridge covers every planned meal.</p>
+            ) : (
+              <>
+                <ul className="list-disc list-outside ml-6 text-lg text-gray-200 space-y-1 mb-4">
+                  {shoppingNeeds.map((item) => (
+                    <li key={item.name}>{item.quantity ? `${item.quantity} ${item.name}` : item.name}</li>
+                  ))}
+                </ul>
+                <button
+                  onClick={() => {
+                    onAddToShoppingList(shoppingNeeds);
+                    setAddedShoppingFor(plan);
+                  }}
+                  disabled={addedShoppingFor === plan}
+                  className="w-full bg-indigo-600 text-white font-semibold py-3 px-4 rounded-xl hover:bg-indigo-700 transition duration-200 shadow-md text-lg disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  {addedShoppingFor === plan ? 'Added to your shopping list ✓' : `Add ${shoppingNeeds.length} items to shopping list 🛒`}
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MealPlanner;
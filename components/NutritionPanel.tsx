@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { NutritionFacts, NutritionTargets, RecipeNutrition } from '../types';
+
+interface NutritionPanelProps {
+  nutrition: RecipeNutrition;
+  targets: NutritionTargets; // From the user's profile; shown as "% of daily target" where set
+}
+
+const ROWS: { key: keyof NutritionFacts; label: string; unit: string; target?: keyof NutritionTargets }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal', target: 'calories' },
+  { key: 'proteinGrams', label: 'Protein', unit: 'g', target: 'proteinGrams' },
+  { key: 'carbsGrams', label: 'Carbs', unit: 'g', target: 'carbsGrams' },
+  { key: 'fatGrams', label: 'Fat', unit: 'g', target: 'fatGrams' },
+  { key: 'fiberGrams', label: 'Fiber', unit: 'g' },
+  { key: 'sodiumMg', label: 'Sodium', unit: 'mg' },
+];
+
+const SOURCE_NOTES: Record<RecipeNutrition['source'], string> = {
+  local: 'Estimated from our nutrient table.',
+  mixed: 'Estimated from our nutrient table, with Chef Fridge filling in the gaps.',
+  model: 'Estimated by Chef Fridge.',
+};
+
+// Nutrition facts for a recipe, per serving by default with a toggle to the whole dish.
+const NutritionPanel: React.FC<NutritionPanelProps> = ({ nutrition, targets }) => {
+  const [showTotal, setShowTotal] = useState<boolean>(false);
+  const facts = showTotal ? nutrition.total : nutrition.perServing;
+
+  return (
+    <div className="mb-8 p-5 bg-gray-900/50 rounded-2xl border border-gray-700" aria-label="Nutrition facts">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-2xl font-bold text-gray-100">Nutrition</h3>
+        <div className="flex bg-gray-700 rounded-full p-1 text-sm font-semibold">
+          <button
+            onClick={() => setShowTotal(false)}
+            className={`px-3 py-1 rounded-full ${!showTotal ? 'bg-cyan-500 text-white' : 'text-gray-300'}`}
+            aria-pressed={!showTotal}
+          >
+            Per serving
+          </button>
+          <button
+            onClick={() => setShowTotal(true)}
+            className={`px-3 py-1 rounded-full ${showTotal ? 'bg-cyan-500 text-white' : 'text-gray-300'}`}
+            aria-pressed={showTotal}
+          >
+            Whole recipe
+          </button>
+        </div>
+      </div>
+      <p className="text-gray-400 text-sm mb-3">Serves {nutrition.servings}</p>
+      <table className="w-full text-lg">
+        <tbody className="divide-y divide-gray-700">
+          {ROWS.map(({ key, label, unit, target }) => {
+            const targetValue = !showTotal && target ? targets[target] : undefined;
+            return (
+              <tr key={key}>
+                <td className="py-2 text-gray-300">{label}</td>
+                <td className="py-2 text-right font-semibold text-gray-100">{facts[key]} {unit}</td>
+                <td className="py-2 pl-3 text-right text-sm text-gray-400 w-28">
+                  {targetValue ? `${Math.round((facts[key] / targetValue) * 100)}% of target` : ''}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 mt-3">
+        {SOURCE_NOTES[nutrition.source]}
+        {nutrition.unresolved.length > 0 && ` Not included: ${nutrition.unresolved.join('; ')}.`}
+      </p>
+    </div>
+  );
+};
+
+export default NutritionPanel;
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { Ingredient, ReceiptLine, ReceiptScan, ShoppingListItem } from '../types';
+import CameraCapture from './CameraCapture';
+import LoadingSpinner from './LoadingSpinner';
+import { formatQuantity, parseQuantity } from '../services/quantityService';
+import { findShoppingMatch } from '../services/shoppingListService';
+import { formatPrice } from '../services/receiptService';
+import { findExistingItem, isLowConfidence } from '../services/scanService';
+import { CameraSource } from '../services/cameraService';
+
+interface ReceiptScannerProps {
+  inventory: Ingredient[];
+  shoppingList: ShoppingListItem[];
+  onAnalyzeReceipt: (file: File) => Promise<ReceiptScan>;
+  // Adds the kept lines to the fridge and ticks them off the shopping list; returns how many were ticked
+  onAddReceipt: (scan: ReceiptScan) => number;
+  cameraSource?: CameraSource;
+}
+
+const ReceiptScanner: React.FC<ReceiptScannerProps> = ({ inventory, shoppingList, onAnalyzeReceipt, onAddReceipt, cameraSource }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scan, setScan] = useState<ReceiptScan | null>(null);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ name: string; quantity: string }>({ name: '', quantity: '' });
+  const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const chooseFile = (chosen: File) => {
+    setFile(chosen);
+    setPreviewUrl(URL.createObjectURL(chosen));
+    setScan(null);
+    setError(null);
+    setSummary(null);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    if (chosen && chosen.type.startsWith('image/')) chooseFile(chosen);
+    event.target.value = '';
+  };
+
+  const handleAnalyze = async (receipt: File | null = file) => {
+    if (!receipt) return;
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      const result = await onAnalyzeReceipt(receipt);
+      setScan(result);
+      setExcludedIds(new Set());
+      if (result.lines.length === 0) setError('No groceries could be read from this receipt.');
+    } catch (err: any) {
+      console.error('Error reading receipt:', err);
+      setError(`Couldn't read the receipt: ${err.message || 'Unknown error'}.`);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const updateLine = (id: string, changes: Partial<ReceiptLine>) => {
+    setScan((prev) => (prev ? { ...prev, lines: prev.lines.map((line) => (line.id === id ? { ...line, ...changes } : line)) } : prev));
+  };
+
+  const toggleLine = (id: string) => {
+    setExcludedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const saveEdit = (id: string) => {
+    if (!draft.name.trim()) return;
+    updateLine(id, { name: draft.name.trim(), quantity: parseQuantity(draft.quantity) });
+    setEditingId(null);
+  };
+
+  const keptLines = scan ? scan.lines.filter((line) => !excludedIds.has(line.id)) : [];
+  const keptTotal = keptLines.reduce((sum, line) => sum + (line.price ?? 0), 0);
+
+  const handleAdd = () => {
+    if (!scan || keptLines.length === 0) return;
+    const ticked = onAddReceipt({ ...scan, lines: keptLines });
+    setSummary(`Added ${keptLines.length} item${keptLines.length === 1 ? '' : 's'} to your fridge${ticked > 0 ? ` and ticked ${ticked} off your shopping list` : ''}.`);
+    setScan(null);
+    setFile(null);
+    setPreviewUrl(null);
+  };
+
+  return (
+    <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg max-w-2xl mx-auto my-6 animate-fade-in text-gray-100">
+      <h2 className="text-3xl font-bold text-gray-100 mb-4 border-b border-gray-700 pb-3 flex items-center">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mr-2 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z" />
+        </svg>
+        Scan a Receipt
+      </h2>
+      <p className="text-gray-300 mb-6 text-lg">Just back from the shops? Snap the receipt and Chef Fridge will stock your fridge and tick off your shopping list.</p>
+
+      {summary && <p className="mb-4 text-emerald-300 text-base" role="status">{summary}</p>}
+
+      {!scan && (
+        <>
+          <div className="mb-4 p-6 bg-gray-900/50 border-4 border-dashed border-gray-700 rounded-2xl flex flex-col items-center justify-center relative overflow-hidden hover:border-cyan-400 transition-all duration-300">
+            {!isAnalyzing && (
+              <input
+                type="file"
+                accept="image/*"
+                onChange={handleFileChange}
+                className="absolute inset-0 opacity-0 cursor-pointer w-full h-full"
+                aria-label="Upload a receipt photo"
+              />
+            )}
+            {previewUrl ? (
+              <img src={previewUrl} alt="Receipt" className="max-h-80 rounded-lg object-contain" />
+            ) : (
+              <p className="text-gray-200 text-xl font-bold">Drag & Drop or Click to Upload a Receipt</p>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setIsCameraOpen(true)}
+              disabled={isAnalyzing}
+              className="flex-1 bg-gray-700 text-white font-semibold py-3 px-4 rounded-xl hover:bg-gray-600 transition duration-200 shadow-md text-lg disabled:opacity-50"
+            >
+              Use Camera
+            </button>
+            <button
+              onClick={() => handleAnalyze()}
+              disabled={!file || isAnalyzing}
+              className="flex-1 bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-3 px-4 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg text-lg"
+            >
+              Read Receipt
+            </button>
+          </div>
+        </>
+      )}
+
+      {isCameraOpen && (
+        <CameraCapture
+          source={cameraSource}
+          maxShots={1}
+          onUsePhotos={(files) => {
+            setIsCameraOpen(false);
+            if (files[0]) chooseFile(files[0]);
+          }}
+          onScanPhotos={(files) => {
+            setIsCameraOpen(false);
+            if (!files[0]) return;
+            chooseFile(files[0]);
+            void handleAnalyze(files[0]);
+          }}
+          onClose={() => setIsCameraOpen(false)}
+        />
+      )}
+
+      {isAnalyzing && (
+        <div className="mt-6">
+          <LoadingSpinner message="Chef Fridge is reading your receipt..." />
+        </div>
+      )}
+      {error && <p className="mt-4 text-rose-400 text-base" role="alert">{error}</p>}
+
+      {scan && scan.lines.length > 0 && (
+        <div className="animate-fade-in">
+          <p className="text-gray-400 text-sm mb-3">
+            {[scan.store, scan.purchasedOn].filter(Boolean).join(' · ') || 'Receipt'} · untick anything that isn't going in the fridge or pantry.
+          </p>
+          <ul className="space-y-2 mb-4">
+            {scan.lines.map((line) => {
+              const isKept = !excludedIds.has(line.id);
+              const listMatch = findShoppingMatch(shoppingList, line.name);
+              const inFridge = Boolean(findExistingItem(line.name, inventory));
+              return (
+                <li key={line.id} className={`p-3 rounded-xl border ${isKept ? (isLowConfidence(line) ? 'border-amber-500' : 'border-gray-700') : 'border-gray-800 opacity-50'} bg-gray-900/50`}>
+                  {editingId === line.id ? (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                        className="flex-1 p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 bg-gray-900 text-gray-100"
+                        aria-label="Item name"
+                      />
+                      <input
+                        type="text"
+                        value={draft.quantity}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, quantity: e.target.value }))}
+                        onKeyDown={(e) => e.key === 'Enter' && saveEdit(line.id)}
+                        className="sm:w-32 p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 bg-gray-900 text-gray-100"
+                        aria-label="Amount"
+                      />
+                      <button onClick={() => saveEdit(line.id)} className="bg-cyan-600 text-white font-semibold px-4 py-2 rounded-xl hover:bg-cyan-700">Save</button>
+                    </div>
+                  ) : (
+                    <div className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={isKept}
+                        onChange={() => toggleLine(line.id)}
+                        className="mt-1.5 h-5 w-5 accent-cyan-500"
+                        aria-label={`Add ${line.name}`}
+                      />
+                      <div className="flex-1">
+                        <p className="text-lg">
+                          <span className="font-semibold text-cyan-300">{line.name}</span> · {formatQuantity(line.quantity)}
+                          {line.price !== null && <span className="text-gray-400"> · {formatPrice(line.price, scan.currency)}</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 font-mono">{line.rawText}</p>
+                        <p className="text-sm">
+                          {isLowConfidence(line) && <span className="text-amber-300 mr-3">Hard to read, please check</span>}
+                          {inFridge && <span className="text-gray-400 mr-3">Adds to what's in your fridge</span>}
+                          {listMatch && <span className="text-emerald-300">✓ Ticks "{listMatch.name}" off your list</span>}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => {
+                          setEditingId(line.id);
+                          setDraft({ name: line.name, quantity: formatQuantity(line.quantity) });
+                        }}
+                        className="text-cyan-400 hover:text-cyan-200 text-sm font-semibold"
+                        aria-label={`Edit ${line.name}`}
+                      >
+                        Edit
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {keptTotal > 0 && (
+            <p className="text-gray-300 text-base mb-4 text-right">
+              Selected: {formatPrice(keptTotal, scan.currency)}
+              {scan.total !== null && <span className="text-gray-500"> of {formatPrice(scan.total, scan.currency)}</span>}
+            </p>
+          )}
+          <button
+            onClick={handleAdd}
+            disabled={keptLines.length === 0 || editingId !== null}
+            className="w-full bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-4 px-4 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg text-xl"
+          >
+            Add {keptLines.length} item{keptLines.length === 1 ? '' : 's'} to my fridge
+          </button>
+          <button onClick={() => setScan(null)} className="w-full mt-3 text-gray-400 hover:text-gray-200 text-base underline">
+            Start over
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReceiptScanner;
@@ -1,46 +1,89 @@
-import React, { useState, useContext } from 'react';
-import { Recipe } from '../types';
+import React, { useState, useContext, useEffect } from 'react';
+import { Ingredient, Recipe, SavedRecipe, UserProfile } from '../types';
 import { ChatControlContext } from '../App';
+import CookConfirmation from './CookConfirmation';
+import StepTimerButtons from './StepTimerButtons';
+import SafetyNotice from './SafetyNotice';
+import { Deduction, findMissingIngredients } from '../services/recipeInventoryService';
+import { formatQuantity } from '../services/quantityService';
+import { checkRecipeSafety } from '../services/allergenService';
+import { getRecipeNutrition, getServings } from '../services/nutritionService';
+import { scaleRecipe } from '../services/recipeScalingService';
+import { MAX_RECIPE_SERVINGS } from '../constants';
+import NutritionPanel from './NutritionPanel';
+import { findSavedRecipe } from '../services/cookbookService';
+import { buildCookingPrompt, startCookingSession } from '../services/cookingService';
+import { RECIPE_FILTERS, RECIPE_SORTS, RecipeFilterId, RecipeSortId, filterRecipes, sortRecipes, describeRecipeMetadata } from '../services/recipeFilterService';
 
 interface RecipeDisplayProps {
   recipes: Recipe[];
   onRecipeSelected: (recipe: Recipe | null) => void; // Allow setting null to deselect
   selectedRecipe: Recipe | null;
+  inventory: Ingredient[];
+  onRecipeCooked: (recipe: Recipe, deductions: Deduction[]) => void;
+  onAddToShoppingList: (items: { name: string; quantity?: string }[]) => void;
+  profile: UserProfile;
+  onRegenerateSafeRecipe: (recipe: Recipe) => Promise<void>;
+  cookbook: SavedRecipe[];
+  onSaveRecipe: (recipe: Recipe) => void;
+  onStartCooking: (recipe: Recipe) => void; // Opens cooking mode on the recipe as scaled
+  onStartTimer: (label: string, seconds: number) => void;
 }
 
-const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipes, onRecipeSelected, selectedRecipe }) => {
-  const [activeFilters, setActiveFilters] = useState<string[]>([]);
-  // Removed cookingMode state, as live chat will handle cooking instructions
+const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipes, onRecipeSelected, selectedRecipe, inventory, onRecipeCooked, onAddToShoppingList, profile, onRegenerateSafeRecipe, cookbook, onSaveRecipe, onStartCooking, onStartTimer }) => {
+  const [activeFilters, setActiveFilters] = useState<RecipeFilterId[]>([]);
+  const [sortBy, setSortBy] = useState<RecipeSortId>('suggested');
+  const [isConfirmingCook, setIsConfirmingCook] = useState<boolean>(false);
+  const [addedMissingFor, setAddedMissingFor] = useState<string | null>(null); // Recipe name and servings whose gaps were just added
+  const [regeneratingRecipe, setRegeneratingRecipe] = useState<Recipe | null>(null);
+  const [safetyError, setSafetyError] = useState<string | null>(null);
+  const [servings, setServings] = useState<number | null>(null); // Null shows the recipe as written
 
   const chatContext = useContext(ChatControlContext);
   if (!chatContext) {
     throw new Error("ChatControlContext must be used within a ChatControlProvider");
   }
-  const { setIsChatOverlayOpen, startLiveSession, isLiveSessionActive, isThinking } = chatContext;
+  const { setIsChatOverlayOpen, startLiveSession, sendLiveText, isLiveSessionActive, isThinking } = chatContext;
 
 
-  const allFilters = ['Quick (<30 Mins)', 'Vegetarian', 'Low Carb', 'High Protein']; // Example filters
+  const handleRegenerate = async (recipe: Recipe) => {
+    setRegeneratingRecipe(recipe);
+    setSafetyError(null);
+    try {
+      await onRegenerateSafeRecipe(recipe);
+    } catch (err: any) {
+      console.error('Error regenerating safe recipe:', err);
+      setSafetyError(`Couldn't find a safe alternative: ${err.message || 'Unknown error'}.`);
+    } finally {
+      setRegeneratingRecipe(null);
+    }
+  };
 
-  const toggleFilter = (filter: string) => {
+  const toggleFilter = (filter: RecipeFilterId) => {
     setActiveFilters(prev =>
       prev.includes(filter) ? prev.filter(f => f !== filter) : [...prev, filter]
     );
   };
 
-  const filteredRecipes = recipes.filter(recipe => {
-    // Implement actual filtering logic here based on recipe properties
-    // For now, this is a placeholder.
-    if (activeFilters.length === 0) return true;
-    return activeFilters.some(filter => {
-      if (filter === 'Vegetarian') return recipe.summary.toLowerCase().includes('vegetarian');
-      if (filter === 'Low Carb') return recipe.healthInsight.toLowerCase().includes('low carb');
-      // Add more sophisticated filtering as needed
-      return true;
-    });
-  });
+  // Each recipe opens at its own serving count
+  useEffect(() => {
+    setServings(null);
+  }, [selectedRecipe]);
+
+  const filteredRecipes = sortRecipes(filterRecipes(recipes, activeFilters), sortBy);
 
   // --- Recipe Detail Overlay (when a recipe card is selected) ---
   if (selectedRecipe) { // No longer checks for cookingMode, just selectedRecipe
+    const baseServings = getServings(selectedRecipe);
+    const displayedServings = servings ?? baseServings;
+    // Everything below works on the rescaled copy, so cooking and shopping use the scaled amounts.
+    const scaledRecipe = scaleRecipe(selectedRecipe, displayedServings);
+    const missingIngredients = findMissingIngredients(scaledRecipe, inventory);
+    const missingKey = `${selectedRecipe.name}|${displayedServings}`;
+    const missingLines = new Set(missingIngredients.map(missing => missing.line));
+    const safetyReport = checkRecipeSafety(selectedRecipe, profile);
+    const isSaved = Boolean(findSavedRecipe(cookbook, selectedRecipe.name));
+
     return (
       <div className="fixed inset-0 z-50 bg-gray-950/90 backdrop-blur-xl flex flex-col items-center justify-start p-4 animate-fade-in-up">
         <div className="w-full max-w-2xl bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-2xl p-6 text-gray-100 flex flex-col relative overflow-hidden">
@@ -57,7 +100,19 @@ const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipes, onRecipeSelected
           
           <h2 className="text-4xl font-extrabold text-cyan-400 mb-4 text-center mt-12">{selectedRecipe.name}</h2>
           
-          <p className="text-gray-300 text-xl leading-relaxed mb-6">{selectedRecipe.summary}</p>
+          <p className="text-gray-300 text-xl leading-relaxed mb-2">{selectedRecipe.summary}</p>
+          <p className="text-cyan-300 text-base mb-6">{describeRecipeMetadata(selectedRecipe)}</p>
+
+          {safetyReport.status !== 'safe' && (
+            <div className="mb-6">
+              <SafetyNotice
+                report={safetyReport}
+                isRegenerating={regeneratingRecipe === selectedRecipe}
+                onRegenerate={() => handleRegenerate(selectedRecipe)}
+              />
+              {safetyError && <p className="mt-2 text-rose-400 text-base">{safetyError}</p>}
+            </div>
+          )}
 
           <div className="mb-8">
             <h3 className="text-2xl font-bold text-gray-100 mb-3 flex items-center">
@@ -66,13 +121,67 @@ const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipes, onRecipeSelected
               </svg>
               Ingredients
             </h3>
+            <div className="flex items-center gap-3 mb-4 text-lg text-gray-300">
+              <span>Servings</span>
+              <div className="flex items-center bg-gray-700 rounded-full">
+                <button
+                  onClick={() => setServings(Math.max(1, displayedServings - 1))}
+                  disabled={displayedServings <= 1}
+                  className="w-10 h-10 rounded-full text-2xl font-bold text-cyan-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label="Fewer servings"
+                >
+                  −
+                </button>
+                <span className="w-10 text-center font-bold text-gray-100" aria-live="polite">{displayedServings}</span>
+                <button
+                  onClick={() => setServings(Math.min(MAX_RECIPE_SERVINGS, displayedServings + 1))}
+                  disabled={displayedServings >= MAX_RECIPE_SERVINGS}
+                  className="w-10 h-10 rounded-full text-2xl font-bold text-cyan-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label="More servings"
+                >
+                  +
+                </button>
+              </div>
+              {displayedServings !== baseServings && (
+                <button
+                  onClick={() => setServings(null)}
+                  className="text-sm text-cyan-400 underline hover:text-cyan-200"
+                  aria-label={`Reset to ${baseServings} servings`}
+                >
+                  Reset to {baseServings}
+                </button>
+              )}
+            </div>
             <ul className="list-disc list-outside ml-6 text-xl text-gray-200 leading-relaxed space-y-2">
-              {selectedRecipe.ingredients.map((ingredient, i) => (
-                <li key={i}>{ingredient}</li>
+              {scaledRecipe.ingredients.map((ingredient, i) => (
+                <li key={i} className={missingLines.has(ingredient) ? 'text-orange-300' : ''}>
+                  {ingredient}
+                  {missingLines.has(ingredient) && <span className="ml-2 text-sm font-semibold">(missing)</span>}
+                </li>
               ))}
             </ul>
+            {missingIngredients.length > 0 && (
+              <button
+                onClick={() => {
+                  onAddToShoppingList(missingIngredients.map(missing => ({
+                    name: missing.name,
+                    quantity: missing.quantity ? formatQuantity(missing.quantity) : undefined,
+                  })));
+                  setAddedMissingFor(missingKey);
+                }}
+                disabled={addedMissingFor === missingKey}
+                className="mt-4 w-full bg-indigo-600 text-white font-semibold py-3 px-4 rounded-xl hover:bg-indigo-700 transition duration-200 shadow-md text-lg disabled:opacity-60 disabled:cursor-not-allowed"
+                aria-label={`Add ${missingIngredients.length} missing ingredients to shopping list`}
+              >
+                {addedMissingFor === missingKey
+                  ? 'Added to your shopping list ✓'
+                  : `Add ${missingIngredients.length} missing to shopping list 🛒`}
+              </button>
+            )}
           </div>
 
+          <NutritionPanel nutrition={getRecipeNutrition(scaledRecipe)} targets={profile.targets} />
+
           <div className="mb-8">
             <h3 className="text-2xl font-bold text-gray-100 mb-3 flex items-center">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2 text-cyan-400" viewBox="0 0 20 20" fill="currentColor">
@@ -82,40 +191,68 @@ const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipes, onRecipeSelected
           </h3>
           <ol className="list-decimal list-outside ml-6 text-xl text-gray-200 leading-relaxed space-y-3">
             {selectedRecipe.instructions.length > 0 ? selectedRecipe.instructions.map((step, i) => (
-              <li key={i}>{step}</li>
+              <li key={i}>
+                {step}
+                <StepTimerButtons instruction={step} stepNumber={i + 1} onStartTimer={onStartTimer} />
+              </li>
             )) : <li>No detailed instructions provided by AI. You can still ask Chef Fridge in the live chat!</li>}
           </ol>
         </div>
 
           <button
-            onClick={async () => {
-              if (selectedRecipe) {
-                // Construct initial prompt for live session with recipe details
-                const initialPrompt = `Chef Fridge, I'm ready to cook "${selectedRecipe.name}". The summary is: "${selectedRecipe.summary}". The ingredients I have are: ${selectedRecipe.ingredients.join(', ')}. The instructions are: ${selectedRecipe.instructions.map((instr, idx) => `Step ${idx + 1}: ${instr}`).join(' ')}. Please guide me through the step-by-step voice instructions, starting with step 1. You can remind me of the instructions as we go, or elaborate on cooking techniques.`;
-                
-                setIsChatOverlayOpen(true); // Open the chat interface
-                await startLiveSession(initialPrompt); // Start live session with the prompt
+            onClick={() => onSaveRecipe(selectedRecipe)}
+            disabled={isSaved}
+            className="mt-8 w-full bg-gradient-to-r from-violet-500 to-indigo-600 text-white font-bold py-4 px-6 rounded-xl hover:from-violet-600 hover:to-indigo-700 transition duration-200 shadow-lg text-xl disabled:opacity-60 disabled:cursor-not-allowed"
+            aria-label={isSaved ? `${selectedRecipe.name} is in your cookbook` : `Save ${selectedRecipe.name} to your cookbook`}
+          >
+            {isSaved ? 'Saved in your Cookbook ✓' : 'Save to Cookbook 📖'}
+          </button>
+
+          <button
+            onClick={() => setIsConfirmingCook(true)}
+            className="mt-4 w-full bg-gray-700 text-gray-100 font-bold py-4 px-6 rounded-xl hover:bg-gray-600 transition duration-200 shadow-lg text-xl flex items-center justify-center"
+            aria-label={`Mark ${selectedRecipe.name} as cooked`}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2 text-emerald-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+            </svg>
+            Mark as Cooked
+          </button>
+
+          <button
+            onClick={() => {
+              // Cooking mode shows the steps; the voice guide walks through them with it
+              onStartCooking(scaledRecipe);
+              const prompt = buildCookingPrompt(startCookingSession(scaledRecipe));
+              if (isLiveSessionActive) {
+                sendLiveText(prompt);
+              } else {
+                setIsChatOverlayOpen(true);
+                void startLiveSession(prompt);
               }
             }}
-            className="mt-8 w-full bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-4 px-6 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 shadow-lg text-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+            className="mt-4 w-full bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-4 px-6 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 shadow-lg text-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
             aria-label={`Start cooking ${selectedRecipe.name} with voice guidance`}
-            disabled={isThinking || isLiveSessionActive} // Disable if chat is thinking or already active
+            disabled={isThinking && !isLiveSessionActive} // Wait while a voice session is connecting
           >
-            {isThinking || isLiveSessionActive ? (
-              <>
-                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-3"></div>
-                {isLiveSessionActive ? 'Cooking Session Active...' : 'Starting Voice Guide...'}
-              </>
-            ) : (
-              <>
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 11a7 7 0 01-7 7v1m0 0v1m0-1a7 7 0 01-7-7m7 7a7 7 0 007-7m0 0a7 7 0 01-7-7m7 7h1m0 0h1m0-1a7 7 0 01-7-7m7 7v-1m0 0v-1m0 1a7 7 0 00-7 7m0 0a7 7 0 01-7-7m7 7h-1m0 0h-1m0-1a7 7 0 017-7m0 0a7 7 0 00-7 7" />
-                </svg>
-                Cook With Voice Guide!
-              </>
-            )}
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19 11a7 7 0 01-7 7v1m0 0v1m0-1a7 7 0 01-7-7m7 7a7 7 0 007-7m0 0a7 7 0 01-7-7m7 7h1m0 0h1m0-1a7 7 0 01-7-7m7 7v-1m0 0v-1m0 1a7 7 0 00-7 7m0 0a7 7 0 01-7-7m7 7h-1m0 0h-1m0-1a7 7 0 017-7m0 0a7 7 0 00-7 7" />
+            </svg>
+            Cook With Voice Guide!
           </button>
         </div>
+
+        {isConfirmingCook && (
+          <CookConfirmation
+            recipe={scaledRecipe}
+            inventory={inventory}
+            onCancel={() => setIsConfirmingCook(false)}
+            onConfirm={(deductions) => {
+              setIsConfirmingCook(false);
+              onRecipeCooked(scaledRecipe, deductions);
+            }}
+          />
+        )}
       </div>
     );
   }
@@ -141,24 +278,38 @@ const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipes, onRecipeSelected
         ) : (
           <>
             <div className="mb-6 flex flex-wrap gap-2">
-              {allFilters.map(filter => (
+              {RECIPE_FILTERS.map(filter => (
                 <button
-                  key={filter}
-                  onClick={() => toggleFilter(filter)}
+                  key={filter.id}
+                  onClick={() => toggleFilter(filter.id)}
                   className={`py-3 px-6 rounded-full text-lg font-bold transition duration-200 shadow-sm
-                    ${activeFilters.includes(filter) ? 'bg-gradient-to-r from-cyan-400 to-violet-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
-                  aria-pressed={activeFilters.includes(filter)}
-                  aria-label={`Filter recipes by ${filter}`}
+                    ${activeFilters.includes(filter.id) ? 'bg-gradient-to-r from-cyan-400 to-violet-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  aria-pressed={activeFilters.includes(filter.id)}
+                  aria-label={`Filter recipes by ${filter.label}`}
                 >
-                  {filter}
+                  {filter.label}
                 </button>
               ))}
             </div>
+            <label className="flex items-center gap-3 text-gray-300 text-lg">
+              Sort by
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as RecipeSortId)}
+                className="p-2 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 text-base bg-gray-900 text-gray-100"
+                aria-label="Sort recipes"
+              >
+                {RECIPE_SORTS.map(sort => (
+                  <option key={sort.id} value={sort.id}>{sort.label}</option>
+                ))}
+              </select>
+            </label>
           </>
         )}
       </div>
 
       <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg mt-6"> {/* Recipes list in a distinct section */}
+        {safetyError && <p className="mb-4 text-rose-400 text-base" role="alert">{safetyError}</p>}
         {filteredRecipes.length === 0 ? (
           <p className="text-center text-gray-400 italic text-xl py-8">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 mx-auto mb-3 text-orange-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -168,25 +319,53 @@ const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipes, onRecipeSelected
           </p>
         ) : (
           <div className="space-y-6">
-            {filteredRecipes.map((recipe, index) => (
-              <div
-                key={index}
-                className={`relative bg-gray-900/30 backdrop-blur-lg border ${selectedRecipe?.name === recipe.name ? 'border-cyan-500 ring-4 ring-cyan-900/30' : 'border-gray-700'} rounded-2xl cursor-pointer overflow-hidden shadow-lg hover:shadow-cyan-500/30 hover:ring-2 hover:ring-cyan-500/50 transition-all duration-300 group`}
-                onClick={() => onRecipeSelected(recipe)}
-                role="button"
-                tabIndex={0}
-                aria-label={`Select recipe: ${recipe.name}`}
-              >
-                {/* Removed recipe.imageUrl from list cards for cleaner UI */}
-                <div className="p-6"> {/* Increased padding here */}
-                  <h4 className="text-2xl font-bold text-gray-100 mb-2">{recipe.name}</h4>
-                  <p className="text-gray-300 text-base mb-3">{recipe.summary}</p>
-                  <div className="absolute top-3 right-3 bg-gradient-to-r from-emerald-400 to-lime-500 text-white rounded-full px-4 py-2 text-sm font-semibold shadow-md flex items-center">
-                    ✨ {recipe.healthInsight}
+            {filteredRecipes.map((recipe, index) => {
+              const safetyReport = checkRecipeSafety(recipe, profile);
+              const isBlocked = safetyReport.status === 'blocked';
+              return (
+                <div
+                  key={index}
+                  className={`relative bg-gray-900/30 backdrop-blur-lg border ${isBlocked ? 'border-rose-600' : selectedRecipe?.name === recipe.name ? 'border-cyan-500 ring-4 ring-cyan-900/30' : 'border-gray-700'} rounded-2xl ${isBlocked ? '' : 'cursor-pointer hover:shadow-cyan-500/30 hover:ring-2 hover:ring-cyan-500/50'} overflow-hidden shadow-lg transition-all duration-300 group`}
+                  onClick={() => { if (!isBlocked) onRecipeSelected(recipe); }}
+                  role="button"
+                  tabIndex={0}
+                  aria-disabled={isBlocked}
+                  aria-label={isBlocked ? `Blocked recipe: ${recipe.name}` : `Select recipe: ${recipe.name}`}
+                >
+                  {/* Removed recipe.imageUrl from list cards for cleaner UI */}
+                  <div className="p-6"> {/* Increased padding here */}
+                    <h4 className={`text-2xl font-bold mb-2 ${isBlocked ? 'text-gray-400 line-through' : 'text-gray-100'}`}>{recipe.name}</h4>
+                    <p className="text-gray-300 text-base mb-3">{recipe.summary}</p>
+                    {describeRecipeMetadata(recipe) && (
+                      <p className="text-sm text-cyan-300 mb-3">{describeRecipeMetadata(recipe)}</p>
+                    )}
+                    {!isBlocked && (
+                      <div className="absolute top-3 right-3 bg-gradient-to-r from-emerald-400 to-lime-500 text-white rounded-full px-4 py-2 text-sm font-semibold shadow-md flex items-center">
+                        ✨ {recipe.healthInsight}
+                      </div>
+                    )}
+                    {safetyReport.status !== 'safe' && (
+                      <>
+                        <SafetyNotice
+                          report={safetyReport}
+                          isRegenerating={regeneratingRecipe === recipe}
+                          onRegenerate={() => handleRegenerate(recipe)}
+                        />
+                        {isBlocked && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onRecipeSelected(recipe); }}
+                            className="mt-2 text-sm text-gray-400 underline hover:text-gray-200"
+                            aria-label={`View ${recipe.name} anyway`}
+                          >
+                            View anyway
+                          </button>
+                        )}
+                      </>
+                    )}
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,37 @@
+import React from 'react';
+import { RecipeSafetyReport, summarizeFindings } from '../services/allergenService';
+
+interface SafetyNoticeProps {
+  report: RecipeSafetyReport;
+  isRegenerating?: boolean;
+  onRegenerate?: () => void; // Offers a safe substitute when given
+}
+
+// Allergen warning for a recipe that failed the safety check, with a way to get a safe substitute.
+const SafetyNotice: React.FC<SafetyNoticeProps> = ({ report, isRegenerating = false, onRegenerate }) => {
+  const isBlocked = report.status === 'blocked';
+  return (
+    <div
+      className={`rounded-xl p-4 border ${isBlocked ? 'bg-rose-900/40 border-rose-500 text-rose-100' : 'bg-amber-900/30 border-amber-500 text-amber-100'}`}
+      role="alert"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <p className="font-bold text-lg">
+        {isBlocked ? '⛔ Contains your allergens' : '⚠️ Contains foods you are intolerant to'}
+      </p>
+      <p className="text-base mt-1">{summarizeFindings(report.findings)}</p>
+      {onRegenerate && (
+        <button
+          onClick={onRegenerate}
+          disabled={isRegenerating}
+          className="mt-3 bg-white/90 text-gray-900 font-semibold py-2 px-4 rounded-xl hover:bg-white transition duration-200 disabled:opacity-60 disabled:cursor-not-allowed"
+          aria-label="Generate a safe alternative recipe"
+        >
+          {isRegenerating ? 'Finding a safe alternative...' : 'Find a safe alternative ✨'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SafetyNotice;
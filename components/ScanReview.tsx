@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Ingredient, ScanImage } from '../types';
+import { formatQuantity, parseQuantity } from '../services/quantityService';
+import { ReviewDecision, ReviewItem, findExistingItem, getReviewedQuantity, isLowConfidence } from '../services/scanService';
+
+interface ScanReviewProps {
+  items: ReviewItem[];
+  onChangeItems: (items: ReviewItem[]) => void;
+  inventory: Ingredient[];
+  scanQueue: ScanImage[]; // For numbering the photos each item was seen in
+  onConfirm: () => Promise<void>;
+  onDiscard: () => void;
+}
+
+const ScanReview: React.FC<ScanReviewProps> = ({ items: rows, onChangeItems, inventory, scanQueue, onConfirm, onDiscard }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ name: string; quantity: string }>({ name: '', quantity: '' });
+  const [isCommitting, setIsCommitting] = useState<boolean>(false);
+
+  const photoNumbers = new Map(scanQueue.map((image, index) => [image.id, index + 1]));
+  const acceptedCount = rows.filter((row) => row.decision !== 'reject').length;
+  const lowConfidenceCount = rows.filter((row) => row.decision !== 'reject' && isLowConfidence(row.detection)).length;
+
+  const updateRow = (id: string, changes: Partial<ReviewItem>) => {
+    onChangeItems(rows.map((row) => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const startEditing = (row: ReviewItem) => {
+    setEditingId(row.id);
+    setDraft({ name: row.name, quantity: formatQuantity(row.quantity) });
+  };
+
+  const saveEdit = (id: string) => {
+    if (!draft.name.trim()) return;
+    const changes: Partial<ReviewItem> = { name: draft.name.trim(), quantity: parseQuantity(draft.quantity) };
+    // Correcting an item means keeping it
+    if (rows.find((row) => row.id === id)?.decision === 'reject') changes.decision = 'add';
+    updateRow(id, changes);
+    setEditingId(null);
+  };
+
+  const handleConfirm = async () => {
+    setIsCommitting(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-gray-800/60 backdrop-blur-lg rounded-2xl shadow-lg max-w-2xl mx-auto my-6 animate-fade-in text-gray-100">
+      <h2 className="text-3xl font-bold text-gray-100 mb-2 border-b border-gray-700 pb-3 flex items-center">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mr-2 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+        </svg>
+        Check What Was Found
+      </h2>
+      <p className="text-gray-300 mb-4 text-lg">
+        Nothing has been added to your fridge yet. Fix anything Chef Fridge got wrong, then confirm.
+      </p>
+      {lowConfidenceCount > 0 && (
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-2 bg-amber-900/30 border border-amber-500 rounded-xl px-4 py-2" role="status">
+          <span className="text-amber-200">{lowConfidenceCount} item{lowConfidenceCount === 1 ? '' : 's'} Chef Fridge wasn't sure about.</span>
+          <button
+            onClick={() => onChangeItems(rows.map((row) => (isLowConfidence(row.detection) ? { ...row, decision: 'reject' } : row)))}
+            className="text-amber-300 font-semibold hover:text-amber-100"
+          >
+            Reject them
+          </button>
+        </div>
+      )}
+
+      <ul className="space-y-3 mb-6">
+        {rows.map((row) => {
+          const existing = findExistingItem(row.name, inventory);
+          const isRejected = row.decision === 'reject';
+          const confidence = Math.round(row.detection.confidence * 100);
+          const decisions: { id: ReviewDecision; label: string }[] = existing
+            ? [{ id: 'add', label: 'Add to it' }, { id: 'replace', label: 'Replace' }, { id: 'reject', label: 'Reject' }]
+            : [{ id: 'add', label: 'Accept' }, { id: 'reject', label: 'Reject' }];
+          return (
+            <li key={row.id} className={`p-4 rounded-xl border ${isRejected ? 'border-gray-700 bg-gray-900/30 opacity-60' : isLowConfidence(row.detection) ? 'border-amber-500 bg-gray-900/50' : 'border-gray-700 bg-gray-900/50'}`}>
+              {editingId === row.id ? (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                    className="flex-1 p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 bg-gray-900 text-gray-100"
+                    aria-label="Item name"
+                  />
+                  <input
+                    type="text"
+                    value={draft.quantity}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, quantity: e.target.value }))}
+                    onKeyDown={(e) => e.key === 'Enter' && saveEdit(row.id)}
+                    className="sm:w-32 p-3 border border-gray-600 rounded-xl focus:ring-cyan-400 focus:border-cyan-400 bg-gray-900 text-gray-100"
+                    aria-label="Amount"
+                  />
+                  <button onClick={() => saveEdit(row.id)} className="bg-cyan-600 text-white font-semibold px-4 py-2 rounded-xl hover:bg-cyan-700">Save</button>
+                  <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-200 px-2">Cancel</button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className={`text-lg font-semibold ${isRejected ? 'line-through text-gray-400' : 'text-cyan-300'}`}>
+                        {row.name} <span className="text-gray-200 font-normal">· {formatQuantity(row.quantity)}</span>
+                      </p>
+                      <p className="text-sm text-gray-400">
+                        <span className={isLowConfidence(row.detection) ? 'text-amber-300' : 'text-emerald-300'}>{confidence}% sure</span>
+                        {row.detection.imageIds.length > 0 && ` · photo${row.detection.imageIds.length === 1 ? '' : 's'} ${row.detection.imageIds.map((id) => photoNumbers.get(id)).filter(Boolean).join(', ')}`}
+                        {row.name !== row.detection.ingredient.name && ` · detected as "${row.detection.ingredient.name}"`}
+                      </p>
+                    </div>
+                    <button onClick={() => startEditing(row)} className="text-cyan-400 hover:text-cyan-200 text-sm font-semibold" aria-label={`Edit ${row.name}`}>
+                      Edit
+                    </button>
+                  </div>
+                  {existing && !isRejected && (
+                    <p className="mt-2 text-sm text-gray-300">
+                      In your fridge: {formatQuantity(existing.quantity)} → after: <span className="font-semibold text-gray-100">{formatQuantity(getReviewedQuantity(row, existing))}</span>
+                    </p>
+                  )}
+                  <div className="flex gap-2 mt-3" role="group" aria-label={`What to do with ${row.name}`}>
+                    {decisions.map((decision) => (
+                      <button
+                        key={decision.id}
+                        onClick={() => updateRow(row.id, { decision: decision.id })}
+                        aria-pressed={row.decision === decision.id}
+                        className={`text-sm px-3 py-1 rounded-full border transition duration-200 ${row.decision === decision.id
+                          ? decision.id === 'reject' ? 'bg-rose-600 border-rose-500 text-white' : 'bg-cyan-600 border-cyan-500 text-white'
+                          : 'border-gray-600 text-gray-300 hover:border-cyan-400'}`}
+                      >
+                        {decision.label}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <button
+        onClick={handleConfirm}
+        disabled={isCommitting || editingId !== null}
+        className="w-full bg-gradient-to-r from-cyan-400 to-emerald-500 text-white font-bold py-4 px-4 rounded-xl hover:from-cyan-500 hover:to-emerald-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg text-xl"
+      >
+        {isCommitting ? 'Adding & Generating Recipes...' : acceptedCount > 0 ? `Add ${acceptedCount} item${acceptedCount === 1 ? '' : 's'} to my fridge` : 'Add nothing'}
+      </button>
+      <button
+        onClick={onDiscard}
+        disabled={isCommitting}
+        className="w-full mt-3 text-gray-400 hover:text-gray-200 text-base underline disabled:opacity-50"
+      >
+        Discard this scan
+      </button>
+    </div>
+  );
+};
+
+export default ScanReview;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { parseStepDurations } from '../services/timerService';
+
+interface StepTimerButtonsProps {
+  instruction: string;
+  stepNumber: number; // 1-based, names the timer
+  onStartTimer: (label: string, seconds: number) => void;
+  size?: 'normal' | 'large';
+}
+
+// One-tap timers for the durations written in a recipe step, e.g. "simmer for 20 minutes".
+const StepTimerButtons: React.FC<StepTimerButtonsProps> = ({ instruction, stepNumber, onStartTimer, size = 'normal' }) => {
+  const durations = parseStepDurations(instruction, stepNumber);
+  if (durations.length === 0) return null;
+
+  return (
+    <span className={`flex flex-wrap gap-2 ${size === 'large' ? 'justify-center mt-6' : 'mt-2'}`}>
+      {durations.map((duration, i) => (
+        <button
+          key={i}
+          onClick={() => onStartTimer(duration.label, duration.seconds)}
+          className={`bg-amber-500/20 text-amber-200 border border-amber-500/60 font-semibold rounded-full hover:bg-amber-500/30 transition duration-200 ${size === 'large' ? 'px-5 py-3 text-xl' : 'px-3 py-1 text-sm'}`}
+          aria-label={`Start a ${duration.text} timer: ${duration.label}`}
+        >
+          ⏱ {duration.text}
+        </button>
+      ))}
+    </span>
+  );
+};
+
+export default StepTimerButtons;
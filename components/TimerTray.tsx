@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { KitchenTimer } from '../types';
+import { describeDuration, formatCountdown, getRemainingMs } from '../services/timerService';
+
+interface TimerTrayProps {
+  timers: KitchenTimer[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onExtend: (id: string, seconds: number) => void;
+  onRemove: (id: string) => void; // Cancels a running timer or dismisses a ringing one
+}
+
+// Every timer, on every tab and over cooking mode. Ringing ones stay until dismissed.
+const TimerTray: React.FC<TimerTrayProps> = ({ timers, onPause, onResume, onExtend, onRemove }) => {
+  const [now, setNow] = useState<number>(Date.now());
+  const hasRunning = timers.some((timer) => timer.status === 'running');
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [hasRunning]);
+
+  if (timers.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 right-4 z-[70] flex flex-col gap-2 w-64 max-w-[calc(100vw-2rem)]" aria-label="Kitchen timers">
+      {timers.map((timer) => {
+        const isRinging = timer.status === 'ringing';
+        return (
+          <div
+            key={timer.id}
+            className={`rounded-xl shadow-2xl p-3 text-gray-100 animate-fade-in ${isRinging ? 'bg-rose-600 animate-pulse' : 'bg-gray-800/95 backdrop-blur-lg'}`}
+            role={isRinging ? 'alert' : 'timer'}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <p className="font-semibold truncate" title={timer.label}>{timer.label}</p>
+              <button onClick={() => onRemove(timer.id)} className="text-gray-300 hover:text-white" aria-label={isRinging ? `Dismiss ${timer.label}` : `Cancel ${timer.label}`}>
+                ✕
+              </button>
+            </div>
+            <p className="text-3xl font-bold font-mono">
+              {isRinging ? "Time's up!" : formatCountdown(getRemainingMs(timer, now) / 1000)}
+            </p>
+            <div className="flex items-center gap-2 mt-2 text-sm">
+              {isRinging ? (
+                <button onClick={() => onRemove(timer.id)} className="flex-1 bg-white text-rose-700 font-bold py-2 rounded-lg hover:bg-gray-100">
+                  Dismiss
+                </button>
+              ) : (
+                <button
+                  onClick={() => (timer.status === 'paused' ? onResume(timer.id) : onPause(timer.id))}
+                  className="flex-1 bg-gray-700 font-semibold py-2 rounded-lg hover:bg-gray-600"
+                >
+                  {timer.status === 'paused' ? 'Resume' : 'Pause'}
+                </button>
+              )}
+              <button onClick={() => onExtend(timer.id, 60)} className="flex-1 bg-gray-700/80 font-semibold py-2 rounded-lg hover:bg-gray-600" aria-label={`Add a minute to ${timer.label}`}>
+                +1 min
+              </button>
+            </div>
+            {!isRinging && <p className="text-xs text-gray-400 mt-1">of {describeDuration(timer.durationSeconds)}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TimerTray;
@@ -1,3 +1,5 @@
+import { FoodCategory } from './types';
+
 export const GEMINI_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
 export const GEMINI_PRO_MODEL = 'gemini-2.5-pro';
 export const GEMINI_FLASH_MODEL = 'gemini-2.5-flash';
@@ -8,6 +10,55 @@ export const SYSTEM_INSTRUCTION_CHEF_FRIDGE = `You are "Chef Fridge", the centra
 
 export const SYSTEM_INSTRUCTION_RECIPE_GEN = `You are an expert chef and nutritionist. Based on the provided ingredients, generate three distinct recipe options. For each recipe, provide a brief, engaging summary and immediately flag a key health insight. Focus on using only the provided ingredients.`;
 
+export const SYSTEM_INSTRUCTION_MEAL_PLAN = `You are an expert chef and nutritionist planning a week of home cooking. Build the plan around the ingredients already in the fridge, using the ones closest to their expiry date first, vary the meals across the week, and keep the number of extra ingredients to buy small.`;
+
 export const SYSTEM_INSTRUCTION_SEARCH_GROUNDING = `You are "Chef Fridge", a helpful AI assistant. You will answer questions using the most up-to-date information by leveraging Google Search. Always cite your sources.`;
 
-export const INVENTORY_MILK_EXPIRY_THRESHOLD_DAYS = 1; // Days before expiry for proactive alert
+// Days before expiry at which an item turns 'expiring' and triggers a proactive alert
+export const EXPIRY_ALERT_THRESHOLD_DAYS: Record<FoodCategory, number> = {
+  produce: 2, fruit: 2, herbs: 1, dairy: 1, cheese: 3, eggs: 3, meat: 1, poultry: 1, seafood: 1,
+  deli: 1, bakery: 1, grains: 14, canned: 30, condiments: 14, beverages: 2, leftovers: 1, frozen: 14, other: 2,
+};
+export const INVENTORY_EXPIRY_CHECK_INTERVAL_MS = 60000;
+
+// Rounds of tool calls answered within one text chat reply before it must finish in words
+export const MAX_CHAT_TOOL_ROUNDS = 4;
+
+// Text chat's kitchen snapshot lists at most this many inventory and shopping list entries; the
+// model pages through the rest with its query tools, which return this many per call
+export const CHAT_SNAPSHOT_MAX_ITEMS = 40;
+export const CHAT_SNAPSHOT_MAX_SHOPPING_ITEMS = 20;
+export const TOOL_RESULT_PAGE_SIZE = 25;
+
+// Assumed when a recipe doesn't say how many it serves
+export const DEFAULT_RECIPE_SERVINGS = 2;
+
+// Batch scanning: photos per batch, and how many are analyzed at once
+export const MAX_SCAN_IMAGES = 10;
+export const SCAN_CONCURRENCY = 2;
+// Detections the model is less sure of than this are flagged for a closer look during review
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Barcode scanning: how often a camera frame is decoded, and how long the same code is
+// ignored afterwards so holding a pack in view doesn't count it again
+export const BARCODE_SCAN_INTERVAL_MS = 400;
+export const BARCODE_REPEAT_MS = 2500;
+
+// Kitchen timers: the longest one that can be set, and how long an alarm sounds before it
+// goes quiet (the timer keeps showing as done until dismissed)
+export const MAX_TIMER_MINUTES = 24 * 60;
+export const ALARM_MAX_RINGING_MS = 2 * 60 * 1000;
+
+// Length of a generated meal plan
+export const MEAL_PLAN_DAYS = 7;
+
+// Upper bound for the servings stepper when rescaling a recipe
+export const MAX_RECIPE_SERVINGS = 24;
+
+// Recipe filter thresholds (per serving)
+export const QUICK_RECIPE_MAX_MINUTES = 30;
+export const HIGH_PROTEIN_MIN_GRAMS = 25;
+export const LOW_CARB_MAX_GRAMS = 20;
+
+export const STORAGE_DB_NAME = 'fridge-to-fork';
+export const STORAGE_DB_STORE = 'state';
@@ -0,0 +1,118 @@
+import { AllergenId } from '../types';
+
+export interface AllergenDefinition {
+  label: string;
+  // Words a user might type in their profile for this allergen, e.g. "lactose" -> dairy.
+  aliases: string[];
+  // Ingredient words that contain or are made from the allergen, including derived
+  // products (butter -> dairy, satay -> peanut). Matched as whole words, plurals included.
+  terms: string[];
+  // Phrases that contain a term but are safe, e.g. "coconut milk" for dairy.
+  exclusions: string[];
+}
+
+// Deterministic allergen lexicon used to check generated recipes. Terms are written in lower
+// case and the singular; the checker also accepts a trailing "s"/"es".
+export const ALLERGEN_LEXICON: Record<AllergenId, AllergenDefinition> = {
+  peanut: {
+    label: 'Peanut',
+    aliases: ['peanut', 'groundnut'],
+    terms: ['peanut', 'groundnut', 'monkey nut', 'satay', 'arachis oil', 'goober'],
+    exclusions: [],
+  },
+  treeNut: {
+    label: 'Tree nut',
+    aliases: ['tree nut', 'nut', 'almond', 'walnut', 'cashew', 'hazelnut', 'pecan', 'pistachio'],
+    terms: [
+      'nut', 'almond', 'walnut', 'cashew', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut',
+      'chestnut', 'praline', 'marzipan', 'frangipane', 'nutella', 'gianduja', 'pesto', 'nut butter', 'nut milk',
+    ],
+    exclusions: ['water chestnut', 'nutritional yeast'],
+  },
+  dairy: {
+    label: 'Dairy',
+    aliases: ['dairy', 'milk', 'lactose', 'casein', 'whey'],
+    terms: [
+      'milk', 'butter', 'cream', 'cheese', 'yogurt', 'yoghurt', 'ghee', 'whey', 'casein', 'lactose', 'buttermilk', 'kefir',
+      'curd', 'custard', 'paneer', 'ricotta', 'mozzarella', 'parmesan', 'parmigiano', 'pecorino', 'cheddar', 'feta', 'brie',
+      'camembert', 'gouda', 'gruyere', 'halloumi', 'burrata', 'mascarpone', 'labneh', 'creme fraiche', 'crème fraîche',
+      'bechamel', 'béchamel', 'alfredo', 'tzatziki', 'raita', 'queso', 'gelato', 'half and half',
+    ],
+    exclusions: [
+      'coconut milk', 'coconut cream', 'coconut yogurt', 'almond milk', 'oat milk', 'soy milk', 'soya milk', 'rice milk',
+      'cashew milk', 'plant milk', 'nut milk', 'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'cocoa butter',
+      'shea butter', 'apple butter', 'butter bean', 'cream of tartar', 'vegan butter', 'vegan cheese', 'bean curd',
+    ],
+  },
+  egg: {
+    label: 'Egg',
+    aliases: ['egg'],
+    terms: [
+      'egg', 'egg yolk', 'egg white', 'mayonnaise', 'mayo', 'meringue', 'aioli', 'hollandaise', 'custard', 'albumen',
+      'frittata', 'omelette', 'omelet', 'quiche', 'brioche', 'egg noodle',
+    ],
+    exclusions: ['vegan mayo', 'vegan mayonnaise'],
+  },
+  gluten: {
+    label: 'Gluten',
+    aliases: ['gluten', 'wheat', 'coeliac', 'celiac'],
+    terms: [
+      'wheat', 'flour', 'bread', 'breadcrumb', 'panko', 'crouton', 'pasta', 'spaghetti', 'penne', 'fusilli', 'linguine',
+      'tagliatelle', 'macaroni', 'lasagna', 'lasagne', 'orzo', 'gnocchi', 'noodle', 'udon', 'ramen', 'couscous', 'bulgur',
+      'semolina', 'durum', 'barley', 'rye', 'spelt', 'farro', 'seitan', 'malt', 'beer', 'soy sauce', 'tortilla', 'pita',
+      'pitta', 'naan', 'baguette', 'bagel', 'croissant', 'pastry', 'cracker', 'roux',
+    ],
+    exclusions: [
+      'buckwheat', 'rice noodle', 'rice flour', 'almond flour', 'coconut flour', 'chickpea flour', 'gram flour', 'corn flour',
+      'cornflour', 'corn tortilla', 'tapioca flour', 'potato flour', 'rice paper', 'gluten free bread', 'gluten free pasta',
+    ],
+  },
+  soy: {
+    label: 'Soy',
+    aliases: ['soy', 'soya'],
+    terms: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari', 'shoyu', 'natto', 'bean curd'],
+    exclusions: [],
+  },
+  fish: {
+    label: 'Fish',
+    aliases: ['fish'],
+    terms: [
+      'fish', 'salmon', 'tuna', 'cod', 'haddock', 'pollock', 'anchovy', 'sardine', 'mackerel', 'trout', 'tilapia', 'halibut',
+      'sea bass', 'snapper', 'herring', 'fish sauce', 'worcestershire', 'caesar dressing', 'bonito', 'dashi',
+    ],
+    exclusions: [],
+  },
+  shellfish: {
+    label: 'Shellfish',
+    aliases: ['shellfish', 'crustacean', 'mollusc', 'mollusk', 'shrimp', 'prawn'],
+    terms: [
+      'shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'langoustine', 'scampi', 'krill', 'mussel', 'clam',
+      'oyster', 'scallop', 'squid', 'calamari', 'octopus', 'cuttlefish', 'oyster sauce',
+    ],
+    exclusions: ['oyster mushroom', 'crab apple'],
+  },
+  sesame: {
+    label: 'Sesame',
+    aliases: ['sesame'],
+    terms: ['sesame', 'tahini', 'halva', 'halvah', 'hummus', 'houmous', "za'atar", 'zaatar', 'gomasio', 'benne'],
+    exclusions: [],
+  },
+  mustard: {
+    label: 'Mustard',
+    aliases: ['mustard'],
+    terms: ['mustard', 'dijon'],
+    exclusions: [],
+  },
+  celery: {
+    label: 'Celery',
+    aliases: ['celery', 'celeriac'],
+    terms: ['celery', 'celeriac', 'celery salt'],
+    exclusions: [],
+  },
+  sulphite: {
+    label: 'Sulphites',
+    aliases: ['sulphite', 'sulfite'],
+    terms: ['sulphite', 'sulfite', 'wine', 'dried apricot', 'vinegar'],
+    exclusions: [],
+  },
+};
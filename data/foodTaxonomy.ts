@@ -0,0 +1,112 @@
+import { FoodCategory } from '../types';
+
+export const FOOD_CATEGORY_INFO: Record<FoodCategory, { label: string; icon: string }> = {
+  produce: { label: 'Vegetables', icon: '🥦' },
+  fruit: { label: 'Fruit', icon: '🍎' },
+  herbs: { label: 'Fresh Herbs', icon: '🌿' },
+  dairy: { label: 'Dairy', icon: '🥛' },
+  cheese: { label: 'Cheese', icon: '🧀' },
+  eggs: { label: 'Eggs', icon: '🥚' },
+  meat: { label: 'Meat', icon: '🥩' },
+  poultry: { label: 'Poultry', icon: '🍗' },
+  seafood: { label: 'Fish & Seafood', icon: '🐟' },
+  deli: { label: 'Deli & Cured', icon: '🥓' },
+  bakery: { label: 'Bakery', icon: '🍞' },
+  grains: { label: 'Pantry & Grains', icon: '🌾' },
+  canned: { label: 'Canned & Jarred', icon: '🥫' },
+  condiments: { label: 'Sauces & Condiments', icon: '🧂' },
+  beverages: { label: 'Drinks', icon: '🧃' },
+  leftovers: { label: 'Leftovers', icon: '🍱' },
+  frozen: { label: 'Frozen', icon: '🧊' },
+  other: { label: 'Other', icon: '📦' },
+};
+
+// Bundled food taxonomy. Each entry is "canonical name|synonym|synonym...", written in the
+// singular; plurals are handled by normalisation at lookup time.
+export const FOOD_TAXONOMY: Record<FoodCategory, string[]> = {
+  produce: [
+    'carrot', 'lettuce|romaine|iceberg|little gem', 'spinach|baby spinach', 'kale|cavolo nero', 'arugula|rocket',
+    'tomato|cherry tomato|roma tomato|plum tomato', 'bell pepper|capsicum|sweet pepper|pepper', 'chili|chilli|chile|jalapeno|serrano',
+    'onion|red onion|white onion|yellow onion', 'shallot', 'spring onion|scallion|green onion', 'leek', 'garlic|garlic bulb',
+    'potato|russet|yukon gold', 'sweet potato|yam', 'broccoli', 'broccolini|tenderstem', 'cauliflower', 'cabbage|red cabbage|savoy cabbage',
+    'brussels sprout', 'cucumber', 'zucchini|courgette', 'eggplant|aubergine', 'mushroom|button mushroom|cremini|portobello|shiitake|oyster mushroom',
+    'celery', 'asparagus', 'green bean|string bean|french bean', 'pea|snap pea|snow pea|mangetout', 'corn|sweetcorn|corn on the cob',
+    'beetroot|beet', 'radish', 'turnip', 'parsnip', 'squash|butternut squash|acorn squash', 'pumpkin', 'artichoke', 'fennel',
+    'bok choy|pak choi', 'okra', 'ginger|ginger root', 'bean sprout', 'watercress', 'chard|swiss chard', 'celeriac', 'kohlrabi',
+  ],
+  fruit: [
+    'apple', 'banana', 'orange|clementine|mandarin|satsuma|tangerine', 'lemon', 'lime', 'grapefruit', 'strawberry', 'blueberry',
+    'raspberry', 'blackberry', 'cranberry', 'grape', 'pear', 'peach', 'nectarine', 'plum', 'apricot', 'cherry', 'mango', 'pineapple',
+    'melon|cantaloupe|honeydew', 'watermelon', 'kiwi|kiwifruit', 'avocado', 'pomegranate', 'papaya', 'fig', 'date', 'passion fruit',
+    'coconut', 'lychee', 'rhubarb', 'persimmon',
+  ],
+  herbs: [
+    'basil', 'cilantro|coriander|coriander leaf', 'parsley|flat leaf parsley|italian parsley', 'mint', 'dill', 'thyme', 'rosemary',
+    'chive', 'sage', 'oregano', 'tarragon', 'lemongrass', 'bay leaf', 'curry leaf', 'microgreen',
+  ],
+  dairy: [
+    'milk|whole milk|skim milk|semi skimmed milk|2% milk', 'buttermilk', 'cream|double cream|single cream|heavy cream|whipping cream|light cream',
+    'sour cream|creme fraiche', 'yogurt|yoghurt|greek yogurt|natural yogurt', 'butter|unsalted butter|salted butter', 'ghee', 'kefir',
+    'custard', 'condensed milk', 'evaporated milk', 'half and half',
+  ],
+  cheese: [
+    'cheese', 'cheddar', 'mozzarella|buffalo mozzarella', 'parmesan|parmigiano|parmigiano reggiano', 'pecorino', 'feta', 'goat cheese|chevre',
+    'brie', 'camembert', 'gouda', 'edam', 'emmental|swiss cheese', 'gruyere', 'halloumi', 'paneer', 'ricotta', 'mascarpone',
+    'cream cheese|philadelphia', 'cottage cheese', 'blue cheese|gorgonzola|stilton|roquefort', 'manchego', 'provolone', 'monterey jack',
+  ],
+  eggs: ['egg|hen egg|free range egg', 'quail egg', 'egg white', 'egg yolk'],
+  meat: [
+    'beef|beef steak|sirloin|ribeye|brisket|chuck', 'steak', 'ground beef|minced beef|beef mince|hamburger meat', 'pork|pork chop|pork loin|pork shoulder|pork belly',
+    'ground pork|pork mince', 'lamb|lamb chop|lamb shoulder|leg of lamb', 'ground lamb|lamb mince', 'veal', 'venison', 'goat meat|mutton',
+    'rib|spare rib', 'burger patty|beef patty', 'mince|ground meat', 'liver',
+  ],
+  poultry: [
+    'chicken|whole chicken', 'chicken breast', 'chicken thigh', 'chicken wing', 'chicken drumstick|drumstick', 'ground chicken|chicken mince',
+    'turkey|turkey breast', 'ground turkey|turkey mince', 'duck|duck breast', 'quail',
+  ],
+  seafood: [
+    'fish', 'salmon|salmon fillet', 'smoked salmon|lox', 'tuna|tuna steak', 'cod', 'haddock', 'tilapia', 'trout', 'sea bass|seabass',
+    'mackerel', 'sardine', 'anchovy', 'halibut', 'shrimp|prawn|king prawn', 'crab|crab meat', 'lobster', 'mussel', 'clam', 'oyster',
+    'scallop', 'squid|calamari', 'octopus',
+  ],
+  deli: [
+    'ham', 'bacon|streaky bacon|back bacon|pancetta', 'salami|pepperoni|chorizo', 'prosciutto|parma ham', 'sausage|bratwurst|banger',
+    'hot dog|frankfurter|wiener', 'turkey slice|sliced turkey', 'roast beef slice', 'pate', 'hummus', 'tofu|firm tofu|silken tofu', 'tempeh',
+  ],
+  bakery: [
+    'bread|loaf|sourdough|white bread|whole wheat bread|rye bread', 'baguette', 'bagel', 'tortilla|wrap', 'pita|pitta', 'naan',
+    'bun|hamburger bun|hot dog bun|brioche', 'roll|bread roll|dinner roll', 'croissant', 'english muffin', 'muffin', 'crumpet',
+    'cake', 'pastry|puff pastry|shortcrust pastry', 'pie crust', 'pizza dough|pizza base',
+  ],
+  grains: [
+    'rice|basmati|jasmine rice|brown rice|arborio', 'pasta|spaghetti|penne|fusilli|linguine|macaroni|lasagne sheet|tagliatelle',
+    'noodle|egg noodle|rice noodle|udon|soba|ramen noodle', 'couscous', 'quinoa', 'oat|rolled oat|porridge oat|oatmeal', 'flour|plain flour|all purpose flour|self raising flour|bread flour',
+    'cereal|granola|muesli|cornflake', 'lentil|red lentil|green lentil', 'chickpea|garbanzo', 'bean|black bean|kidney bean|cannellini bean|pinto bean',
+    'barley', 'bulgur', 'polenta|cornmeal', 'breadcrumb|panko', 'cracker', 'sugar|brown sugar|caster sugar|icing sugar', 'honey', 'maple syrup',
+    'almond', 'walnut', 'cashew', 'peanut', 'pecan', 'pistachio', 'hazelnut', 'seed|sesame seed|chia seed|sunflower seed|pumpkin seed|flaxseed',
+    'chocolate|dark chocolate', 'cocoa|cocoa powder', 'baking powder', 'baking soda|bicarbonate of soda', 'yeast', 'stock cube|bouillon',
+  ],
+  canned: [
+    'canned tomato|chopped tomato|tinned tomato|crushed tomato|passata|tomato puree', 'tomato paste', 'canned bean|baked bean',
+    'canned tuna|tinned tuna', 'canned corn|tinned corn', 'coconut milk|coconut cream', 'canned chickpea', 'olive|black olive|green olive|kalamata',
+    'pickle|gherkin|cornichon', 'caper', 'sun dried tomato', 'jarred pepper|roasted red pepper', 'canned soup|soup', 'broth|stock|chicken stock|vegetable stock|beef stock',
+  ],
+  condiments: [
+    'ketchup|tomato ketchup', 'mustard|dijon|dijon mustard|wholegrain mustard', 'mayonnaise|mayo', 'soy sauce|tamari|shoyu', 'fish sauce',
+    'oyster sauce', 'hoisin', 'sriracha|hot sauce|chili sauce|tabasco', 'bbq sauce|barbecue sauce', 'worcestershire sauce', 'salsa',
+    'pesto', 'jam|jelly|preserve|marmalade', 'peanut butter', 'nut butter|almond butter', 'tahini', 'vinegar|balsamic|balsamic vinegar|cider vinegar|rice vinegar',
+    'olive oil|extra virgin olive oil', 'vegetable oil|canola oil|sunflower oil|rapeseed oil', 'sesame oil', 'coconut oil', 'salad dressing|dressing|vinaigrette',
+    'curry paste', 'miso', 'gochujang', 'harissa', 'salt|sea salt|kosher salt', 'black pepper|peppercorn', 'spice|paprika|cumin|turmeric|cinnamon|curry powder|chili powder|garam masala|nutmeg',
+  ],
+  beverages: [
+    'juice|orange juice|apple juice', 'soda|cola|soft drink|lemonade', 'sparkling water|soda water|tonic', 'water|bottled water',
+    'beer|lager|ale', 'wine|red wine|white wine|rose', 'cider', 'kombucha', 'iced tea', 'coffee|cold brew', 'tea', 'plant milk|oat milk|almond milk|soy milk|rice milk',
+    'smoothie', 'energy drink', 'sports drink',
+  ],
+  leftovers: ['leftover', 'takeout|takeaway', 'cooked rice', 'cooked pasta', 'meal prep', 'stew', 'curry', 'casserole', 'lasagna'],
+  frozen: [
+    'frozen pea', 'frozen vegetable|mixed vegetable', 'frozen berry', 'frozen pizza', 'ice cream|gelato', 'sorbet', 'frozen fish|fish finger|fish stick',
+    'frozen chicken|chicken nugget', 'frozen fries|french fries|chips', 'ice|ice cube', 'frozen meal|ready meal',
+  ],
+  other: [],
+};
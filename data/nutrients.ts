@@ -0,0 +1,159 @@
+import { NutritionFacts } from '../types';
+
+export interface NutrientEntry {
+  per100g: NutritionFacts;
+  // Grams in one of a count-style unit, e.g. { piece: 50 } for an egg or { clove: 5 } for garlic.
+  gramsPer: Record<string, number>;
+  gramsPerMl: number; // Density, for volume measures (water = 1)
+}
+
+function N(
+  calories: number,
+  proteinGrams: number,
+  carbsGrams: number,
+  fatGrams: number,
+  fiberGrams: number,
+  sodiumMg: number,
+  gramsPer: Record<string, number> = {},
+  gramsPerMl = 1,
+): NutrientEntry {
+  return { per100g: { calories, proteinGrams, carbsGrams, fatGrams, fiberGrams, sodiumMg }, gramsPer, gramsPerMl };
+}
+
+// Approximate values per 100 g (USDA FoodData Central, raw unless noted), keyed like the food
+// taxonomy: "canonical name|synonym|...", singular. Accuracy is "good enough for a meal estimate".
+export const NUTRIENT_TABLE: Record<string, NutrientEntry> = {
+  // Vegetables
+  'onion|red onion|white onion|yellow onion': N(40, 1.1, 9.3, 0.1, 1.7, 4, { piece: 110 }),
+  'shallot': N(72, 2.5, 16.8, 0.1, 3.2, 12, { piece: 25 }),
+  'spring onion|scallion|green onion': N(32, 1.8, 7.3, 0.2, 2.6, 16, { piece: 15, bunch: 100 }),
+  'garlic': N(149, 6.4, 33, 0.5, 2.1, 17, { clove: 5, piece: 5, head: 40 }, 0.6),
+  'ginger|ginger root': N(80, 1.8, 18, 0.8, 2, 13, { piece: 15 }, 0.6),
+  'carrot': N(41, 0.9, 9.6, 0.2, 2.8, 69, { piece: 60 }, 0.55),
+  'tomato|cherry tomato|roma tomato|plum tomato': N(18, 0.9, 3.9, 0.2, 1.2, 5, { piece: 120, can: 400 }, 0.7),
+  'bell pepper|capsicum|sweet pepper|pepper': N(26, 1, 6, 0.3, 2.1, 4, { piece: 150 }, 0.5),
+  'chili|chilli|chile|jalapeno': N(40, 1.9, 8.8, 0.4, 1.5, 9, { piece: 15 }),
+  'potato': N(77, 2, 17, 0.1, 2.2, 6, { piece: 200 }, 0.65),
+  'sweet potato': N(86, 1.6, 20, 0.1, 3, 55, { piece: 200 }, 0.65),
+  'broccoli': N(34, 2.8, 6.6, 0.4, 2.6, 33, { head: 350, piece: 350 }, 0.4),
+  'cauliflower': N(25, 1.9, 5, 0.3, 2, 30, { head: 600, piece: 600 }, 0.45),
+  'spinach|baby spinach': N(23, 2.9, 3.6, 0.4, 2.2, 79, { handful: 30, bunch: 300, bag: 200 }, 0.13),
+  'kale': N(49, 4.3, 8.8, 0.9, 3.6, 38, { handful: 30, bunch: 200 }, 0.28),
+  'lettuce|romaine|iceberg': N(15, 1.4, 2.9, 0.2, 1.3, 28, { head: 500, piece: 500, handful: 20 }, 0.2),
+  'cabbage': N(25, 1.3, 5.8, 0.1, 2.5, 18, { head: 900, piece: 900 }, 0.38),
+  'cucumber': N(15, 0.7, 3.6, 0.1, 0.5, 2, { piece: 300 }, 0.55),
+  'zucchini|courgette': N(17, 1.2, 3.1, 0.3, 1, 8, { piece: 200 }, 0.55),
+  'eggplant|aubergine': N(25, 1, 5.9, 0.2, 3, 2, { piece: 450 }, 0.35),
+  'mushroom': N(22, 3.1, 3.3, 0.3, 1, 5, { piece: 18, handful: 60 }, 0.3),
+  'celery': N(16, 0.7, 3, 0.2, 1.6, 80, { piece: 40, stick: 40 }, 0.5),
+  'asparagus': N(20, 2.2, 3.9, 0.1, 2.1, 2, { piece: 16, bunch: 250 }, 0.5),
+  'green bean|string bean': N(31, 1.8, 7, 0.2, 2.7, 6, { handful: 50 }, 0.5),
+  'pea|green pea|frozen pea': N(81, 5.4, 14.5, 0.4, 5.1, 5, {}, 0.6),
+  'corn|sweetcorn': N(86, 3.3, 19, 1.4, 2, 15, { piece: 100, can: 285 }, 0.65),
+  'butternut squash|squash|pumpkin': N(45, 1, 11.7, 0.1, 2, 4, { piece: 1000 }, 0.6),
+  'beetroot|beet': N(43, 1.6, 9.6, 0.2, 2.8, 78, { piece: 80 }),
+  'leek': N(61, 1.5, 14, 0.3, 1.8, 20, { piece: 90 }),
+  'avocado': N(160, 2, 8.5, 14.7, 6.7, 7, { piece: 150 }, 0.6),
+  // Fruit
+  'apple': N(52, 0.3, 13.8, 0.2, 2.4, 1, { piece: 180 }, 0.55),
+  'banana': N(89, 1.1, 22.8, 0.3, 2.6, 1, { piece: 118 }, 0.6),
+  'orange': N(47, 0.9, 11.8, 0.1, 2.4, 0, { piece: 130 }),
+  'lemon': N(29, 1.1, 9.3, 0.3, 2.8, 2, { piece: 60 }),
+  'lemon juice|lime juice': N(22, 0.4, 6.9, 0.2, 0.3, 1),
+  'lime': N(30, 0.7, 10.5, 0.2, 2.8, 2, { piece: 45 }),
+  'strawberry': N(32, 0.7, 7.7, 0.3, 2, 1, { piece: 12, handful: 80 }, 0.6),
+  'blueberry|berry|raspberry|blackberry': N(57, 0.7, 14.5, 0.3, 2.4, 1, { handful: 75 }, 0.6),
+  'mango': N(60, 0.8, 15, 0.4, 1.6, 1, { piece: 200 }, 0.7),
+  'pineapple': N(50, 0.5, 13, 0.1, 1.4, 1, { piece: 900 }, 0.7),
+  'grape': N(69, 0.7, 18, 0.2, 0.9, 2, { handful: 80 }, 0.6),
+  'raisin|dried fruit': N(299, 3.1, 79, 0.5, 3.7, 11, { handful: 40 }, 0.6),
+  // Herbs & aromatics (used in small amounts)
+  'basil|cilantro|coriander|parsley|mint|dill|chive': N(30, 2.8, 5, 0.7, 3, 40, { handful: 10, bunch: 30, sprig: 1 }, 0.1),
+  'thyme|rosemary|oregano|sage': N(100, 5, 20, 2, 14, 20, { sprig: 0.5, bunch: 15 }, 0.2),
+  // Dairy & eggs
+  'egg': N(143, 12.6, 0.7, 9.5, 0, 142, { piece: 50, dozen: 600 }),
+  'milk|whole milk': N(61, 3.2, 4.8, 3.3, 0, 43, {}, 1.03),
+  'skim milk|semi skimmed milk': N(42, 3.4, 5, 1, 0, 44, {}, 1.03),
+  'butter': N(717, 0.9, 0.1, 81, 0, 11, { stick: 113, block: 250 }, 0.96),
+  'cream|double cream|heavy cream|whipping cream': N(340, 2.8, 2.7, 36, 0, 38, {}, 1),
+  'sour cream|creme fraiche': N(198, 2.4, 4.6, 19, 0, 31, {}, 1),
+  'yogurt|yoghurt|natural yogurt': N(61, 3.5, 4.7, 3.3, 0, 46, { tub: 500 }, 1.03),
+  'greek yogurt': N(97, 9, 4, 5, 0, 35, { tub: 500 }, 1.03),
+  'cheddar|cheese': N(403, 25, 1.3, 33, 0, 621, { slice: 20 }, 0.45),
+  'mozzarella': N(280, 28, 3.1, 17, 0, 627, { piece: 125 }, 0.45),
+  'parmesan|parmigiano': N(431, 38, 4.1, 29, 0, 1529, {}, 0.4),
+  'feta': N(264, 14, 4.1, 21, 0, 1116, { block: 200 }, 0.5),
+  'cream cheese': N(342, 6, 4, 34, 0, 321, {}, 1),
+  'ricotta': N(174, 11, 3, 13, 0, 84, {}, 1),
+  'paneer': N(296, 20, 3.6, 22, 0, 18, { block: 225 }),
+  'halloumi': N(321, 21, 2.2, 25, 0, 2400, { block: 250 }),
+  // Meat, poultry & seafood
+  'chicken breast': N(120, 22.5, 0, 2.6, 0, 45, { piece: 175, fillet: 175 }),
+  'chicken thigh': N(177, 17, 0, 12, 0, 80, { piece: 110 }),
+  'chicken|chicken wing|chicken drumstick': N(190, 18, 0, 13, 0, 80, { piece: 1200 }),
+  'ground chicken|chicken mince': N(143, 17, 0, 8, 0, 60),
+  'turkey|turkey breast': N(114, 23.7, 0, 1.5, 0, 57),
+  'ground turkey|turkey mince': N(148, 19, 0, 8, 0, 70),
+  'beef|steak|sirloin': N(180, 26, 0, 8, 0, 55, { piece: 225 }),
+  'ground beef|minced beef|beef mince|mince': N(254, 17, 0, 20, 0, 66),
+  'pork|pork chop|pork loin': N(143, 21, 0, 6, 0, 55, { piece: 150 }),
+  'ground pork|pork mince': N(263, 17, 0, 21, 0, 56),
+  'lamb|lamb chop': N(282, 17, 0, 23, 0, 59, { piece: 100 }),
+  'bacon|pancetta': N(417, 13, 1.4, 40, 0, 1500, { slice: 10 }),
+  'ham': N(145, 21, 1.5, 6, 0, 1200, { slice: 15 }),
+  'sausage|chorizo': N(301, 12, 2, 27, 0, 800, { piece: 75 }),
+  'salmon|salmon fillet': N(208, 20, 0, 13, 0, 59, { piece: 150, fillet: 150 }),
+  'tuna': N(132, 28, 0, 1.3, 0, 45, { can: 140, piece: 150 }),
+  'canned tuna|tinned tuna': N(116, 26, 0, 0.8, 0, 330, { can: 140 }),
+  'cod|white fish|fish|haddock|tilapia': N(82, 18, 0, 0.7, 0, 54, { piece: 150, fillet: 150 }),
+  'shrimp|prawn': N(85, 20, 0, 0.5, 0, 119, { piece: 12, handful: 80 }),
+  'tofu|firm tofu': N(144, 17, 2.8, 9, 2.3, 14, { block: 400 }),
+  // Grains, legumes & bakery (dry weight unless noted)
+  'rice|basmati|jasmine rice|white rice': N(360, 6.6, 79, 0.6, 1.3, 5, {}, 0.85),
+  'brown rice': N(367, 7.5, 76, 2.7, 3.4, 4, {}, 0.85),
+  'cooked rice': N(130, 2.7, 28, 0.3, 0.4, 1, {}, 0.75),
+  'pasta|spaghetti|penne|fusilli|linguine|macaroni|tagliatelle': N(371, 13, 75, 1.5, 3.2, 6, {}, 0.45),
+  'noodle|egg noodle|rice noodle|udon': N(360, 10, 75, 2, 3, 20, { pack: 200 }, 0.45),
+  'couscous': N(376, 12.8, 77, 0.6, 5, 10, {}, 0.7),
+  'quinoa': N(368, 14, 64, 6, 7, 5, {}, 0.75),
+  'oat|rolled oat|oatmeal': N(389, 16.9, 66, 6.9, 10.6, 2, {}, 0.4),
+  'flour|plain flour|all purpose flour': N(364, 10, 76, 1, 2.7, 2, {}, 0.53),
+  'bread|sourdough|white bread': N(265, 9, 49, 3.2, 2.7, 490, { slice: 30, loaf: 800, piece: 30 }),
+  'whole wheat bread': N(247, 13, 41, 3.4, 7, 450, { slice: 30, loaf: 800, piece: 30 }),
+  'tortilla|wrap': N(310, 8, 52, 8, 3, 600, { piece: 60 }),
+  'breadcrumb|panko': N(395, 13, 72, 5, 4.5, 730, {}, 0.45),
+  'lentil|red lentil|green lentil': N(352, 24.6, 63, 1.1, 10.7, 6, { can: 240 }, 0.8),
+  'chickpea|garbanzo': N(139, 7, 22.5, 2.6, 6.4, 240, { can: 240 }, 0.65),
+  'black bean|kidney bean|cannellini bean|bean|pinto bean': N(114, 7.5, 20, 0.5, 6.5, 200, { can: 240 }, 0.7),
+  // Canned, sauces & condiments
+  'canned tomato|chopped tomato|crushed tomato|passata': N(32, 1.6, 7, 0.3, 1.9, 200, { can: 400 }, 1.03),
+  'tomato paste|tomato puree': N(82, 4.3, 19, 0.5, 4.1, 59, { can: 140 }, 1.1),
+  'coconut milk': N(197, 2, 2.8, 21, 0, 13, { can: 400 }, 1),
+  'stock|broth|chicken stock|vegetable stock|beef stock': N(5, 0.5, 0.4, 0.2, 0, 350, { piece: 500 }, 1),
+  'olive oil|extra virgin olive oil|oil|vegetable oil|canola oil|sunflower oil': N(884, 0, 0, 100, 0, 0, {}, 0.92),
+  'sesame oil': N(884, 0, 0, 100, 0, 0, {}, 0.92),
+  'soy sauce|tamari': N(53, 8, 4.9, 0.6, 0.8, 5500, {}, 1.15),
+  'fish sauce': N(35, 5, 3.6, 0, 0, 7850, {}, 1.2),
+  'honey': N(304, 0.3, 82, 0, 0.2, 4, {}, 1.42),
+  'maple syrup': N(260, 0, 67, 0.1, 0, 12, {}, 1.32),
+  'sugar|brown sugar|caster sugar': N(387, 0, 100, 0, 0, 1, {}, 0.85),
+  'vinegar|balsamic vinegar|cider vinegar|rice vinegar': N(30, 0.3, 4, 0, 0, 10, {}, 1.01),
+  'mustard|dijon mustard': N(66, 4.4, 5.8, 4, 3.3, 1135, {}, 1.05),
+  'mayonnaise|mayo': N(680, 1, 0.6, 75, 0, 635, {}, 0.95),
+  'ketchup': N(101, 1, 27, 0.1, 0.3, 907, {}, 1.15),
+  'peanut butter': N(588, 25, 20, 50, 6, 430, {}, 1.07),
+  'tahini': N(595, 17, 21, 54, 9, 115, {}, 1.05),
+  'pesto': N(418, 5, 6, 42, 1.5, 650, { jar: 190 }, 1),
+  'salsa': N(36, 1.5, 7, 0.2, 1.9, 430, { jar: 300 }, 1.05),
+  'hummus': N(166, 8, 14, 9.6, 6, 380, { tub: 200 }, 1),
+  'curry paste': N(150, 3, 12, 9, 4, 2500, { jar: 190 }, 1.05),
+  // Nuts & seeds
+  'almond|walnut|cashew|pecan|hazelnut|nut': N(600, 18, 20, 52, 8, 5, { handful: 30 }, 0.55),
+  'peanut': N(567, 26, 16, 49, 8.5, 18, { handful: 30 }, 0.55),
+  'seed|sesame seed|chia seed|sunflower seed|pumpkin seed': N(570, 20, 25, 45, 15, 10, {}, 0.6),
+  // Seasonings (sodium matters even in small amounts)
+  'salt|sea salt|kosher salt': N(0, 0, 0, 0, 0, 38758, { piece: 1 }, 1.2),
+  'black pepper|peppercorn': N(251, 10, 64, 3.3, 25, 20, { piece: 0.5 }, 0.5),
+  'spice|paprika|cumin|turmeric|cinnamon|curry powder|chili powder|garam masala': N(300, 12, 55, 12, 30, 60, {}, 0.5),
+  'water': N(0, 0, 0, 0, 0, 0, {}, 1),
+};
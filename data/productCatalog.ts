@@ -0,0 +1,10 @@
+import { CatalogProduct } from '../types';
+
+// Packaged products keyed by EAN-13 (UPC-A codes are stored with a leading 0). Only a few
+// widely sold products ship here: most codes, and every in-store code starting with 2, differ
+// from shop to shop. Codes the user names in the scanner are saved to their own table
+// (PersistedState.productCodes) and looked up before this one.
+export const PRODUCT_CATALOG: Record<string, CatalogProduct> = {
+  '3017620422003': { name: 'hazelnut spread', brand: 'Nutella', category: 'condiments', packSize: '400 g', shelfLifeDays: 365, storage: 'pantry' },
+  '5449000000996': { name: 'cola', brand: 'Coca-Cola', category: 'beverages', packSize: '330 ml', shelfLifeDays: 270, storage: 'pantry' },
+};
@@ -0,0 +1,30 @@
+// Shorthand printed on supermarket receipts, expanded word by word (lower-case).
+// Only abbreviations that are unambiguous in a grocery context belong here.
+export const RECEIPT_ABBREVIATIONS: Record<string, string> = {
+  // Meat, poultry and fish
+  chkn: 'chicken', chk: 'chicken', brst: 'breast', thgh: 'thigh', thghs: 'thighs', drmstk: 'drumstick',
+  bnls: 'boneless', sknls: 'skinless', bf: 'beef', grnd: 'ground', prk: 'pork', lmb: 'lamb', bcn: 'bacon', saus: 'sausage',
+  sausg: 'sausage', hm: 'ham', trky: 'turkey', slmn: 'salmon', tna: 'tuna', shrmp: 'shrimp', fsh: 'fish',
+  // Dairy and eggs
+  mlk: 'milk', whl: 'whole', smi: 'semi', skmd: 'skimmed', chs: 'cheese', ched: 'cheddar', mozz: 'mozzarella',
+  parm: 'parmesan', yog: 'yogurt', ygrt: 'yogurt', yogh: 'yogurt', bttr: 'butter', btr: 'butter', crm: 'cream',
+  sr: 'sour',
+  // Produce
+  tom: 'tomato', toms: 'tomatoes', pot: 'potato', pots: 'potatoes', onn: 'onion', onns: 'onions',
+  ppr: 'pepper', pep: 'pepper', lett: 'lettuce', spin: 'spinach', brocc: 'broccoli', broc: 'broccoli',
+  caulif: 'cauliflower', crrt: 'carrot', crrts: 'carrots', cuc: 'cucumber', cucmbr: 'cucumber', mush: 'mushroom',
+  mshrm: 'mushroom', mshrms: 'mushrooms', grlc: 'garlic', bana: 'banana', bnna: 'banana', bnnas: 'bananas',
+  appl: 'apple', appls: 'apples', strwb: 'strawberry', strawb: 'strawberry', bluebs: 'blueberries',
+  avo: 'avocado', avoc: 'avocado', lmn: 'lemon', lme: 'lime', grps: 'grapes', grn: 'green', rd: 'red', ylw: 'yellow',
+  // Bakery and pantry
+  brd: 'bread', wht: 'white', whlml: 'wholemeal', bgl: 'bagel', bgls: 'bagels', tort: 'tortilla', pst: 'pasta',
+  spag: 'spaghetti', rce: 'rice', flr: 'flour', sgr: 'sugar', cer: 'cereal', oj: 'orange juice', jce: 'juice',
+  choc: 'chocolate', veg: 'vegetable', vegs: 'vegetables', frz: 'frozen', frzn: 'frozen',
+};
+
+// Marketing and packaging words that say nothing about what the item is.
+export const RECEIPT_FILLER_WORDS = new Set([
+  'org', 'organic', 'value', 'essential', 'essentials', 'basics', 'finest', 'premium', 'select', 'choice',
+  'pk', 'pack', 'ct', 'each', 'ea', 'bag', 'btl', 'bottle', 'tub', 'jar', 'can', 'tin', 'box', 'pkt', 'lg', 'sm',
+  'xl', 'med', 'kg', 'g', 'l', 'ml', 'lb', 'oz',
+]);
@@ -0,0 +1,24 @@
+import { FoodCategory, StorageLocation } from '../types';
+
+// Typical days a food keeps from purchase, per category and where it is stored.
+// Conservative household figures (USDA FoodKeeper-style); user-entered dates always win.
+export const SHELF_LIFE_DAYS: Record<FoodCategory, Record<StorageLocation, number>> = {
+  produce:    { fridge: 7,  freezer: 240, pantry: 4 },
+  fruit:      { fridge: 10, freezer: 240, pantry: 5 },
+  herbs:      { fridge: 7,  freezer: 120, pantry: 2 },
+  dairy:      { fridge: 7,  freezer: 90,  pantry: 1 },
+  cheese:     { fridge: 21, freezer: 180, pantry: 1 },
+  eggs:       { fridge: 28, freezer: 365, pantry: 7 },
+  meat:       { fridge: 4,  freezer: 180, pantry: 0 },
+  poultry:    { fridge: 2,  freezer: 270, pantry: 0 },
+  seafood:    { fridge: 2,  freezer: 120, pantry: 0 },
+  deli:       { fridge: 5,  freezer: 60,  pantry: 0 },
+  bakery:     { fridge: 10, freezer: 90,  pantry: 5 },
+  grains:     { fridge: 180, freezer: 365, pantry: 365 },
+  canned:     { fridge: 5,  freezer: 60,  pantry: 730 },
+  condiments: { fridge: 90, freezer: 180, pantry: 180 },
+  beverages:  { fridge: 10, freezer: 90,  pantry: 180 },
+  leftovers:  { fridge: 4,  freezer: 90,  pantry: 0 },
+  frozen:     { fridge: 2,  freezer: 180, pantry: 0 },
+  other:      { fridge: 7,  freezer: 90,  pantry: 30 },
+};
@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import usePersistentState from './usePersistentState';
+import storageService, { InMemoryStorageAdapter, SCHEMA_VERSION } from '../services/storageService';
+
+describe('usePersistentState', () => {
+  let adapter: InMemoryStorageAdapter;
+
+  beforeEach(() => {
+    adapter = new InMemoryStorageAdapter({ __schemaVersion: SCHEMA_VERSION, healthLog: ['Stored entry'] });
+    storageService.useAdapter(adapter);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('hydrates from storage without writing the loaded value back', async () => {
+    const set = vi.spyOn(adapter, 'set');
+    const { result } = renderHook(() => usePersistentState('healthLog', []));
+    expect(result.current[0]).toEqual([]);
+    expect(result.current[2]).toBe(false);
+    await waitFor(() => expect(result.current[2]).toBe(true));
+    expect(result.current[0]).toEqual(['Stored entry']);
+    expect(set).not.toHaveBeenCalled();
+  });
+
+  it('writes every later change through', async () => {
+    const { result } = renderHook(() => usePersistentState('healthLog', []));
+    await waitFor(() => expect(result.current[2]).toBe(true));
+    act(() => result.current[1]((prev) => [...prev, 'New entry']));
+    await waitFor(async () => expect(await adapter.get('healthLog')).toEqual(['Stored entry', 'New entry']));
+  });
+
+  it('stores the initial value for a key that was never saved', async () => {
+    const { result } = renderHook(() => usePersistentState('shoppingList', []));
+    await waitFor(() => expect(result.current[2]).toBe(true));
+    await waitFor(async () => expect(await adapter.get('shoppingList')).toEqual([]));
+  });
+});
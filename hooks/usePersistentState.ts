@@ -0,0 +1,44 @@
+import React, { useState, useEffect, useRef } from 'react';
+import storageService from '../services/storageService';
+import { PersistedState } from '../types';
+
+// useState that hydrates from storageService on mount and writes every later change through.
+// The third tuple value flips to true once the stored value (if any) has been loaded.
+function usePersistentState<K extends keyof PersistedState>(
+  key: K,
+  initialValue: PersistedState[K],
+): [PersistedState[K], React.Dispatch<React.SetStateAction<PersistedState[K]>>, boolean] {
+  const [value, setValue] = useState<PersistedState[K]>(initialValue);
+  const [isHydrated, setIsHydrated] = useState<boolean>(false);
+  // Tracks the value we last loaded or saved so hydration doesn't immediately echo back.
+  const lastPersistedRef = useRef<PersistedState[K] | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    storageService.load(key)
+      .then((stored) => {
+        if (cancelled) return;
+        if (stored !== undefined) {
+          lastPersistedRef.current = stored;
+          setValue(stored);
+        }
+      })
+      .catch((err) => console.error(`Failed to load "${key}" from storage:`, err))
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!isHydrated || value === lastPersistedRef.current) return;
+    lastPersistedRef.current = value;
+    storageService.save(key, value).catch((err) => console.error(`Failed to save "${key}" to storage:`, err));
+  }, [key, value, isHydrated]);
+
+  return [value, setValue, isHydrated];
+}
+
+export default usePersistentState;
@@ -0,0 +1,57 @@
+import { ALARM_MAX_RINGING_MS } from '../constants';
+
+// Timer alarms are synthesized with Web Audio rather than shipped as sound files. One context is
+// shared by every alarm; browsers only let it play once a user gesture has resumed it.
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return null;
+    audioContext = new AudioContextClass();
+  }
+  return audioContext;
+}
+
+// Call from a tap (e.g. starting a timer or a voice session) so the alarm is allowed to sound later.
+export function primeAlarm(): void {
+  const context = getAudioContext();
+  if (context?.state === 'suspended') void context.resume().catch(() => undefined);
+}
+
+// Three short beeps.
+function playBeeps(context: AudioContext): void {
+  const start = context.currentTime;
+  for (let i = 0; i < 3; i += 1) {
+    const at = start + i * 0.25;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.0001, at);
+    gain.gain.exponentialRampToValueAtTime(0.2, at + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + 0.18);
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(at);
+    oscillator.stop(at + 0.2);
+  }
+}
+
+// Beeps every second or so until stopped, or until ALARM_MAX_RINGING_MS has passed. Returns the stop function.
+export function startAlarm(): () => void {
+  const context = getAudioContext();
+  if (!context) return () => undefined;
+  void context.resume().catch(() => undefined);
+  const ring = () => {
+    playBeeps(context);
+    navigator.vibrate?.([200, 100, 200]);
+  };
+  ring();
+  const interval = window.setInterval(ring, 1200);
+  const timeout = window.setTimeout(() => window.clearInterval(interval), ALARM_MAX_RINGING_MS);
+  return () => {
+    window.clearInterval(interval);
+    window.clearTimeout(timeout);
+  };
+}
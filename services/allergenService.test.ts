@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe } from '../types';
+import { checkRecipeSafety, findAllergenTerms, resolveAllergens } from './allergenService';
+import { DEFAULT_USER_PROFILE } from './profileService';
+
+const [dairy] = resolveAllergens(['dairy']);
+const [peanut] = resolveAllergens(['peanut']);
+
+function recipeWith(ingredients: string[], instructions: string[] = []): Recipe {
+  return { name: 'Test', summary: '', healthInsight: '', ingredients, instructions };
+}
+
+describe('findAllergenTerms', () => {
+  it.each([
+    ['1 cup fat-free milk', 'milk'],
+    ['gluten-free butter cookies', 'butter'],
+    ['sugar free cream cheese', 'cream'],
+    ['nut-free cheese sauce', 'cheese'],
+  ])('keeps the noun after an unrelated "-free" in %j', (line, term) => {
+    expect(findAllergenTerms(line, dairy)).toContain(term);
+  });
+
+  it('finds peanut butter after "sugar-free"', () => {
+    expect(findAllergenTerms('2 tbsp sugar-free peanut butter', peanut)).toEqual(['peanut']);
+  });
+
+  it.each([
+    'peanut-free granola',
+    'use sunflower butter without peanuts',
+    'no peanut',
+    'omit the peanuts if serving children',
+  ])('discounts the allergen itself when %j rules it out', (line) => {
+    expect(findAllergenTerms(line, peanut)).toEqual([]);
+  });
+
+  it('still finds the allergen named after a ruled-out one', () => {
+    expect(findAllergenTerms('without cream, add butter instead', dairy)).toEqual(['butter']);
+  });
+
+  it('prefers the longest term and skips safe phrases', () => {
+    expect(findAllergenTerms('2 tbsp peanut butter', dairy)).toEqual([]);
+    expect(findAllergenTerms('1 cup coconut milk', dairy)).toEqual([]);
+    expect(findAllergenTerms('4 slices cheddar cheese', dairy)).toEqual(['cheddar', 'cheese']);
+  });
+});
+
+describe('checkRecipeSafety', () => {
+  const profile = { ...DEFAULT_USER_PROFILE, allergens: ['dairy'], intolerances: ['peanut'] };
+
+  it('blocks a recipe with fat-free milk for a dairy allergy', () => {
+    const report = checkRecipeSafety(recipeWith(['1 cup fat-free milk', '200 g oats']), profile);
+    expect(report.status).toBe('blocked');
+    expect(report.findings).toMatchObject([{ allergen: 'Dairy', term: 'milk', severity: 'allergy' }]);
+  });
+
+  it('only flags intolerances', () => {
+    const report = checkRecipeSafety(recipeWith(['2 tbsp sugar-free peanut butter']), profile);
+    expect(report.status).toBe('flagged');
+    expect(report.findings).toMatchObject([{ allergen: 'Peanut', term: 'peanut', severity: 'intolerance' }]);
+  });
+
+  it('passes a recipe that only mentions dairy to rule it out', () => {
+    const report = checkRecipeSafety(recipeWith(['1 cup oat milk'], ['Cook without butter.']), profile);
+    expect(report).toEqual({ status: 'safe', findings: [] });
+  });
+});
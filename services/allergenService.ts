@@ -0,0 +1,131 @@
+import { AllergenId, Recipe, UserProfile } from '../types';
+import { ALLERGEN_LEXICON } from '../data/allergenLexicon';
+
+// An allergen the user listed, resolved to the lexicon where possible. Entries the lexicon
+// doesn't know (e.g. "kiwi") are matched literally.
+export interface ResolvedAllergen {
+  id: AllergenId | null;
+  label: string;
+  terms: string[];
+  exclusions: string[];
+}
+
+export interface AllergenFinding {
+  allergen: string; // Label, e.g. 'Dairy'
+  term: string; // What matched, e.g. 'butter'
+  line: string; // The ingredient line or instruction it was found in
+  source: 'ingredient' | 'instruction';
+  severity: 'allergy' | 'intolerance';
+}
+
+// 'blocked' when an allergy is present, 'flagged' when only intolerances are.
+export type RecipeSafetyStatus = 'safe' | 'flagged' | 'blocked';
+
+export interface RecipeSafetyReport {
+  status: RecipeSafetyStatus;
+  findings: AllergenFinding[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match that also accepts a plural ending ("peanut" matches "peanuts").
+function termPattern(term: string): RegExp {
+  return new RegExp(`(?<![a-z])${escapeRegExp(term)}(?:s|es)?(?![a-z])`, 'g');
+}
+
+// Phrases that rule the term right after them out: "without peanuts", "instead of cream".
+const RULING_OUT_WORDS = '(?:without|no|omit|omitting|skip|skipping|instead of|in place of|swap out|replace)';
+
+function prepareText(text: string): string {
+  return text.toLowerCase().replace(/[-_/]/g, ' ');
+}
+
+// Where the term itself is explicitly ruled out, as in "peanut-free" or "without peanuts". Only the
+// term is discounted: "dairy-free butter" still contains butter, and so does "fat-free milk" milk.
+function ruledOutPattern(term: string): RegExp {
+  const word = `${escapeRegExp(term)}(?:s|es)?(?![a-z])`;
+  return new RegExp(`(?<![a-z])${RULING_OUT_WORDS}\\s+(?:the\\s+|any\\s+)?${word}|(?<![a-z])${word} free(?![a-z])`, 'g');
+}
+
+export function resolveAllergens(entries: string[]): ResolvedAllergen[] {
+  const resolved = new Map<string, ResolvedAllergen>();
+  entries.forEach((entry) => {
+    const text = entry.toLowerCase().trim();
+    if (!text) return;
+    const ids = (Object.keys(ALLERGEN_LEXICON) as AllergenId[])
+      .filter((id) => ALLERGEN_LEXICON[id].aliases.some((alias) => termPattern(alias).test(text)));
+    if (ids.length === 0) {
+      const literal = text.replace(/\(.*?\)/g, '').trim();
+      resolved.set(`custom:${literal}`, { id: null, label: entry.trim(), terms: [literal.replace(/(?:e?s)$/, '')], exclusions: [] });
+      return;
+    }
+    ids.forEach((id) => {
+      const { label, terms, exclusions } = ALLERGEN_LEXICON[id];
+      resolved.set(id, { id, label, terms, exclusions });
+    });
+  });
+  return [...resolved.values()];
+}
+
+// Terms of the allergen found in a piece of text, longest first so "peanut butter"
+// is reported rather than just "butter".
+export function findAllergenTerms(text: string, allergen: ResolvedAllergen): string[] {
+  let prepared = prepareText(text);
+  allergen.exclusions.forEach((exclusion) => {
+    prepared = prepared.replace(termPattern(exclusion), ' ');
+  });
+  return [...allergen.terms]
+    .sort((a, b) => b.length - a.length)
+    .filter((term) => {
+      prepared = prepared.replace(ruledOutPattern(term), ' ');
+      const pattern = termPattern(term);
+      if (!pattern.test(prepared)) return false;
+      prepared = prepared.replace(pattern, ' ');
+      return true;
+    });
+}
+
+// Deterministic post-generation check of a recipe against the profile's allergens
+// (which block the recipe) and intolerances (which only flag it).
+export function checkRecipeSafety(recipe: Recipe, profile: UserProfile): RecipeSafetyReport {
+  const findings: AllergenFinding[] = [];
+  const groups: [AllergenFinding['severity'], ResolvedAllergen[]][] = [
+    ['allergy', resolveAllergens(profile.allergens)],
+    ['intolerance', resolveAllergens(profile.intolerances)],
+  ];
+  const sources: [AllergenFinding['source'], string[]][] = [
+    ['ingredient', recipe.ingredients],
+    ['instruction', recipe.instructions],
+  ];
+  groups.forEach(([severity, allergens]) => {
+    allergens.forEach((allergen) => {
+      sources.forEach(([source, lines]) => {
+        lines.forEach((line) => {
+          const terms = findAllergenTerms(line, allergen);
+          if (terms.length > 0) {
+            findings.push({ allergen: allergen.label, term: terms[0], line, source, severity });
+          }
+        });
+      });
+    });
+  });
+  const status: RecipeSafetyStatus = findings.some((finding) => finding.severity === 'allergy')
+    ? 'blocked'
+    : findings.length > 0 ? 'flagged' : 'safe';
+  return { status, findings };
+}
+
+// "Peanut (satay sauce), Dairy (butter)" - one entry per allergen, for badges and prompts.
+export function summarizeFindings(findings: AllergenFinding[]): string {
+  const byAllergen = new Map<string, Set<string>>();
+  findings.forEach((finding) => {
+    const terms = byAllergen.get(finding.allergen) ?? new Set<string>();
+    terms.add(finding.term);
+    byAllergen.set(finding.allergen, terms);
+  });
+  return [...byAllergen.entries()]
+    .map(([allergen, terms]) => `${allergen} (${[...terms].join(', ')})`)
+    .join(', ');
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { expandUpcE, extractGtin, isValidGtin } from './barcodeService';
+
+describe('extractGtin', () => {
+  it('keeps an EAN-13 as it is', () => {
+    expect(extractGtin('3017620422003')).toBe('3017620422003');
+  });
+
+  it('brings UPC-A and GTIN-14 codes to 13 digits', () => {
+    expect(extractGtin('036000291452')).toBe('0036000291452');
+    expect(extractGtin('00036000291452')).toBe('0036000291452');
+  });
+
+  it('keeps an EAN-8', () => {
+    expect(extractGtin('96385074')).toBe('96385074');
+    expect(extractGtin('96385074', 'ean_8')).toBe('96385074');
+  });
+
+  it('expands UPC-E to its UPC-A code before checking it', () => {
+    expect(isValidGtin('04252614')).toBe(false);
+    expect(extractGtin('04252614', 'upc_e')).toBe('0042100005264');
+    expect(extractGtin('04252614')).toBe('0042100005264');
+  });
+
+  it('reads the GTIN from a GS1 Digital Link', () => {
+    expect(extractGtin('https://id.gs1.org/01/09506000134352')).toBe('9506000134352');
+    expect(extractGtin('https://example.com/01/09506000134352/10/ABC?x=1')).toBe('9506000134352');
+  });
+
+  it('refuses wrong check digits and other values', () => {
+    expect(extractGtin('3017620422004')).toBeNull();
+    expect(extractGtin('04252615', 'upc_e')).toBeNull();
+    expect(extractGtin('https://example.com/menu')).toBeNull();
+    expect(extractGtin('12345')).toBeNull();
+  });
+});
+
+describe('expandUpcE', () => {
+  it.each([
+    ['01234505', '012000003455'],
+    ['01234531', '012300000451'],
+    ['01234543', '012340000053'],
+    ['01234565', '012345000065'],
+  ])('expands %s to %s', (upcE, upcA) => {
+    expect(expandUpcE(upcE)).toBe(upcA);
+  });
+
+  it('only takes number systems 0 and 1', () => {
+    expect(expandUpcE('21234505')).toBeNull();
+  });
+});
@@ -0,0 +1,272 @@
+import { CatalogProduct, Ingredient } from '../types';
+import { PRODUCT_CATALOG } from '../data/productCatalog';
+import { parseQuantity } from './quantityService';
+import { addDays, createInventoryItem, deriveFreshness, getShelfLifeDays, toISODate } from './shelfLifeService';
+import foodTaxonomyService from './foodTaxonomyService';
+
+// Pixels as laid out by canvas getImageData: RGBA, row by row.
+export interface PixelData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// --- GTIN codes ---
+
+export function isValidGtin(code: string): boolean {
+  if (!/^\d{8}$|^\d{12,14}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const check = digits.pop()!;
+  // Weights alternate 3, 1, ... counting from the digit next to the check digit
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+// Brings UPC-A (12 digits) and GTIN-14 codes to the 13-digit form the catalog uses.
+export function toEan13(code: string): string {
+  if (code.length === 12) return `0${code}`;
+  if (code.length === 14 && code.startsWith('0')) return code.slice(1);
+  return code;
+}
+
+// The UPC-A code a zero-suppressed UPC-E code stands for, e.g. 04252614 -> 042100005264. The
+// check digit is the UPC-A one, so it can only be validated after expanding.
+export function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) return null;
+  const [system, d1, d2, d3, d4, d5, d6, check] = code.split('');
+  let body: string;
+  if ('012'.includes(d6)) body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  else if (d6 === '3') body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  else if (d6 === '4') body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  else body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${system}${body}${check}`;
+}
+
+// The product code in a scanned value: a plain EAN/UPC, or a GS1 Digital Link QR code
+// such as https://id.gs1.org/01/09506000134352. An 8-digit value is read as UPC-E when the
+// detector says so, or when it doesn't say and the value isn't a valid EAN-8.
+export function extractGtin(value: string, format?: string): string | null {
+  const trimmed = value.trim();
+  let candidate = /^\d+$/.test(trimmed) ? trimmed : trimmed.match(/\/01\/(\d{14})(?:\/|\?|$)/)?.[1];
+  if (candidate?.length === 8 && (format === 'upc_e' || (!format && !isValidGtin(candidate)))) {
+    candidate = expandUpcE(candidate) ?? undefined;
+  }
+  return candidate && isValidGtin(candidate) ? toEan13(candidate) : null;
+}
+
+// --- Built-in EAN-13 / UPC-A decoder, for browsers without BarcodeDetector ---
+
+// Module widths of each digit's L code (space, bar, space, bar). G codes are the same widths
+// reversed; R codes use the L widths starting with a bar.
+const L_WIDTHS = ['3211', '2221', '2122', '1411', '1132', '1231', '1114', '1312', '1213', '3112']
+  .map((pattern) => pattern.split('').map(Number));
+const G_WIDTHS = L_WIDTHS.map((widths) => [...widths].reverse());
+// Which left-half digits use G codes, giving away the leading digit.
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+const EAN13_RUNS = 3 + 24 + 5 + 24 + 3;
+const SCANLINES = 15;
+
+// Alternating run lengths along one row, starting with a light run.
+function toRuns(row: number[]): number[] {
+  const min = Math.min(...row);
+  const max = Math.max(...row);
+  if (max - min < 40) return []; // Too little contrast to hold a barcode
+  const threshold = (min + max) / 2;
+  const runs: number[] = [];
+  let dark = false;
+  let length = 0;
+  row.forEach((value) => {
+    const isDark = value < threshold;
+    if (isDark === dark) {
+      length += 1;
+    } else {
+      runs.push(length);
+      dark = isDark;
+      length = 1;
+    }
+  });
+  runs.push(length);
+  return runs;
+}
+
+// Closest digit for four runs, and how far off the widths were.
+function matchDigit(runs: number[], tables: number[][][]): { digit: number; table: number; error: number } {
+  const unit = runs.reduce((sum, run) => sum + run, 0) / 7;
+  let best = { digit: -1, table: -1, error: Infinity };
+  tables.forEach((table, tableIndex) => {
+    table.forEach((widths, digit) => {
+      const error = widths.reduce((sum, width, i) => sum + Math.abs(runs[i] / unit - width), 0);
+      if (error < best.error) best = { digit, table: tableIndex, error };
+    });
+  });
+  return best;
+}
+
+function isGuard(runs: number[], unit: number): boolean {
+  return runs.every((run) => Math.abs(run / unit - 1) < 0.6);
+}
+
+// Tries to read an EAN-13 starting at runs[start] (the first bar of the start guard).
+function decodeAt(runs: number[], start: number): string | null {
+  if (start + EAN13_RUNS > runs.length) return null;
+  const guard = runs.slice(start, start + 3);
+  const unit = guard.reduce((sum, run) => sum + run, 0) / 3;
+  // The quiet zone before the code must be clearly wider than a module
+  if (!isGuard(guard, unit) || runs[start - 1] < unit * 3) return null;
+
+  let parity = '';
+  let digits = '';
+  let offset = start + 3;
+  for (let i = 0; i < 6; i += 1) {
+    const match = matchDigit(runs.slice(offset, offset + 4), [L_WIDTHS, G_WIDTHS]);
+    if (match.error > 1.5) return null;
+    digits += match.digit;
+    parity += match.table === 0 ? 'L' : 'G';
+    offset += 4;
+  }
+  if (!isGuard(runs.slice(offset, offset + 5), unit)) return null;
+  offset += 5;
+  for (let i = 0; i < 6; i += 1) {
+    const match = matchDigit(runs.slice(offset, offset + 4), [L_WIDTHS]);
+    if (match.error > 1.5) return null;
+    digits += match.digit;
+    offset += 4;
+  }
+  if (!isGuard(runs.slice(offset, offset + 3), unit)) return null;
+
+  const first = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (first === -1) return null;
+  const code = `${first}${digits}`;
+  return isValidGtin(code) ? code : null;
+}
+
+function decodeRow(row: number[]): string | null {
+  for (const values of [row, [...row].reverse()]) { // The barcode may be upside down
+    const runs = toRuns(values);
+    // Odd indexes are dark runs, since toRuns starts with a light one
+    for (let start = 1; start < runs.length; start += 2) {
+      const code = decodeAt(runs, start);
+      if (code) return code;
+    }
+  }
+  return null;
+}
+
+// Reads a roughly horizontal EAN-13 or UPC-A barcode from a frame by scanning a band of
+// rows across the middle, where people aim the camera.
+export function decodeEan13(pixels: PixelData): string | null {
+  const { data, width, height } = pixels;
+  for (let i = 0; i < SCANLINES; i += 1) {
+    // Spread the rows from the centre outwards: middle, just above, just below, ...
+    const step = Math.ceil(i / 2) * (i % 2 === 0 ? 1 : -1);
+    const y = Math.round(height / 2 + (step * height * 0.6) / SCANLINES);
+    if (y < 0 || y >= height) continue;
+    const row: number[] = new Array(width);
+    for (let x = 0; x < width; x += 1) {
+      const p = (y * width + x) * 4;
+      row[x] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    }
+    const code = decodeRow(row);
+    if (code) return code;
+  }
+  return null;
+}
+
+// --- Decoding frames in the browser ---
+
+// The Shape Detection API, where available (Chrome, Android). Not yet in the DOM typings.
+interface BarcodeDetectorLike {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string; format: string }[]>;
+}
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorLike;
+  }
+}
+
+const DETECTOR_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'qr_code'];
+let detector: BarcodeDetectorLike | null | undefined;
+
+function getDetector(): BarcodeDetectorLike | null {
+  if (detector === undefined) {
+    try {
+      detector = window.BarcodeDetector ? new window.BarcodeDetector({ formats: DETECTOR_FORMATS }) : null;
+    } catch {
+      detector = null; // Constructor present but none of the formats supported
+    }
+  }
+  return detector;
+}
+
+// Without the browser's detector only EAN-13 and UPC-A can be read; QR, EAN-8 and UPC-E codes can't.
+export function canReadAllFormats(): boolean {
+  return getDetector() !== null;
+}
+
+// Product codes visible in a video frame or image drawn on `canvas`. Uses the browser's
+// detector when there is one (which also reads QR codes) and the built-in EAN-13 reader otherwise.
+export async function decodeCanvas(canvas: HTMLCanvasElement): Promise<string[]> {
+  const native = getDetector();
+  if (native) {
+    try {
+      const found = await native.detect(canvas);
+      return [...new Set(found.map((barcode) => extractGtin(barcode.rawValue, barcode.format)).filter((code): code is string => code !== null))];
+    } catch (err) {
+      console.error('BarcodeDetector failed, falling back to the built-in reader:', err);
+    }
+  }
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return [];
+  const code = decodeEan13(context.getImageData(0, 0, canvas.width, canvas.height));
+  return code ? [code] : [];
+}
+
+export function decodeImageFile(file: File): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext('2d')?.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      decodeCanvas(canvas).then(resolve, reject);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read ${file.name}.`));
+    };
+    image.src = url;
+  });
+}
+
+// --- Catalog ---
+
+// Codes the user has named come first, so they can also correct a built-in entry.
+export function lookupProduct(code: string, savedProducts: Record<string, CatalogProduct> = {}): CatalogProduct | null {
+  const key = toEan13(code);
+  return savedProducts[key] ?? PRODUCT_CATALOG[key] ?? null;
+}
+
+// A catalog entry for a code the user named by hand, kept in the fridge with the shelf life
+// of its category, so the next scan of the same code needs no typing.
+export function createProductFromEntry(name: string, packSize: string): CatalogProduct {
+  const category = foodTaxonomyService.categorize(name);
+  return { name, category, packSize, shelfLifeDays: getShelfLifeDays(category, 'fridge'), storage: 'fridge' };
+}
+
+// An inventory entry for `count` packs of a catalog product, expiring after the product's
+// own typical shelf life rather than its category's.
+export function createIngredientFromProduct(product: CatalogProduct, count = 1, today: string = toISODate(new Date())): Ingredient {
+  const pack = parseQuantity(product.packSize);
+  const item = createInventoryItem({
+    name: product.name,
+    quantity: { ...pack, amount: pack.amount * count },
+    category: product.category,
+    storage: product.storage,
+    addedOn: today,
+  });
+  const estimated = { ...item, expiresOn: addDays(today, product.shelfLifeDays) };
+  return { ...estimated, freshness: deriveFreshness(estimated, today) };
+}
@@ -0,0 +1,105 @@
+export type CameraFacing = 'environment' | 'user';
+
+// Where camera frames come from. The browser camera in the app; a synthetic stream in tests.
+export interface CameraSource {
+  start(facing: CameraFacing): Promise<MediaStream>;
+  // Whether there is more than one camera to switch between.
+  canSwitchFacing(): Promise<boolean>;
+}
+
+export function stopStream(stream: MediaStream | null): void {
+  stream?.getTracks().forEach((track) => track.stop());
+}
+
+export const browserCameraSource: CameraSource = {
+  async start(facing) {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error('This browser does not support camera access.');
+    }
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: { ideal: facing }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      });
+    } catch (err: any) {
+      if (err?.name === 'NotAllowedError') throw new Error('Camera permission was denied.');
+      if (err?.name === 'NotFoundError') throw new Error('No camera was found on this device.');
+      throw err;
+    }
+  },
+  async canSwitchFacing() {
+    if (!navigator.mediaDevices?.enumerateDevices) return false;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter((device) => device.kind === 'videoinput').length > 1;
+  },
+};
+
+// A camera that films a moving test card, labelled with the facing it was opened with,
+// so capture, retake and switching can be exercised without real hardware.
+export function createFakeCameraSource(width = 640, height = 480): CameraSource {
+  return {
+    async start(facing) {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas is not available for the fake camera.');
+      const stream = canvas.captureStream(15);
+      let frame = 0;
+      const draw = () => {
+        context.fillStyle = facing === 'user' ? '#4c1d95' : '#164e63';
+        context.fillRect(0, 0, width, height);
+        context.fillStyle = '#f59e0b';
+        context.fillRect((frame * 4) % width, height / 2 - 20, 40, 40);
+        context.fillStyle = '#ffffff';
+        context.font = '24px sans-serif';
+        context.fillText(`Fake ${facing} camera · frame ${frame}`, 20, 40);
+        frame += 1;
+      };
+      draw();
+      const interval = window.setInterval(draw, 1000 / 15);
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => window.clearInterval(interval));
+      // captureStream tracks don't fire 'ended' when stopped locally, so wrap stop() as well.
+      stream.getTracks().forEach((track) => {
+        const stop = track.stop.bind(track);
+        track.stop = () => {
+          window.clearInterval(interval);
+          stop();
+        };
+      });
+      return stream;
+    },
+    async canSwitchFacing() {
+      return true;
+    },
+  };
+}
+
+// Draws the current video frame onto `canvas`, scaled down to at most `maxWidth` pixels wide.
+// Returns false while the camera has no frame to give yet.
+export function drawFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement, maxWidth = Infinity): boolean {
+  if (!video.videoWidth || !video.videoHeight) return false;
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext('2d', { willReadFrequently: true })?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return true;
+}
+
+// Grabs the current video frame as a JPEG file ready for the scan queue.
+export function captureFrame(video: HTMLVideoElement, quality = 0.9): Promise<File> {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    if (!drawFrame(video, canvas)) {
+      reject(new Error('The camera is not ready yet.'));
+      return;
+    }
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Could not capture a photo.'));
+        return;
+      }
+      resolve(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', quality);
+  });
+}
@@ -0,0 +1,59 @@
+import { Ingredient, ShoppingListItem, StorageLocation } from '../types';
+import { CHAT_SNAPSHOT_MAX_ITEMS, CHAT_SNAPSHOT_MAX_SHOPPING_ITEMS } from '../constants';
+import { formatQuantity } from './quantityService';
+import { daysUntilExpiry, describeExpiry, getExpiringItems, toISODate } from './shelfLifeService';
+
+// The kitchen as text chat sees it: a few lines in its instructions, rebuilt whenever the fridge
+// or shopping list changes. Large inventories are cut to the items that matter most, expiring
+// first, and the model is pointed at its query tools for the rest.
+
+function describeLine(item: Ingredient): string {
+  return `${item.name} ${formatQuantity(item.quantity)}`;
+}
+
+function countByStorage(inventory: Ingredient[]): string {
+  const counts = new Map<StorageLocation, number>();
+  for (const item of inventory) counts.set(item.storage, (counts.get(item.storage) ?? 0) + 1);
+  return [...counts].map(([storage, count]) => `${count} ${storage}`).join(', ');
+}
+
+export function buildKitchenSnapshot(
+  inventory: Ingredient[],
+  shoppingList: ShoppingListItem[],
+  today: string = toISODate(new Date()),
+): string {
+  const lines = [`Kitchen snapshot for today, ${today}. It is kept up to date; trust it over anything said earlier in the conversation.`];
+
+  if (inventory.length === 0) {
+    lines.push('Inventory: empty.');
+  } else {
+    lines.push(`Inventory: ${inventory.length} item${inventory.length === 1 ? '' : 's'} (${countByStorage(inventory)}).`);
+
+    const expiring = getExpiringItems(inventory, today);
+    const shownExpiring = expiring.slice(0, CHAT_SNAPSHOT_MAX_ITEMS);
+    if (shownExpiring.length > 0) {
+      lines.push(`Use first: ${shownExpiring.map((item) => `${describeLine(item)} (${describeExpiry(item, today).toLowerCase()})`).join('; ')}.`);
+    }
+
+    // The rest by soonest expiry, in whatever room the expiring items left
+    const rest = inventory
+      .filter((item) => !expiring.includes(item))
+      .sort((a, b) => daysUntilExpiry(a, today) - daysUntilExpiry(b, today));
+    const shownRest = rest.slice(0, Math.max(0, CHAT_SNAPSHOT_MAX_ITEMS - shownExpiring.length));
+    if (shownRest.length > 0) lines.push(`Also in stock: ${shownRest.map(describeLine).join('; ')}.`);
+
+    const hidden = inventory.length - shownExpiring.length - shownRest.length;
+    if (hidden > 0) lines.push(`${hidden} more item${hidden === 1 ? ' is' : 's are'} not listed here; call get_inventory to search for them before saying something is missing.`);
+  }
+
+  const open = shoppingList.filter((item) => !item.checked);
+  if (open.length === 0) {
+    lines.push('Shopping list: nothing to buy.');
+  } else {
+    const shown = open.slice(0, CHAT_SNAPSHOT_MAX_SHOPPING_ITEMS).map((item) => (item.quantity ? `${item.name} ${item.quantity}` : item.name));
+    const more = open.length - shown.length;
+    lines.push(`Shopping list (${open.length} to buy): ${shown.join('; ')}${more > 0 ? `; and ${more} more, see get_shopping_list` : ''}.`);
+  }
+
+  return lines.join('\n');
+}
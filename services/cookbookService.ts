@@ -0,0 +1,136 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Recipe, SavedRecipe } from '../types';
+import { toISODate } from './shelfLifeService';
+import { normalizeIngredientName } from './recipeInventoryService';
+
+export type CookbookSortId = 'recent' | 'rating' | 'mostCooked' | 'lastCooked' | 'name';
+
+export const COOKBOOK_SORTS: { id: CookbookSortId; label: string }[] = [
+  { id: 'recent', label: 'Recently saved' },
+  { id: 'rating', label: 'Highest rated' },
+  { id: 'mostCooked', label: 'Most cooked' },
+  { id: 'lastCooked', label: 'Last cooked' },
+  { id: 'name', label: 'Name' },
+];
+
+export interface CookbookQuery {
+  text: string;
+  favoritesOnly: boolean;
+  tag: string | null;
+}
+
+// Recipes are identified by name: the model regenerates fresh objects on every scan,
+// so object identity doesn't survive, but "Lemon Chicken" is the same dish.
+function recipeKey(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function findSavedRecipe(cookbook: SavedRecipe[], recipeName: string): SavedRecipe | undefined {
+  const key = recipeKey(recipeName);
+  return cookbook.find((entry) => recipeKey(entry.recipe.name) === key);
+}
+
+// Tags are kept lower-case and unique so filtering doesn't split "Quick" from "quick".
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.toLowerCase().trim()).filter(Boolean))];
+}
+
+// Saving a recipe that's already in the cookbook refreshes its content but keeps the
+// user's rating, tags, notes and history.
+export function saveRecipe(cookbook: SavedRecipe[], recipe: Recipe, today: string = toISODate(new Date())): SavedRecipe[] {
+  const existing = findSavedRecipe(cookbook, recipe.name);
+  if (existing) {
+    return cookbook.map((entry) => (entry.id === existing.id ? { ...entry, recipe } : entry));
+  }
+  const saved: SavedRecipe = {
+    id: uuidv4(),
+    recipe,
+    savedOn: today,
+    isFavorite: false,
+    rating: 0,
+    tags: [],
+    notes: '',
+    cookedOn: [],
+  };
+  return [saved, ...cookbook];
+}
+
+export function updateSavedRecipe(
+  cookbook: SavedRecipe[],
+  id: string,
+  changes: Partial<Pick<SavedRecipe, 'isFavorite' | 'rating' | 'tags' | 'notes' | 'cookedOn'>>,
+): SavedRecipe[] {
+  return cookbook.map((entry) => {
+    if (entry.id !== id) return entry;
+    const updated = { ...entry, ...changes };
+    if (changes.tags) updated.tags = normalizeTags(changes.tags);
+    if (changes.rating !== undefined) updated.rating = Math.max(0, Math.min(5, Math.round(changes.rating)));
+    if (changes.cookedOn) updated.cookedOn = [...changes.cookedOn].sort();
+    return updated;
+  });
+}
+
+export function removeSavedRecipe(cookbook: SavedRecipe[], id: string): SavedRecipe[] {
+  return cookbook.filter((entry) => entry.id !== id);
+}
+
+// Adds a "cooked on" date to the saved copy of a recipe. Unsaved recipes are left alone.
+export function recordCooked(cookbook: SavedRecipe[], recipeName: string, date: string = toISODate(new Date())): SavedRecipe[] {
+  const existing = findSavedRecipe(cookbook, recipeName);
+  if (!existing) return cookbook;
+  return updateSavedRecipe(cookbook, existing.id, { cookedOn: [...existing.cookedOn, date] });
+}
+
+// Reverses recordCooked (one entry for that date), used when a cook is undone.
+export function unrecordCooked(cookbook: SavedRecipe[], recipeName: string, date: string): SavedRecipe[] {
+  const existing = findSavedRecipe(cookbook, recipeName);
+  if (!existing) return cookbook;
+  const index = existing.cookedOn.lastIndexOf(date);
+  if (index === -1) return cookbook;
+  const cookedOn = existing.cookedOn.filter((_, i) => i !== index);
+  return updateSavedRecipe(cookbook, existing.id, { cookedOn });
+}
+
+export function getLastCooked(entry: SavedRecipe): string | null {
+  return entry.cookedOn.length > 0 ? entry.cookedOn[entry.cookedOn.length - 1] : null;
+}
+
+export function getAllTags(cookbook: SavedRecipe[]): string[] {
+  return [...new Set(cookbook.flatMap((entry) => entry.tags))].sort();
+}
+
+// Every word of the search has to appear somewhere in the recipe's name, summary,
+// cuisine, ingredients, tags or the user's notes.
+function matchesText(entry: SavedRecipe, text: string): boolean {
+  const words = normalizeIngredientName(text).split(' ').filter(Boolean);
+  if (words.length === 0) return true;
+  const { recipe } = entry;
+  const haystack = normalizeIngredientName([
+    recipe.name,
+    recipe.summary,
+    recipe.cuisine ?? '',
+    ...recipe.ingredients,
+    ...entry.tags,
+    entry.notes,
+  ].join(' '));
+  return words.every((word) => haystack.includes(word));
+}
+
+export function searchCookbook(cookbook: SavedRecipe[], query: CookbookQuery): SavedRecipe[] {
+  return cookbook.filter((entry) => (!query.favoritesOnly || entry.isFavorite)
+    && (!query.tag || entry.tags.includes(query.tag))
+    && matchesText(entry, query.text));
+}
+
+const COMPARATORS: Record<CookbookSortId, (a: SavedRecipe, b: SavedRecipe) => number> = {
+  recent: (a, b) => b.savedOn.localeCompare(a.savedOn),
+  rating: (a, b) => b.rating - a.rating,
+  mostCooked: (a, b) => b.cookedOn.length - a.cookedOn.length,
+  lastCooked: (a, b) => (getLastCooked(b) ?? '').localeCompare(getLastCooked(a) ?? ''),
+  name: (a, b) => a.recipe.name.localeCompare(b.recipe.name),
+};
+
+// Stable, so ties keep the cookbook's own order (newest saves first).
+export function sortCookbook(cookbook: SavedRecipe[], sortBy: CookbookSortId): SavedRecipe[] {
+  return [...cookbook].sort(COMPARATORS[sortBy]);
+}
@@ -0,0 +1,48 @@
+import { CookingSession, Recipe } from '../types';
+
+export function startCookingSession(recipe: Recipe): CookingSession {
+  return { recipe, stepIndex: 0 };
+}
+
+export function getStepCount(session: CookingSession): number {
+  return session.recipe.instructions.length;
+}
+
+export function isLastStep(session: CookingSession): boolean {
+  return session.stepIndex >= getStepCount(session) - 1;
+}
+
+// Moves to a step, staying within the recipe; returns the same session when nothing changes.
+export function goToStep(session: CookingSession, stepIndex: number): CookingSession {
+  const clamped = Math.max(0, Math.min(getStepCount(session) - 1, Math.round(stepIndex)));
+  return clamped === session.stepIndex ? session : { ...session, stepIndex: clamped };
+}
+
+export function moveStep(session: CookingSession, delta: number): CookingSession {
+  return goToStep(session, session.stepIndex + delta);
+}
+
+// The current step as the live session reads it out. Step numbers are 1-based here, as spoken.
+export function describeCookingStep(session: CookingSession): { recipe: string; step: number; of: number; instruction: string; isLastStep: boolean } {
+  return {
+    recipe: session.recipe.name,
+    step: session.stepIndex + 1,
+    of: getStepCount(session),
+    instruction: session.recipe.instructions[session.stepIndex] ?? '',
+    isLastStep: isLastStep(session),
+  };
+}
+
+// Opening message for a voice-guided cooking session. The screen shows one step at a time, so the
+// model is told to move through the steps with the step tools rather than reading ahead.
+export function buildCookingPrompt(session: CookingSession): string {
+  const { recipe } = session;
+  const steps = recipe.instructions.map((instruction, i) => `Step ${i + 1}: ${instruction}`).join(' ');
+  return `Chef Fridge, I'm ready to cook "${recipe.name}"${recipe.servings ? ` for ${recipe.servings}` : ''}. `
+    + `The ingredients are: ${recipe.ingredients.join(', ')}. The full method is: ${steps} `
+    + `My screen shows one step at a time and we're on step ${session.stepIndex + 1}. Read me just that step. `
+    + 'When I ask to go on, go back, repeat or jump to a step, call next_step, previous_step, repeat_step or go_to_step '
+    + 'and read out the step it returns, so my screen and your voice stay on the same step. '
+    + 'When a step has a time in it, offer to start a timer with start_timer. '
+    + 'Feel free to explain techniques as we go.';
+}
@@ -0,0 +1,79 @@
+import { FoodCategory, Ingredient, IngredientCategory } from '../types';
+import { FOOD_TAXONOMY, FOOD_CATEGORY_INFO } from '../data/foodTaxonomy';
+import { normalizeIngredientName, lookupPhrase } from './recipeInventoryService';
+
+export type CategorySource = 'override' | 'taxonomy' | 'model' | 'unknown';
+
+function buildIndex(): Map<string, FoodCategory> {
+  const index = new Map<string, FoodCategory>();
+  (Object.entries(FOOD_TAXONOMY) as [FoodCategory, string[]][]).forEach(([category, entries]) => {
+    entries.forEach((entry) => {
+      entry.split('|').forEach((term) => {
+        const key = normalizeIngredientName(term);
+        if (key && !index.has(key)) index.set(key, category);
+      });
+    });
+  });
+  return index;
+}
+
+class FoodTaxonomyService {
+  private index = buildIndex();
+  // Both maps are keyed by normalized ingredient name and owned by App, which persists them.
+  private overrides: Record<string, FoodCategory> = {};
+  private modelCache: Record<string, FoodCategory> = {};
+
+  setUserData(overrides: Record<string, FoodCategory>, modelCache: Record<string, FoodCategory>) {
+    this.overrides = overrides;
+    this.modelCache = modelCache;
+  }
+
+  classify(name: string): { category: FoodCategory; source: CategorySource } {
+    const key = normalizeIngredientName(name);
+    if (this.overrides[key]) return { category: this.overrides[key], source: 'override' };
+    const fromTaxonomy = lookupPhrase(this.index, key);
+    if (fromTaxonomy) return { category: fromTaxonomy, source: 'taxonomy' };
+    if (this.modelCache[key]) return { category: this.modelCache[key], source: 'model' };
+    return { category: 'other', source: 'unknown' };
+  }
+
+  categorize(name: string): FoodCategory {
+    return this.classify(name).category;
+  }
+
+  // Names the taxonomy doesn't know and the model hasn't classified yet.
+  findUnknown(names: string[]): string[] {
+    const seen = new Set<string>();
+    return names.filter((name) => {
+      const key = normalizeIngredientName(name);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return this.classify(name).source === 'unknown';
+    });
+  }
+
+  normalizeKey(name: string): string {
+    return normalizeIngredientName(name);
+  }
+}
+
+export function getCategoryInfo(category: FoodCategory): { label: string; icon: string } {
+  return FOOD_CATEGORY_INFO[category];
+}
+
+export const ALL_FOOD_CATEGORIES = Object.keys(FOOD_CATEGORY_INFO) as FoodCategory[];
+
+// Groups inventory items by their category, in taxonomy order, for display.
+export function groupByCategory(inventory: Ingredient[]): (IngredientCategory & { category: FoodCategory })[] {
+  return ALL_FOOD_CATEGORIES
+    .map((category) => ({
+      category,
+      name: FOOD_CATEGORY_INFO[category].label,
+      icon: FOOD_CATEGORY_INFO[category].icon,
+      items: inventory.filter((item) => item.category === category),
+    }))
+    .filter((group) => group.items.length > 0);
+}
+
+const foodTaxonomyService = new FoodTaxonomyService();
+export default foodTaxonomyService;
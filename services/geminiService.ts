@@ -6,7 +6,8 @@ import {
   Type,
   LiveServerMessage,
   Blob,
-  Chat
+  Chat,
+  Content
 } from "@google/genai";
 import {
   GEMINI_FLASH_MODEL,
@@ -15,9 +16,15 @@ import {
   GEMINI_LIVE_MODEL,
   IMAGEN_MODEL,
   SYSTEM_INSTRUCTION_RECIPE_GEN,
-  SYSTEM_INSTRUCTION_CHEF_FRIDGE
+  SYSTEM_INSTRUCTION_CHEF_FRIDGE,
+  SYSTEM_INSTRUCTION_MEAL_PLAN,
+  MEAL_PLAN_DAYS
 } from '../constants';
-import { Ingredient, Recipe, ChatMessage } from '../types';
+import { Ingredient, Detection, BoundingBox, ReceiptLine, ReceiptScan, Recipe, ChatMessage, FoodCategory, UserProfile, NutritionFacts, DietTag, RecipeDifficulty, MealSlot } from '../types';
+import { parseQuantity, formatQuantity } from './quantityService';
+import { createInventoryItem } from './shelfLifeService';
+import { ALL_FOOD_CATEGORIES } from './foodTaxonomyService';
+import { withUserProfile } from './profileService';
 
 // Utility functions for audio encoding/decoding, as per Gemini Live API guidance.
 function encode(bytes: Uint8Array): string {
@@ -70,6 +77,47 @@ function createAudioBlob(data: Float32Array): Blob {
   };
 }
 
+const RECIPE_DIFFICULTIES: RecipeDifficulty[] = ['easy', 'medium', 'hard'];
+const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+const DIET_TAGS: DietTag[] = ['vegetarian', 'vegan', 'pescatarian', 'gluten-free', 'dairy-free', 'low-carb', 'keto', 'high-protein'];
+
+// Text chat can only propose changes; the cards its tools attach let the user carry them out.
+const CHAT_ACTION_CARDS_INSTRUCTION = `When you suggest a complete recipe, also call show_recipe with it so the user can save or cook it; keep your text to a short introduction rather than repeating the whole recipe. When the conversation implies changes to the fridge (food used up, bought or thrown away), call propose_inventory_changes, and when the user needs to buy something, call propose_shopping_items. These only show the user a card to confirm; never claim the change has been made.`;
+
+// JSON schema for one generated recipe, shared by generation and safe regeneration.
+const RECIPE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    healthInsight: { type: Type.STRING },
+    ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
+    instructions: { type: Type.ARRAY, items: { type: Type.STRING } },
+    servings: { type: Type.INTEGER },
+    prepMinutes: { type: Type.INTEGER },
+    cookMinutes: { type: Type.INTEGER },
+    difficulty: { type: Type.STRING, enum: RECIPE_DIFFICULTIES },
+    dietTags: { type: Type.ARRAY, items: { type: Type.STRING, enum: DIET_TAGS } },
+    cuisine: { type: Type.STRING },
+    proteinGrams: { type: Type.NUMBER },
+  },
+  required: [
+    'name', 'summary', 'healthInsight', 'ingredients', 'instructions', 'servings',
+    'prepMinutes', 'cookMinutes', 'difficulty', 'dietTags', 'cuisine', 'proteinGrams',
+  ],
+};
+
+// Recipe metadata fields described for the prompt, matching RECIPE_SCHEMA.
+const RECIPE_METADATA_PROMPT = `'prepMinutes' and 'cookMinutes' (integers), 'difficulty' (${RECIPE_DIFFICULTIES.join(', ')}), 'dietTags' (every one of ${DIET_TAGS.join(', ')} that genuinely applies), 'cuisine' (e.g. Italian), and 'proteinGrams' (per serving)`;
+
+// Converts the model's [ymin, xmin, ymax, xmax] box on a 0-1000 grid into a BoundingBox.
+function toBoundingBox(box2d: number[] | undefined): BoundingBox | undefined {
+  if (!Array.isArray(box2d) || box2d.length !== 4 || !box2d.every(Number.isFinite)) return undefined;
+  const [ymin, xmin, ymax, xmax] = box2d.map((value) => Math.min(1000, Math.max(0, value)) / 1000);
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+}
+
 class GeminiService {
   // Centralized way to get a GoogleGenAI instance, ensuring API_KEY is used.
   private getGoogleGenAIInstance(): GoogleGenAI {
@@ -82,7 +130,7 @@ class GeminiService {
   async analyzeImage(
     base64Image: string,
     mimeType: string,
-  ): Promise<{ ingredients: Ingredient[]; rawAnalysis: string }> {
+  ): Promise<{ detections: Detection[]; rawAnalysis: string }> {
     const ai = this.getGoogleGenAIInstance();
     const imagePart = {
       inlineData: {
@@ -92,8 +140,10 @@ class GeminiService {
     };
     const textPart = {
       text: `Analyze the uploaded image. Identify all distinct food items, estimate their quantity (e.g., '2 large', '1 bag', '500g'), and note their general freshness (e.g., 'fresh', 'good', 'expiring', 'spoiled').
-            Provide the output as a JSON array of objects with 'name', 'quantity', and 'freshness' properties.
-            Example: [{"name": "apple", "quantity": "2 large", "freshness": "fresh"}, {"name": "milk", "quantity": "1 liter", "freshness": "good"}]
+            Rate how confident you are in each identification from 0 to 1, lower for items that are partly hidden, blurry or easily confused with something else.
+            Give the box around each item as 'box_2d': [ymin, xmin, ymax, xmax], normalized to 0-1000. If an item appears in several places, box the largest.
+            Provide the output as a JSON array of objects with 'name', 'quantity', 'freshness', 'confidence' and 'box_2d' properties.
+            Example: [{"name": "apple", "quantity": "2 large", "freshness": "fresh", "confidence": 0.95, "box_2d": [410, 120, 560, 300]}, {"name": "milk", "quantity": "1 liter", "freshness": "good", "confidence": 0.7, "box_2d": [80, 650, 520, 800]}]
             Also, provide a raw analysis string before the JSON.`,
     };
 
@@ -110,8 +160,10 @@ class GeminiService {
               name: { type: Type.STRING },
               quantity: { type: Type.STRING },
               freshness: { type: Type.STRING },
+              confidence: { type: Type.NUMBER },
+              box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
             },
-            required: ['name', 'quantity', 'freshness'],
+            required: ['name', 'quantity', 'freshness', 'confidence'],
           },
         },
       },
@@ -121,8 +173,17 @@ class GeminiService {
     console.log("Image analysis raw response:", jsonStr);
 
     try {
-      const ingredients: Ingredient[] = JSON.parse(jsonStr);
-      return { ingredients, rawAnalysis: `Identified ${ingredients.length} items.` };
+      const detected: { name: string; quantity: string; freshness: string; confidence: number; box_2d?: number[] }[] = JSON.parse(jsonStr);
+      const detections: Detection[] = detected.map((item) => ({
+        ingredient: createInventoryItem({
+          name: item.name,
+          quantity: parseQuantity(item.quantity),
+          freshness: item.freshness,
+        }),
+        confidence: Number.isFinite(item.confidence) ? Math.min(1, Math.max(0, item.confidence)) : 0,
+        box: toBoundingBox(item.box_2d),
+      }));
+      return { detections, rawAnalysis: `Identified ${detections.length} items.` };
     } catch (e) {
       console.error("Failed to parse image analysis response as JSON:", e);
       const fallbackPrompt = `Identify food items and their quantities from the image. List them in a human-readable format.`;
@@ -130,27 +191,257 @@ class GeminiService {
         model: GEMINI_FLASH_MODEL,
         contents: { parts: [imagePart, { text: fallbackPrompt }] },
       });
-      return { ingredients: [], rawAnalysis: fallbackResponse.text };
+      return { detections: [], rawAnalysis: fallbackResponse.text };
     }
   }
 
+  // Reads a grocery receipt. Names come back expanded from the receipt's abbreviations but are
+  // only matched to the inventory by receiptService.
+  async analyzeReceipt(
+    base64Image: string,
+    mimeType: string,
+  ): Promise<Omit<ReceiptScan, 'lines'> & { lines: Omit<ReceiptLine, 'id'>[] }> {
+    const ai = this.getGoogleGenAIInstance();
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: GEMINI_FLASH_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { mimeType, data: base64Image } },
+          {
+            text: `This is a photo of a grocery receipt. Read every purchased line.
+            For each line give 'rawText' (exactly as printed), 'name' (the plain grocery name with abbreviations expanded and brands, sizes and codes removed, e.g. "ORG BNLS CHKN BRST 1.2KG" -> "chicken breast"),
+            'quantity' (the amount bought, e.g. '1.2 kg', '2 l', '6', taking multipliers like "2 @ 1.99" into account), 'price' (the line total as a number),
+            'isFood' (false for bags, deposits, tax, discounts, coupons, household and non-food items) and 'confidence' (0 to 1, lower where the print is faded or the abbreviation ambiguous).
+            Also give the 'store' name, the purchase date as 'purchasedOn' (YYYY-MM-DD), the 'currency' as an ISO code and the receipt 'total', or leave them out if they can't be read.`,
+          },
+        ],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            store: { type: Type.STRING },
+            purchasedOn: { type: Type.STRING },
+            currency: { type: Type.STRING },
+            total: { type: Type.NUMBER },
+            items: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  rawText: { type: Type.STRING },
+                  name: { type: Type.STRING },
+                  quantity: { type: Type.STRING },
+                  price: { type: Type.NUMBER },
+                  isFood: { type: Type.BOOLEAN },
+                  confidence: { type: Type.NUMBER },
+                },
+                required: ['rawText', 'name', 'quantity', 'isFood', 'confidence'],
+              },
+            },
+          },
+          required: ['items'],
+        },
+      },
+    });
+
+    const parsed: {
+      store?: string;
+      purchasedOn?: string;
+      currency?: string;
+      total?: number;
+      items: { rawText: string; name: string; quantity: string; price?: number; isFood: boolean; confidence: number }[];
+    } = JSON.parse(response.text.trim());
+    return {
+      store: parsed.store?.trim() || null,
+      purchasedOn: /^\d{4}-\d{2}-\d{2}$/.test(parsed.purchasedOn ?? '') ? parsed.purchasedOn! : null,
+      currency: parsed.currency?.trim().toUpperCase() || null,
+      total: Number.isFinite(parsed.total) ? parsed.total! : null,
+      lines: parsed.items
+        .filter((item) => item.isFood && item.name.trim())
+        .map((item) => ({
+          rawText: item.rawText,
+          name: item.name.trim(),
+          quantity: parseQuantity(item.quantity || '1'),
+          price: Number.isFinite(item.price) ? item.price! : null,
+          confidence: Number.isFinite(item.confidence) ? Math.min(1, Math.max(0, item.confidence)) : 0,
+        })),
+    };
+  }
+
   async generateRecipes(
     ingredients: Ingredient[],
-    dietaryPreferences: string,
+    profile: UserProfile,
   ): Promise<Recipe[]> {
     const ai = this.getGoogleGenAIInstance();
     const ingredientsList = ingredients
-      .map((i) => `${i.quantity} ${i.name} (${i.freshness})`)
+      .map((i) => `${formatQuantity(i.quantity)} ${i.name} (${i.freshness})`)
       .join(', ');
 
-    const prompt = `Based only on these detected ingredients: [${ingredientsList}], and considering the user's known dietary preferences: "${dietaryPreferences || 'none'}", generate three distinct recipe options. For each recipe, provide a brief, engaging summary, immediately flag a key health insight, list the ingredients as a string array, and provide detailed, numbered step-by-step cooking instructions as a string array. The response should be a JSON array of recipe objects, each with 'name', 'summary', 'healthInsight', 'ingredients' (as a string array), and 'instructions' (as a string array).`;
+    const prompt = `Based only on these detected ingredients: [${ingredientsList}], and strictly following the user profile in your instructions, generate three distinct recipe options. For each recipe, provide a brief, engaging summary, immediately flag a key health insight, list the ingredients as a string array with every line written as 'amount unit ingredient, preparation' (e.g. '200g spaghetti', '2 cloves garlic, minced') so it can be rescaled, provide detailed, numbered step-by-step cooking instructions as a string array, and say how many servings it makes. The response should be a JSON array of recipe objects, each with 'name', 'summary', 'healthInsight', 'ingredients' (as a string array), 'instructions' (as a string array), 'servings' (as an integer), and ${RECIPE_METADATA_PROMPT}.`;
 
     const response: GenerateContentResponse = await ai.models.generateContent({
       model: GEMINI_PRO_MODEL,
       contents: prompt,
       config: {
-        systemInstruction: SYSTEM_INSTRUCTION_RECIPE_GEN,
+        systemInstruction: withUserProfile(SYSTEM_INSTRUCTION_RECIPE_GEN, profile),
         thinkingConfig: { thinkingBudget: 32768 },
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: RECIPE_SCHEMA,
+        },
+      },
+    });
+
+    const jsonStr = response.text.trim();
+    try {
+      const recipes: Recipe[] = JSON.parse(jsonStr);
+      return recipes;
+    } catch (e) {
+      console.error("Failed to parse recipe generation response as JSON:", e);
+      throw new Error("Could not generate recipes in the expected format.");
+    }
+  }
+
+  // Asks for a replacement for a recipe the allergen checker rejected, naming exactly what was found.
+  async regenerateSafeRecipe(
+    recipe: Recipe,
+    ingredients: Ingredient[],
+    profile: UserProfile,
+    problems: string,
+  ): Promise<Recipe> {
+    const ai = this.getGoogleGenAIInstance();
+    const ingredientsList = ingredients
+      .map((i) => `${formatQuantity(i.quantity)} ${i.name}`)
+      .join(', ');
+
+    const prompt = `The recipe "${recipe.name}" (ingredients: ${recipe.ingredients.join('; ')}) is unsafe for this user because it contains: ${problems}.
+            Create one substitute recipe in the same spirit that contains none of these, not even as a garnish, sauce, cooking fat or optional extra. Prefer these available ingredients: [${ingredientsList}].
+            Return a single JSON object with 'name', 'summary', 'healthInsight', 'ingredients' (as a string array, every line written as 'amount unit ingredient, preparation'), 'instructions' (as a string array), 'servings' (as an integer), and ${RECIPE_METADATA_PROMPT}.`;
+
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: GEMINI_PRO_MODEL,
+      contents: prompt,
+      config: {
+        systemInstruction: withUserProfile(SYSTEM_INSTRUCTION_RECIPE_GEN, profile),
+        responseMimeType: 'application/json',
+        responseSchema: RECIPE_SCHEMA,
+      },
+    });
+
+    try {
+      return JSON.parse(response.text.trim()) as Recipe;
+    } catch (e) {
+      console.error("Failed to parse safe recipe response as JSON:", e);
+      throw new Error("Could not generate a safe alternative in the expected format.");
+    }
+  }
+
+  // A week of breakfasts, lunches and dinners. `ingredients` should be ordered soonest-expiring
+  // first; days are 0-based from `startDate`.
+  async generateMealPlan(
+    ingredients: Ingredient[],
+    profile: UserProfile,
+    startDate: string,
+  ): Promise<{ day: number; slot: MealSlot; recipe: Recipe }[]> {
+    const ai = this.getGoogleGenAIInstance();
+    const ingredientsList = ingredients
+      .map((i) => `${formatQuantity(i.quantity)} ${i.name} (expires ${i.expiresOn})`)
+      .join(', ');
+
+    const prompt = `Plan ${MEAL_PLAN_DAYS} days of meals starting ${startDate} (day 0), with a breakfast, lunch and dinner each day, strictly following the user profile in your instructions.
+            Fridge contents, soonest to expire first: [${ingredientsList}].
+            Use every ingredient before its expiry date, scheduling the ones expiring soonest on the earliest days. Meals may need a few ingredients that aren't in the fridge, but prefer what is there and reuse bought ingredients across meals.
+            Return a JSON array of objects with 'day' (0 to ${MEAL_PLAN_DAYS - 1}), 'slot' (${MEAL_SLOTS.join(', ')}) and 'recipe'. Each recipe has 'name', 'summary', 'healthInsight', 'ingredients' (as a string array, every line written as 'amount unit ingredient, preparation'), 'instructions' (as a string array), 'servings' (as an integer), and ${RECIPE_METADATA_PROMPT}.`;
+
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: GEMINI_PRO_MODEL,
+      contents: prompt,
+      config: {
+        systemInstruction: withUserProfile(SYSTEM_INSTRUCTION_MEAL_PLAN, profile),
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              day: { type: Type.INTEGER },
+              slot: { type: Type.STRING, enum: MEAL_SLOTS },
+              recipe: RECIPE_SCHEMA,
+            },
+            required: ['day', 'slot', 'recipe'],
+          },
+        },
+      },
+    });
+
+    try {
+      return JSON.parse(response.text.trim());
+    } catch (e) {
+      console.error("Failed to parse meal plan response as JSON:", e);
+      throw new Error("Could not generate a meal plan in the expected format.");
+    }
+  }
+
+  // Fallback for ingredient lines the local nutrient table can't resolve. Returns totals for
+  // each line as written (not per 100 g), keyed by the line.
+  async estimateIngredientNutrition(lines: string[]): Promise<Record<string, NutritionFacts>> {
+    if (lines.length === 0) return {};
+    const ai = this.getGoogleGenAIInstance();
+    const prompt = `Estimate the nutrition of each of these recipe ingredient lines, for the full amount stated on the line: [${lines.map((line) => `"${line}"`).join(', ')}].
+            Return a JSON array of objects with 'line' (exactly as given), 'calories' (kcal), 'proteinGrams', 'carbsGrams', 'fatGrams', 'fiberGrams' and 'sodiumMg'.`;
+
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: GEMINI_FLASH_MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              line: { type: Type.STRING },
+              calories: { type: Type.NUMBER },
+              proteinGrams: { type: Type.NUMBER },
+              carbsGrams: { type: Type.NUMBER },
+              fatGrams: { type: Type.NUMBER },
+              fiberGrams: { type: Type.NUMBER },
+              sodiumMg: { type: Type.NUMBER },
+            },
+            required: ['line', 'calories', 'proteinGrams', 'carbsGrams', 'fatGrams', 'fiberGrams', 'sodiumMg'],
+          },
+        },
+      },
+    });
+
+    try {
+      const parsed: ({ line: string } & NutritionFacts)[] = JSON.parse(response.text.trim());
+      const estimates: Record<string, NutritionFacts> = {};
+      parsed.forEach(({ line, ...facts }) => {
+        if (lines.includes(line)) estimates[line] = facts;
+      });
+      return estimates;
+    } catch (e) {
+      console.error("Failed to parse nutrition estimate response as JSON:", e);
+      return {};
+    }
+  }
+
+  // Classifies food names the bundled taxonomy doesn't know. Only called for unknown names;
+  // the results are cached locally so each name is classified at most once.
+  async classifyIngredients(names: string[]): Promise<Record<string, FoodCategory>> {
+    if (names.length === 0) return {};
+    const ai = this.getGoogleGenAIInstance();
+    const prompt = `Classify each of these grocery items into exactly one food category: [${names.join(', ')}].
+            Use 'other' only when none of the categories fit. Return a JSON array of objects with 'name' (exactly as given) and 'category'.`;
+
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: GEMINI_FLASH_MODEL,
+      contents: prompt,
+      config: {
         responseMimeType: 'application/json',
         responseSchema: {
           type: Type.ARRAY,
@@ -158,40 +449,48 @@ class GeminiService {
             type: Type.OBJECT,
             properties: {
               name: { type: Type.STRING },
-              summary: { type: Type.STRING },
-              healthInsight: { type: Type.STRING },
-              ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
-              instructions: { type: Type.ARRAY, items: { type: Type.STRING } },
+              category: { type: Type.STRING, enum: ALL_FOOD_CATEGORIES },
             },
-            required: ['name', 'summary', 'healthInsight', 'ingredients', 'instructions'],
+            required: ['name', 'category'],
           },
         },
       },
     });
 
-    const jsonStr = response.text.trim();
     try {
-      const recipes: Recipe[] = JSON.parse(jsonStr);
-      return recipes;
+      const parsed: { name: string; category: string }[] = JSON.parse(response.text.trim());
+      const classifications: Record<string, FoodCategory> = {};
+      parsed.forEach(({ name, category }) => {
+        if (names.includes(name) && (ALL_FOOD_CATEGORIES as string[]).includes(category)) {
+          classifications[name] = category as FoodCategory;
+        }
+      });
+      return classifications;
     } catch (e) {
-      console.error("Failed to parse recipe generation response as JSON:", e);
-      throw new Error("Could not generate recipes in the expected format.");
+      console.error("Failed to parse ingredient classification response as JSON:", e);
+      return {};
     }
   }
 
   // New method to create a Chat session
-  createChatSession(): Chat {
+  // Pass the previous session's history to carry a conversation over after the profile changes.
+  // `tools` look things up and attach action cards to replies, see liveToolsService.getChatToolDeclarations;
+  // `kitchenSnapshot` describes the fridge and shopping list, see chatContextService.buildKitchenSnapshot.
+  createChatSession(profile: UserProfile, tools: FunctionDeclaration[], kitchenSnapshot: string, history?: Content[]): Chat {
     const ai = this.getGoogleGenAIInstance();
     return ai.chats.create({
       model: GEMINI_FLASH_MODEL,
+      history,
       config: {
-        systemInstruction: SYSTEM_INSTRUCTION_CHEF_FRIDGE,
+        systemInstruction: withUserProfile(`${SYSTEM_INSTRUCTION_CHEF_FRIDGE}\n\n${CHAT_ACTION_CARDS_INSTRUCTION}\n\n${kitchenSnapshot}`, profile),
+        tools: [{ functionDeclarations: tools }],
       },
     });
   }
 
   async getGroundedResponse(
     prompt: string,
+    profile: UserProfile,
   ): Promise<{ text: string; sources: { uri: string; title?: string }[] }> {
     const ai = this.getGoogleGenAIInstance();
     const response: GenerateContentResponse = await ai.models.generateContent({
@@ -199,7 +498,7 @@ class GeminiService {
       contents: prompt,
       config: {
         tools: [{ googleSearch: {} }],
-        systemInstruction: SYSTEM_INSTRUCTION_CHEF_FRIDGE,
+        systemInstruction: withUserProfile(SYSTEM_INSTRUCTION_CHEF_FRIDGE, profile),
       },
     });
 
@@ -257,30 +556,11 @@ class GeminiService {
     onClose: (e: CloseEvent) => void;
     inputAudioContext: AudioContext;
     outputAudioContext: AudioContext;
+    profile: UserProfile;
+    tools: FunctionDeclaration[]; // The app actions the model may call, see liveToolsService
   }) {
     const ai = this.getGoogleGenAIInstance();
 
-    const controlLightFunctionDeclaration: FunctionDeclaration = {
-      name: 'controlLight',
-      parameters: {
-        type: Type.OBJECT,
-        description: 'Set the brightness and color temperature of a room light.',
-        properties: {
-          brightness: {
-            type: Type.NUMBER,
-            description:
-              'Light level from 0 to 100. Zero is off and 100 is full brightness.',
-          },
-          colorTemperature: {
-            type: Type.STRING,
-            description:
-              'Color temperature of the light fixture such as `daylight`, `cool` or `warm`.',
-          },
-        },
-        required: ['brightness', 'colorTemperature'],
-      },
-    };
-
     return ai.live.connect({
       model: GEMINI_LIVE_MODEL,
       callbacks: {
@@ -295,10 +575,10 @@ class GeminiService {
         speechConfig: {
           voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
         },
-        systemInstruction: SYSTEM_INSTRUCTION_CHEF_FRIDGE,
+        systemInstruction: withUserProfile(SYSTEM_INSTRUCTION_CHEF_FRIDGE, params.profile),
         outputAudioTranscription: {}, // Enable transcription for model output audio.
         inputAudioTranscription: {}, // Enable transcription for user input audio.
-        tools: [{ functionDeclarations: [controlLightFunctionDeclaration] }], // Example function
+        tools: [{ functionDeclarations: params.tools }],
       },
     });
   }
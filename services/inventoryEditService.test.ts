@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { applyInventoryEdit } from './inventoryEditService';
+import { parseQuantity } from './quantityService';
+import { addDays, createInventoryItem, getShelfLifeDays, toISODate } from './shelfLifeService';
+
+const today = toISODate(new Date());
+const addedOn = addDays(today, -2);
+
+describe('applyInventoryEdit', () => {
+  const chicken = createInventoryItem({ name: 'chicken breast', quantity: parseQuantity('500 g'), storage: 'fridge', addedOn });
+
+  it('re-estimates the expiry when an item moves to the freezer', () => {
+    const { inventory, item } = applyInventoryEdit([chicken], { action: 'update', name: 'Chicken Breast', storage: 'freezer' });
+    expect(item).toMatchObject({
+      name: 'chicken breast',
+      storage: 'freezer',
+      addedOn,
+      expiresOn: addDays(addedOn, getShelfLifeDays(chicken.category, 'freezer')),
+      expirySource: 'estimated',
+      freshness: 'fresh',
+    });
+    expect(item!.expiresOn > chicken.expiresOn).toBe(true);
+    expect(inventory).toEqual([item]);
+  });
+
+  it('keeps an expiry the user set when the item moves', () => {
+    const dated = { ...chicken, expiresOn: addDays(today, 1), expirySource: 'user' as const };
+    const { item } = applyInventoryEdit([dated], { action: 'update', name: 'chicken breast', storage: 'freezer' });
+    expect(item).toMatchObject({ storage: 'freezer', expiresOn: dated.expiresOn, expirySource: 'user' });
+  });
+
+  it('re-categorizes a renamed item', () => {
+    const { item } = applyInventoryEdit([chicken], { action: 'update', name: 'chicken breast', newName: 'cheddar' });
+    expect(item).toMatchObject({ name: 'cheddar', category: 'cheese', addedOn });
+    expect(item!.expiresOn).toBe(addDays(addedOn, getShelfLifeDays('cheese', 'fridge')));
+  });
+
+  it('keeps the estimate when only the amount changes', () => {
+    const { item } = applyInventoryEdit([chicken], { action: 'update', name: 'chicken breast', quantity: '250 g' });
+    expect(item).toMatchObject({ quantity: parseQuantity('250 g'), expiresOn: chicken.expiresOn });
+  });
+});
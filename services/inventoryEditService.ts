@@ -0,0 +1,89 @@
+import { Ingredient, InventoryEdit } from '../types';
+import { formatQuantity, parseQuantity, subtractQuantities } from './quantityService';
+import { createInventoryItem, deriveFreshness } from './shelfLifeService';
+import { addAcceptedToInventory, findExistingItem } from './scanService';
+import foodTaxonomyService from './foodTaxonomyService';
+
+// Inventory changes made by name, as the live session's tools and chat's action cards ask for them.
+
+export interface InventoryEditResult {
+  inventory: Ingredient[];
+  item: Ingredient | null; // The item after the edit; null when it was removed
+}
+
+function findItemOrThrow(name: string, inventory: Ingredient[]): Ingredient {
+  const item = findExistingItem(name, inventory);
+  if (!item) throw new Error(`There is no "${name}" in the fridge.`);
+  return item;
+}
+
+// Throws, with a message fit for the user or the model, when the edit can't be made.
+export function applyInventoryEdit(inventory: Ingredient[], edit: InventoryEdit): InventoryEditResult {
+  if (edit.action === 'add') {
+    const added = createInventoryItem({ name: edit.name, quantity: parseQuantity(edit.quantity ?? '1'), expiresOn: edit.expiresOn, storage: edit.storage });
+    const updatedInventory = addAcceptedToInventory(inventory, [added]);
+    return { inventory: updatedInventory, item: findExistingItem(edit.name, updatedInventory) ?? added };
+  }
+
+  const item = findItemOrThrow(edit.name, inventory);
+  if (edit.action === 'remove') {
+    const remaining = edit.quantity ? subtractQuantities(item.quantity, parseQuantity(edit.quantity)) : null;
+    if (edit.quantity && !remaining) {
+      throw new Error(`Can't take ${edit.quantity} from ${formatQuantity(item.quantity)} of ${item.name}; the units don't convert.`);
+    }
+    if (!remaining || remaining.amount <= 0) {
+      return { inventory: inventory.filter((candidate) => candidate !== item), item: null };
+    }
+    const updated = { ...item, quantity: remaining };
+    return { inventory: inventory.map((candidate) => (candidate === item ? updated : candidate)), item: updated };
+  }
+
+  const name = edit.newName ?? item.name;
+  const storage = edit.storage ?? item.storage;
+  const quantity = edit.quantity ? parseQuantity(edit.quantity) : item.quantity;
+  const category = name === item.name ? item.category : foodTaxonomyService.categorize(name);
+  let updated: Ingredient;
+  if (!edit.expiresOn && item.expirySource === 'estimated' && (name !== item.name || storage !== item.storage)) {
+    // Another name or place changes how long it keeps; estimate again from the day it was added
+    updated = createInventoryItem({ name, quantity, category, storage, addedOn: item.addedOn });
+  } else {
+    const changed: Ingredient = {
+      ...item,
+      name,
+      quantity,
+      category,
+      storage,
+      ...(edit.expiresOn ? { expiresOn: edit.expiresOn, expirySource: 'user' as const } : {}),
+    };
+    updated = { ...changed, freshness: deriveFreshness(changed) };
+  }
+  return { inventory: inventory.map((candidate) => (candidate === item ? updated : candidate)), item: updated };
+}
+
+// Applies edits in order, each seeing the ones before it. Edits that can't be made are skipped
+// and their reasons returned, so one bad line doesn't block the rest.
+export function applyInventoryEdits(inventory: Ingredient[], edits: InventoryEdit[]): { inventory: Ingredient[]; failed: string[] } {
+  const failed: string[] = [];
+  let current = inventory;
+  for (const edit of edits) {
+    try {
+      current = applyInventoryEdit(current, edit).inventory;
+    } catch (err: any) {
+      failed.push(err.message || `Couldn't change ${edit.name}.`);
+    }
+  }
+  return { inventory: current, failed };
+}
+
+// One line for a card: "Add 2 l whole milk", "Use 200 g chicken", "Update milk: expires 2026-10-21".
+export function describeInventoryEdit(edit: InventoryEdit): string {
+  if (edit.action === 'add') return `Add ${edit.quantity ? `${edit.quantity} ` : ''}${edit.name}${edit.storage && edit.storage !== 'fridge' ? ` (${edit.storage})` : ''}`;
+  if (edit.action === 'remove') return edit.quantity ? `Use ${edit.quantity} ${edit.name}` : `Remove ${edit.name}`;
+  const changes = [
+    edit.newName && `rename to ${edit.newName}`,
+    edit.quantity && `set to ${edit.quantity}`,
+    edit.expiresOn && `expires ${edit.expiresOn}`,
+    edit.storage && `move to ${edit.storage}`,
+  ].filter(Boolean);
+  return `Update ${edit.name}: ${changes.join(', ')}`;
+}
@@ -0,0 +1,606 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { ChatAttachment, CookingSession, Ingredient, InventoryEdit, KitchenTimer, Recipe, ShoppingListItem, StorageLocation, UserProfile } from '../types';
+import { MAX_TIMER_MINUTES, TOOL_RESULT_PAGE_SIZE } from '../constants';
+import { formatQuantity } from './quantityService';
+import { applyInventoryEdit } from './inventoryEditService';
+import { daysUntilExpiry, toISODate } from './shelfLifeService';
+import { mergeIntoShoppingList } from './shoppingListService';
+import { getDietLabel } from './profileService';
+import { describeCookingStep, goToStep, moveStep } from './cookingService';
+import { TimerChange, applyTimerChange, createTimer, describeDuration, findTimersByLabel, getRemainingMs } from './timerService';
+
+// What the tools read: the app's state when the model made its calls.
+export interface LiveToolState {
+  inventory: Ingredient[];
+  shoppingList: ShoppingListItem[];
+  profile: UserProfile;
+  cooking: CookingSession | null; // The recipe open in cooking mode, if any
+  timers: KitchenTimer[];
+}
+
+// The app actions behind the tools.
+export interface LiveToolActions {
+  getState: () => LiveToolState;
+  updateInventory: (inventory: Ingredient[]) => void;
+  updateShoppingList: (list: ShoppingListItem[]) => void;
+  generateRecipes: (inventory: Ingredient[]) => Promise<Recipe[]>;
+  setCookingStep: (stepIndex: number) => void;
+  changeTimers: (change: TimerChange) => void;
+}
+
+// The JSON handed back to the model, plus any state the tool changed so later calls in the same turn see it.
+interface ToolOutcome {
+  output: Record<string, unknown>;
+  inventory?: Ingredient[];
+  shoppingList?: ShoppingListItem[];
+  cooking?: CookingSession;
+  timerChange?: TimerChange;
+  attachment?: ChatAttachment; // A card for the chat reply the call was made in
+}
+
+interface LiveToolDefinition<Args> {
+  declaration: FunctionDeclaration;
+  parseArgs: (args: Record<string, unknown>) => Args; // Throws with a message the model can act on
+  run: (args: Args, state: LiveToolState, actions: LiveToolActions) => ToolOutcome | Promise<ToolOutcome>;
+}
+
+// A tool with its argument type sealed in, so tools of every shape share one list.
+interface LiveTool {
+  declaration: FunctionDeclaration;
+  invoke: (args: Record<string, unknown>, state: LiveToolState, actions: LiveToolActions) => ToolOutcome | Promise<ToolOutcome>;
+}
+
+// Keeps each tool's argument type checked against its own handler.
+function defineTool<Args>({ declaration, parseArgs, run }: LiveToolDefinition<Args>): LiveTool {
+  return { declaration, invoke: (args, state, actions) => run(parseArgs(args), state, actions) };
+}
+
+// --- Argument validation ---
+
+const STORAGE_LOCATIONS: StorageLocation[] = ['fridge', 'freezer', 'pantry'];
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = optionalString(args, key);
+  if (!value) throw new Error(`"${key}" is required.`);
+  return value;
+}
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new Error(`"${key}" must be a string.`);
+  return value.trim() || undefined;
+}
+
+function optionalDate(args: Record<string, unknown>, key: string): string | undefined {
+  const value = optionalString(args, key);
+  if (value !== undefined && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value)))) {
+    throw new Error(`"${key}" must be a date written as YYYY-MM-DD.`);
+  }
+  return value;
+}
+
+function optionalStorage(args: Record<string, unknown>, key: string): StorageLocation | undefined {
+  const value = optionalString(args, key)?.toLowerCase();
+  if (value !== undefined && !STORAGE_LOCATIONS.includes(value as StorageLocation)) {
+    throw new Error(`"${key}" must be one of ${STORAGE_LOCATIONS.join(', ')}.`);
+  }
+  return value as StorageLocation | undefined;
+}
+
+function requireNumber(args: Record<string, unknown>, key: string, min: number, max: number): number {
+  const value = typeof args[key] === 'string' ? Number(args[key]) : args[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`"${key}" must be a number.`);
+  if (value <= min || value > max) throw new Error(`"${key}" must be more than ${min} and at most ${max}.`);
+  return value;
+}
+
+function optionalWholeNumber(args: Record<string, unknown>, key: string): number | undefined {
+  if (args[key] === undefined || args[key] === null) return undefined;
+  const value = Number(args[key]);
+  if (!Number.isFinite(value) || value < 0) throw new Error(`"${key}" must be a whole number, 0 or more.`);
+  return Math.round(value);
+}
+
+function requireStringList(args: Record<string, unknown>, key: string): string[] {
+  const value = args[key];
+  if (!Array.isArray(value) || value.length === 0 || value.some((entry) => typeof entry !== 'string' || !entry.trim())) {
+    throw new Error(`"${key}" must be a non-empty list of strings.`);
+  }
+  return value.map((entry: string) => entry.trim());
+}
+
+// Each entry of an "items" list of { name, quantity? } objects.
+function requireObjectList(args: Record<string, unknown>, key: string): Record<string, unknown>[] {
+  const value = args[key];
+  if (!Array.isArray(value) || value.length === 0) throw new Error(`"${key}" must be a non-empty list.`);
+  return value.map((entry: unknown) => {
+    if (typeof entry !== 'object' || entry === null) throw new Error(`Each entry in "${key}" must be an object.`);
+    return entry as Record<string, unknown>;
+  });
+}
+
+function parseShoppingItems(args: Record<string, unknown>): { name: string; quantity?: string }[] {
+  return requireObjectList(args, 'items').map((item) => ({ name: requireString(item, 'name'), quantity: optionalString(item, 'quantity') }));
+}
+
+function requireCooking(state: LiveToolState): CookingSession {
+  if (!state.cooking) throw new Error('No recipe is open in cooking mode. Ask the user to start cooking a recipe first.');
+  if (state.cooking.recipe.instructions.length === 0) throw new Error('This recipe has no written steps.');
+  return state.cooking;
+}
+
+function describeItem(item: Ingredient): Record<string, unknown> {
+  return { name: item.name, quantity: formatQuantity(item.quantity), storage: item.storage, expiresOn: item.expiresOn };
+}
+
+// One page of a list, with where the next one starts if there is more.
+function paginate<T>(items: T[], offset: number): { total: number; page: T[]; nextOffset?: number } {
+  const page = items.slice(offset, offset + TOOL_RESULT_PAGE_SIZE);
+  const next = offset + page.length;
+  return { total: items.length, page, nextOffset: next < items.length ? next : undefined };
+}
+
+// --- The tools ---
+
+const getInventory = defineTool({
+  declaration: {
+    name: 'get_inventory',
+    description: `Look up food in the user's fridge, freezer and pantry, soonest expiry first, ${TOOL_RESULT_PAGE_SIZE} items at a time.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        search: { type: Type.STRING, description: 'Only items whose name or category contains this, e.g. "cheese" or "dairy".' },
+        storage: { type: Type.STRING, enum: STORAGE_LOCATIONS },
+        expiringWithinDays: { type: Type.INTEGER, description: 'Only items expiring within this many days; 0 for today or already past it.' },
+        offset: { type: Type.INTEGER, description: 'Items to skip, from nextOffset of the previous call.' },
+      },
+    },
+  },
+  parseArgs: (args) => ({
+    search: optionalString(args, 'search')?.toLowerCase(),
+    storage: optionalStorage(args, 'storage'),
+    expiringWithinDays: optionalWholeNumber(args, 'expiringWithinDays'),
+    offset: optionalWholeNumber(args, 'offset') ?? 0,
+  }),
+  run: ({ search, storage, expiringWithinDays, offset }, { inventory }) => {
+    const today = toISODate(new Date());
+    const matches = inventory
+      .filter((item) => !search || item.name.toLowerCase().includes(search) || item.category.includes(search))
+      .filter((item) => !storage || item.storage === storage)
+      .filter((item) => expiringWithinDays === undefined || daysUntilExpiry(item, today) <= expiringWithinDays)
+      .sort((a, b) => daysUntilExpiry(a, today) - daysUntilExpiry(b, today));
+    const { total, page, nextOffset } = paginate(matches, offset);
+    return {
+      output: { total, items: page.map((item) => ({ ...describeItem(item), category: item.category, freshness: item.freshness })), nextOffset },
+    };
+  },
+});
+
+const getShoppingList = defineTool({
+  declaration: {
+    name: 'get_shopping_list',
+    description: `Read the items still to buy on the user's shopping list, ${TOOL_RESULT_PAGE_SIZE} at a time.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        offset: { type: Type.INTEGER, description: 'Items to skip, from nextOffset of the previous call.' },
+      },
+    },
+  },
+  parseArgs: (args) => ({ offset: optionalWholeNumber(args, 'offset') ?? 0 }),
+  run: ({ offset }, { shoppingList }) => {
+    const { total, page, nextOffset } = paginate(shoppingList.filter((item) => !item.checked), offset);
+    return {
+      output: {
+        total,
+        items: page.map((item) => ({ name: item.name, quantity: item.quantity })),
+        alreadyBought: shoppingList.filter((item) => item.checked).length,
+        nextOffset,
+      },
+    };
+  },
+});
+
+const addInventoryItem = defineTool({
+  declaration: {
+    name: 'add_inventory_item',
+    description: 'Add food to the user\'s fridge inventory. Adds to the amount if they already have some.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Ingredient name, e.g. "whole milk".' },
+        quantity: { type: Type.STRING, description: 'Amount with unit, e.g. "2 l", "500 g" or "6". Defaults to 1.' },
+        expiresOn: { type: Type.STRING, description: 'Expiry date as YYYY-MM-DD, only if the user said it.' },
+        storage: { type: Type.STRING, enum: STORAGE_LOCATIONS, description: 'Where it is kept. Defaults to fridge.' },
+      },
+      required: ['name'],
+    },
+  },
+  parseArgs: (args) => ({
+    name: requireString(args, 'name'),
+    quantity: optionalString(args, 'quantity') ?? '1',
+    expiresOn: optionalDate(args, 'expiresOn'),
+    storage: optionalStorage(args, 'storage'),
+  }),
+  run: (args, state) => {
+    const { inventory, item } = applyInventoryEdit(state.inventory, { action: 'add', ...args });
+    return { output: { added: item && describeItem(item) }, inventory };
+  },
+});
+
+const removeInventoryItem = defineTool({
+  declaration: {
+    name: 'remove_inventory_item',
+    description: 'Remove food from the user\'s fridge inventory, either all of it or a given amount.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Ingredient name as it appears in the inventory.' },
+        quantity: { type: Type.STRING, description: 'Amount used up, e.g. "200 g". Leave out to remove the item entirely.' },
+      },
+      required: ['name'],
+    },
+  },
+  parseArgs: (args) => ({ name: requireString(args, 'name'), quantity: optionalString(args, 'quantity') }),
+  run: (args, state) => {
+    const { inventory, item } = applyInventoryEdit(state.inventory, { action: 'remove', ...args });
+    return { output: item ? { updated: describeItem(item) } : { removed: args.name }, inventory };
+  },
+});
+
+const updateInventoryItem = defineTool({
+  declaration: {
+    name: 'update_inventory_item',
+    description: 'Change an item in the user\'s fridge inventory: rename it, set its amount, expiry date or storage.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Ingredient name as it appears in the inventory.' },
+        newName: { type: Type.STRING, description: 'New name for the item.' },
+        quantity: { type: Type.STRING, description: 'New total amount with unit, e.g. "1 l".' },
+        expiresOn: { type: Type.STRING, description: 'New expiry date as YYYY-MM-DD.' },
+        storage: { type: Type.STRING, enum: STORAGE_LOCATIONS, description: 'Where it is now kept.' },
+      },
+      required: ['name'],
+    },
+  },
+  parseArgs: (args) => {
+    const parsed = {
+      name: requireString(args, 'name'),
+      newName: optionalString(args, 'newName'),
+      quantity: optionalString(args, 'quantity'),
+      expiresOn: optionalDate(args, 'expiresOn'),
+      storage: optionalStorage(args, 'storage'),
+    };
+    if (!parsed.newName && !parsed.quantity && !parsed.expiresOn && !parsed.storage) {
+      throw new Error('Give at least one of "newName", "quantity", "expiresOn" or "storage".');
+    }
+    return parsed;
+  },
+  run: (args, state) => {
+    const { inventory, item } = applyInventoryEdit(state.inventory, { action: 'update', ...args });
+    return { output: { updated: item && describeItem(item) }, inventory };
+  },
+});
+
+const addToShoppingList = defineTool({
+  declaration: {
+    name: 'add_to_shopping_list',
+    description: 'Add items to the user\'s shopping list. Items already on the list have their amounts combined.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        items: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              quantity: { type: Type.STRING, description: 'Optional amount, e.g. "2" or "500 g".' },
+            },
+            required: ['name'],
+          },
+        },
+      },
+      required: ['items'],
+    },
+  },
+  parseArgs: parseShoppingItems,
+  run: (items, state) => {
+    const shoppingList = mergeIntoShoppingList(state.shoppingList, items);
+    return {
+      output: { added: items.map((item) => item.name), openItems: shoppingList.filter((item) => !item.checked).length },
+      shoppingList,
+    };
+  },
+});
+
+const generateRecipes = defineTool({
+  declaration: {
+    name: 'generate_recipes',
+    description: 'Suggest new recipes from everything in the user\'s fridge. They also appear on the Recipes tab.',
+  },
+  parseArgs: () => ({}),
+  run: async (_args, state, actions) => {
+    if (state.inventory.length === 0) throw new Error('The fridge is empty, so there is nothing to cook from.');
+    const recipes = await actions.generateRecipes(state.inventory);
+    return {
+      output: {
+        recipes: recipes.map((recipe) => ({
+          name: recipe.name,
+          summary: recipe.summary,
+          totalMinutes: (recipe.prepMinutes ?? 0) + (recipe.cookMinutes ?? 0) || undefined,
+        })),
+      },
+    };
+  },
+});
+
+const startTimer = defineTool({
+  declaration: {
+    name: 'start_timer',
+    description: 'Start a named kitchen timer.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        label: { type: Type.STRING, description: 'What the timer is for, e.g. "pasta".' },
+        minutes: { type: Type.NUMBER, description: 'Duration in minutes; fractions allowed, e.g. 0.5 for 30 seconds.' },
+      },
+      required: ['label', 'minutes'],
+    },
+  },
+  parseArgs: (args) => ({ label: requireString(args, 'label'), minutes: requireNumber(args, 'minutes', 0, MAX_TIMER_MINUTES) }),
+  run: ({ label, minutes }) => {
+    const timer = createTimer(label, Math.max(1, Math.round(minutes * 60)));
+    return { output: { started: label, duration: describeDuration(timer.durationSeconds) }, timerChange: { type: 'add', timer } };
+  },
+});
+
+const getTimers = defineTool({
+  declaration: {
+    name: 'get_timers',
+    description: 'List the kitchen timers with how long each has left.',
+  },
+  parseArgs: () => ({}),
+  run: (_args, { timers }) => ({
+    output: {
+      timers: timers.map((timer) => ({
+        label: timer.label,
+        status: timer.status === 'ringing' ? 'done' : timer.status,
+        remaining: describeDuration(getRemainingMs(timer) / 1000),
+      })),
+    },
+  }),
+});
+
+const cancelTimer = defineTool({
+  declaration: {
+    name: 'cancel_timer',
+    description: 'Cancel a running kitchen timer, or silence one that has gone off.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { label: { type: Type.STRING, description: 'The timer\'s name, or part of it.' } },
+      required: ['label'],
+    },
+  },
+  parseArgs: (args) => ({ label: requireString(args, 'label') }),
+  run: ({ label }, { timers }) => {
+    const matches = findTimersByLabel(timers, label);
+    if (matches.length === 0) throw new Error(`There is no timer called "${label}".`);
+    if (matches.length > 1) throw new Error(`More than one timer matches "${label}": ${matches.map((timer) => timer.label).join(', ')}.`);
+    return { output: { cancelled: matches[0].label }, timerChange: { type: 'remove', id: matches[0].id } };
+  },
+});
+
+const getHealthProfile = defineTool({
+  declaration: {
+    name: 'get_health_profile',
+    description: 'Read the user\'s diet, allergies, intolerances, dislikes and daily nutrition targets.',
+  },
+  parseArgs: () => ({}),
+  run: (_args, { profile }) => ({
+    output: {
+      name: profile.name || undefined,
+      diet: getDietLabel(profile.dietType),
+      allergens: profile.allergens,
+      intolerances: profile.intolerances,
+      dislikedFoods: profile.dislikedFoods,
+      dailyTargets: profile.targets,
+    },
+  }),
+});
+
+// Cooking mode shows one step at a time; these keep the screen on the step being read out.
+function defineStepTool(name: string, description: string, move: (session: CookingSession) => CookingSession): LiveTool {
+  return defineTool({
+    declaration: { name, description },
+    parseArgs: () => ({}),
+    run: (_args, state) => {
+      const cooking = move(requireCooking(state));
+      return { output: describeCookingStep(cooking), cooking };
+    },
+  });
+}
+
+const nextStep = defineStepTool('next_step', 'Move cooking mode on to the next step of the recipe and return it.', (session) => moveStep(session, 1));
+const previousStep = defineStepTool('previous_step', 'Go back to the previous step of the recipe in cooking mode and return it.', (session) => moveStep(session, -1));
+const repeatStep = defineStepTool('repeat_step', 'Return the step cooking mode is showing, to read it out again.', (session) => session);
+
+const goToCookingStep = defineTool({
+  declaration: {
+    name: 'go_to_step',
+    description: 'Jump cooking mode to a given step of the recipe and return it.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { step: { type: Type.INTEGER, description: 'Step number, starting at 1.' } },
+      required: ['step'],
+    },
+  },
+  parseArgs: (args) => ({ step: requireNumber(args, 'step', 0, Number.MAX_SAFE_INTEGER) }),
+  run: ({ step }, state) => {
+    const session = requireCooking(state);
+    if (step > session.recipe.instructions.length) throw new Error(`The recipe only has ${session.recipe.instructions.length} steps.`);
+    const cooking = goToStep(session, step - 1);
+    return { output: describeCookingStep(cooking), cooking };
+  },
+});
+
+// --- Chat action cards ---
+// Text chat proposes rather than acts: these attach a card to the reply, and nothing changes until
+// the user presses its button.
+
+const showRecipe = defineTool({
+  declaration: {
+    name: 'show_recipe',
+    description: 'Show a recipe you are suggesting as a card the user can save to their cookbook or start cooking. Use it for every full recipe you give.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        summary: { type: Type.STRING, description: 'One or two enticing sentences.' },
+        healthInsight: { type: Type.STRING, description: 'One nutrition note relevant to the user.' },
+        ingredients: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'One line each, written as "amount unit ingredient, preparation".' },
+        instructions: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'One step each, without numbering.' },
+        servings: { type: Type.INTEGER },
+        prepMinutes: { type: Type.INTEGER },
+        cookMinutes: { type: Type.INTEGER },
+        cuisine: { type: Type.STRING },
+      },
+      required: ['name', 'summary', 'healthInsight', 'ingredients', 'instructions', 'servings'],
+    },
+  },
+  parseArgs: (args): Recipe => ({
+    name: requireString(args, 'name'),
+    summary: optionalString(args, 'summary') ?? '',
+    healthInsight: optionalString(args, 'healthInsight') ?? '',
+    ingredients: requireStringList(args, 'ingredients'),
+    instructions: requireStringList(args, 'instructions').map((step) => step.replace(/^\d+[.)]\s*/, '')),
+    servings: Math.round(requireNumber(args, 'servings', 0, 100)),
+    prepMinutes: optionalWholeNumber(args, 'prepMinutes'),
+    cookMinutes: optionalWholeNumber(args, 'cookMinutes'),
+    cuisine: optionalString(args, 'cuisine'),
+  }),
+  run: (recipe) => ({ output: { shown: recipe.name }, attachment: { type: 'recipe', recipe } }),
+});
+
+const INVENTORY_EDIT_ACTIONS: InventoryEdit['action'][] = ['add', 'remove', 'update'];
+
+const proposeInventoryChanges = defineTool({
+  declaration: {
+    name: 'propose_inventory_changes',
+    description: 'Offer changes to the user\'s fridge inventory, e.g. what a recipe uses up or what they say they bought. Shown as a card the user applies with one tap.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        edits: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              action: { type: Type.STRING, enum: INVENTORY_EDIT_ACTIONS },
+              name: { type: Type.STRING, description: 'Ingredient name; as it appears in the inventory for remove and update.' },
+              quantity: { type: Type.STRING, description: 'add: amount added. remove: amount used up, or leave out to remove it all. update: new total.' },
+              newName: { type: Type.STRING, description: 'update only.' },
+              expiresOn: { type: Type.STRING, description: 'Expiry date as YYYY-MM-DD; add and update only.' },
+              storage: { type: Type.STRING, enum: STORAGE_LOCATIONS },
+            },
+            required: ['action', 'name'],
+          },
+        },
+      },
+      required: ['edits'],
+    },
+  },
+  parseArgs: (args): InventoryEdit[] => requireObjectList(args, 'edits').map((edit) => {
+    const action = optionalString(edit, 'action') as InventoryEdit['action'];
+    if (!INVENTORY_EDIT_ACTIONS.includes(action)) throw new Error(`Each edit's "action" must be one of ${INVENTORY_EDIT_ACTIONS.join(', ')}.`);
+    return {
+      action,
+      name: requireString(edit, 'name'),
+      quantity: optionalString(edit, 'quantity'),
+      newName: optionalString(edit, 'newName'),
+      expiresOn: optionalDate(edit, 'expiresOn'),
+      storage: optionalStorage(edit, 'storage'),
+    };
+  }),
+  run: (edits) => ({ output: { shown: edits.length }, attachment: { type: 'inventoryEdits', edits } }),
+});
+
+const proposeShoppingItems = defineTool({
+  declaration: {
+    name: 'propose_shopping_items',
+    description: 'Offer items for the user\'s shopping list, e.g. what a recipe needs that the fridge lacks. Shown as a card the user adds with one tap.',
+    parameters: addToShoppingList.declaration.parameters,
+  },
+  parseArgs: parseShoppingItems,
+  run: (items) => ({ output: { shown: items.length }, attachment: { type: 'shoppingItems', items } }),
+});
+
+const LIVE_TOOLS = [
+  getInventory, getShoppingList, addInventoryItem, removeInventoryItem, updateInventoryItem, addToShoppingList, generateRecipes, getHealthProfile,
+  startTimer, getTimers, cancelTimer, nextStep, previousStep, repeatStep, goToCookingStep,
+];
+
+const CHAT_TOOLS = [getInventory, getShoppingList, getHealthProfile, showRecipe, proposeInventoryChanges, proposeShoppingItems];
+
+// --- Registry ---
+
+export function getLiveToolDeclarations(): FunctionDeclaration[] {
+  return LIVE_TOOLS.map((tool) => tool.declaration);
+}
+
+export function getChatToolDeclarations(): FunctionDeclaration[] {
+  return CHAT_TOOLS.map((tool) => tool.declaration);
+}
+
+// Runs one turn's calls in order and builds the responses for sendToolResponse. Each call sees
+// the changes made by the ones before it; changed state is handed to the app as it happens.
+// Bad arguments and failed actions are reported to the model as errors rather than thrown.
+export async function runLiveToolCalls(calls: FunctionCall[], actions: LiveToolActions): Promise<FunctionResponse[]> {
+  return (await runToolCalls(LIVE_TOOLS, calls, actions)).responses;
+}
+
+// The same for a text chat turn, also returning the cards its calls attached to the reply.
+export function runChatToolCalls(calls: FunctionCall[], actions: LiveToolActions): Promise<{ responses: FunctionResponse[]; attachments: ChatAttachment[] }> {
+  return runToolCalls(CHAT_TOOLS, calls, actions);
+}
+
+async function runToolCalls(
+  tools: LiveTool[],
+  calls: FunctionCall[],
+  actions: LiveToolActions,
+): Promise<{ responses: FunctionResponse[]; attachments: ChatAttachment[] }> {
+  let state = actions.getState();
+  const responses: FunctionResponse[] = [];
+  const attachments: ChatAttachment[] = [];
+  for (const call of calls) {
+    const tool = tools.find((candidate) => candidate.declaration.name === call.name);
+    try {
+      if (!tool) throw new Error(`Unknown tool "${call.name}".`);
+      const outcome = await tool.invoke(call.args ?? {}, state, actions);
+      if (outcome.attachment) attachments.push(outcome.attachment);
+      if (outcome.inventory) {
+        state = { ...state, inventory: outcome.inventory };
+        actions.updateInventory(outcome.inventory);
+      }
+      if (outcome.shoppingList) {
+        state = { ...state, shoppingList: outcome.shoppingList };
+        actions.updateShoppingList(outcome.shoppingList);
+      }
+      if (outcome.cooking) {
+        state = { ...state, cooking: outcome.cooking };
+        actions.setCookingStep(outcome.cooking.stepIndex);
+      }
+      if (outcome.timerChange) {
+        state = { ...state, timers: applyTimerChange(state.timers, outcome.timerChange) };
+        actions.changeTimers(outcome.timerChange);
+      }
+      responses.push({ id: call.id, name: call.name, response: { output: outcome.output } });
+    } catch (err: any) {
+      console.error(`Tool call ${call.name} failed:`, err);
+      responses.push({ id: call.id, name: call.name, response: { error: err.message || 'Unknown error' } });
+    }
+  }
+  return { responses, attachments };
+}
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownBlock, MarkdownInline, parseInline, parseMarkdown, toSafeHref } from './markdownService';
+
+// Every link in a tree, however deeply nested.
+function collectLinks(nodes: (MarkdownBlock | MarkdownInline)[]): string[] {
+  return nodes.flatMap((node): string[] => {
+    const own = node.type === 'link' ? [node.href] : [];
+    const children = 'children' in node ? collectLinks(node.children) : [];
+    const items = node.type === 'list' ? node.items.flatMap((item) => collectLinks(item)) : [];
+    const cells = node.type === 'table' ? [...node.header, ...node.rows.flat()].flatMap((cell) => collectLinks(cell)) : [];
+    return [...own, ...children, ...items, ...cells];
+  });
+}
+
+// The plain text of a tree, to check nothing was dropped.
+function textOf(nodes: (MarkdownBlock | MarkdownInline)[]): string {
+  return nodes.map((node): string => {
+    if (node.type === 'text' || node.type === 'code') return node.text;
+    if ('children' in node) return textOf(node.children);
+    if (node.type === 'list') return node.items.map((item) => textOf(item)).join('\n');
+    return '';
+  }).join('');
+}
+
+function depthOf(blocks: MarkdownBlock[]): number {
+  return Math.max(0, ...blocks.map((block) => {
+    if (block.type === 'quote') return 1 + depthOf(block.children);
+    if (block.type === 'list') return 1 + Math.max(0, ...block.items.map(depthOf));
+    return 0;
+  }));
+}
+
+describe('links', () => {
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    'JAVASCRIPT:alert(1)',
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    ' javascript:alert(1)',
+    '\u0001javascript:alert(1)',
+    'data:text/html,<script>alert(1)</script>',
+    'vbscript:msgbox(1)',
+    '/relative/path',
+  ])('refuses %j', (href) => {
+    expect(toSafeHref(href)).toBeNull();
+  });
+
+  it('accepts web and mail links', () => {
+    expect(toSafeHref('https://example.com/a')).toBe('https://example.com/a');
+    expect(toSafeHref('HTTP://example.com')).toBe('HTTP://example.com');
+    expect(toSafeHref('mailto:chef@example.com')).toBe('mailto:chef@example.com');
+  });
+
+  it('keeps the label of an unsafe link as text', () => {
+    const blocks = parseMarkdown('Click [here](javascript:alert(1)) or [there](JaVaScRiPt:alert(1)).');
+    expect(collectLinks(blocks)).toEqual([]);
+    expect(textOf(blocks)).toContain('here');
+    expect(textOf(blocks)).toContain('there');
+  });
+
+  it('does not make a link when a tab hides the scheme', () => {
+    expect(collectLinks(parseMarkdown('[x](java\tscript:alert(1))'))).toEqual([]);
+  });
+
+  it('renders safe links, autolinks and bare URLs without trailing punctuation', () => {
+    const blocks = parseMarkdown('[a](https://a.com/x_(y)) <https://b.com> see https://c.com/path.');
+    expect(collectLinks(blocks)).toEqual(['https://a.com/x_(y)', 'https://b.com', 'https://c.com/path']);
+  });
+
+  it('shows images as links instead of loading them', () => {
+    expect(parseInline('![pixel](https://t.example/p.png)')).toEqual([
+      { type: 'link', href: 'https://t.example/p.png', children: [{ type: 'text', text: 'pixel' }] },
+    ]);
+  });
+});
+
+describe('raw HTML', () => {
+  it('is kept as text', () => {
+    const html = '<img src=x onerror=alert(1)> <script>alert(1)</script>';
+    expect(parseMarkdown(html)).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: html }] }]);
+  });
+
+  it('inside a code fence stays code', () => {
+    expect(parseMarkdown('```html\n<img src=x onerror=alert(1)>\n```')).toEqual([
+      { type: 'code', language: 'html', text: '<img src=x onerror=alert(1)>' },
+    ]);
+  });
+});
+
+describe('unclosed syntax', () => {
+  it('runs an unclosed fence to the end, as while a reply streams in', () => {
+    expect(parseMarkdown('Steps:\n```\nboil water\n**not bold**')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'Steps:' }] },
+      { type: 'code', language: null, text: 'boil water\n**not bold**' },
+    ]);
+  });
+
+  it('leaves unclosed emphasis and code as literal text', () => {
+    expect(parseInline('**half bold and *half italic and `half code')).toEqual([
+      { type: 'text', text: '**half bold and *half italic and `half code' },
+    ]);
+  });
+
+  it('does not treat spaced asterisks as emphasis', () => {
+    expect(parseInline('2 * 3 * 4')).toEqual([{ type: 'text', text: '2 * 3 * 4' }]);
+  });
+
+  it('keeps underscores inside words', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }]);
+  });
+
+  it('nests bold and italic', () => {
+    expect(parseInline('***both*** *a **b** c*')).toEqual([
+      { type: 'strong', children: [{ type: 'emphasis', children: [{ type: 'text', text: 'both' }] }] },
+      { type: 'text', text: ' ' },
+      {
+        type: 'emphasis',
+        children: [{ type: 'text', text: 'a ' }, { type: 'strong', children: [{ type: 'text', text: 'b' }] }, { type: 'text', text: ' c' }],
+      },
+    ]);
+  });
+
+  it('stays fast on many stray delimiters', () => {
+    const started = Date.now();
+    parseInline('*a '.repeat(5000));
+    parseInline('['.repeat(5000));
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
+
+describe('tables', () => {
+  it('pads short rows and cuts long ones to the header width', () => {
+    const [table] = parseMarkdown('| Item | Qty |\n|:--|--:|\n| Milk |\n| Eggs \\| large | 6 | extra |');
+    expect(table).toEqual({
+      type: 'table',
+      align: ['left', 'right'],
+      header: [[{ type: 'text', text: 'Item' }], [{ type: 'text', text: 'Qty' }]],
+      rows: [
+        [[{ type: 'text', text: 'Milk' }], []],
+        [[{ type: 'text', text: 'Eggs | large' }], [{ type: 'text', text: '6' }]],
+      ],
+    });
+  });
+
+  it('needs a delimiter row', () => {
+    expect(parseMarkdown('a | b\nc | d')[0].type).toBe('paragraph');
+  });
+});
+
+describe('lists', () => {
+  it('nests bullets under numbered steps and keeps the start number', () => {
+    const [list] = parseMarkdown('3. Boil water\n4. Add pasta\n   - stir often\n   - salt it\n5. Drain');
+    expect(list.type).toBe('list');
+    if (list.type !== 'list') return;
+    expect(list.ordered).toBe(true);
+    expect(list.start).toBe(3);
+    expect(list.items).toHaveLength(3);
+    const nested = list.items[1][1];
+    expect(nested.type === 'list' && !nested.ordered && nested.items.length).toBe(2);
+  });
+
+  it('starts a new list when the marker kind changes', () => {
+    const blocks = parseMarkdown('- one\n- two\n1. first\n2. second');
+    expect(blocks.map((block) => block.type === 'list' && block.ordered)).toEqual([false, true]);
+  });
+
+  it('keeps loose items in one list and ends it at an unindented paragraph', () => {
+    const blocks = parseMarkdown('- a\n\n- b\n\nAfter');
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0].type === 'list' && blocks[0].items.length).toBe(2);
+    expect(blocks[1]).toEqual({ type: 'paragraph', children: [{ type: 'text', text: 'After' }] });
+  });
+
+  it('is not confused with a rule', () => {
+    expect(parseMarkdown('- - -')).toEqual([{ type: 'rule' }]);
+  });
+});
+
+describe('deep nesting', () => {
+  it('flattens deep quotes instead of overflowing the stack', () => {
+    const blocks = parseMarkdown(`${'> '.repeat(5000)}deep`);
+    expect(depthOf(blocks)).toBeLessThanOrEqual(10);
+    expect(textOf(blocks)).toContain('deep');
+  });
+
+  it('flattens deeply indented lists', () => {
+    const markdown = Array.from({ length: 200 }, (_, i) => `${' '.repeat(i * 2)}- level ${i}`).join('\n');
+    expect(depthOf(parseMarkdown(markdown))).toBeLessThanOrEqual(10);
+  });
+
+  it('survives deeply nested brackets and emphasis', () => {
+    expect(textOf(parseInline(`${'['.repeat(3000)}x${']'.repeat(3000)}`))).toContain('x');
+    expect(() => parseInline(`${'*_'.repeat(2000)}x${'_*'.repeat(2000)}`)).not.toThrow();
+  });
+});
+
+describe('headings and escapes', () => {
+  it('needs a space after the hashes', () => {
+    expect(parseMarkdown('## Pasta night\n#hashtag').map((block) => block.type)).toEqual(['heading', 'paragraph']);
+  });
+
+  it('honours backslash escapes', () => {
+    expect(parseInline('\\*not em\\* \\[x](y)')).toEqual([{ type: 'text', text: '*not em* [x](y)' }]);
+  });
+});
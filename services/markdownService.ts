@@ -0,0 +1,405 @@
+// A small Markdown parser for chat replies. It produces a tree that components render as React
+// elements, so raw HTML in a reply is only ever shown as text. Supports the subset models write:
+// headings, lists, tables, fenced code, quotes, rules, emphasis, inline code and links.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'code'; language: string | null; text: string }
+  | { type: 'table'; align: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'rule' };
+
+// Deeper nesting than this is flattened to text, so hostile input can't exhaust the stack.
+const MAX_BLOCK_DEPTH = 8;
+const MAX_INLINE_DEPTH = 8;
+
+// --- Links ---
+
+// Only web and mail links are rendered; anything else (javascript:, data:, relative paths) stays text.
+// Browsers ignore whitespace and control characters inside a scheme, so those are removed before checking.
+export function toSafeHref(raw: string): string | null {
+  const href = raw.trim().replace(/[\u0000-\u0020\u007f]/g, '');
+  return /^(https?:\/\/|mailto:)/i.test(href) ? href : null;
+}
+
+// --- Blocks ---
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const TABLE_DELIMITER = /^ *\|? *:?-+:? *(?:\| *:?-+:? *)*\|? *$/;
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return i + 1 < lines.length && lines[i].includes('|') && lines[i + 1].includes('|') && TABLE_DELIMITER.test(lines[i + 1]);
+}
+
+// Lines that end a paragraph without a blank line in between.
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, i);
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function parseAlignment(cell: string): TableAlignment {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : null;
+}
+
+function parseFence(lines: string[], start: number): { block: MarkdownBlock; next: number } {
+  const [, fence, language] = FENCE.exec(lines[start])!;
+  const indent = indentOf(lines[start]);
+  const body: string[] = [];
+  let i = start + 1;
+  // An unclosed fence runs to the end, which is also what a reply still streaming in looks like
+  while (i < lines.length && !new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`).test(lines[i])) {
+    body.push(lines[i].slice(Math.min(indent, indentOf(lines[i]))));
+    i += 1;
+  }
+  return { block: { type: 'code', language: language || null, text: body.join('\n') }, next: i + 1 };
+}
+
+function parseTable(lines: string[], start: number): { block: MarkdownBlock; next: number } {
+  const header = splitTableRow(lines[start]);
+  const align = splitTableRow(lines[start + 1]).map(parseAlignment);
+  const rows: MarkdownInline[][][] = [];
+  let i = start + 2;
+  while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+    const cells = splitTableRow(lines[i]);
+    // Rows are padded or cut to the header's width
+    rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+    i += 1;
+  }
+  return {
+    block: { type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map((cell) => parseInline(cell)), rows },
+    next: i,
+  };
+}
+
+function parseList(lines: string[], start: number, depth: number): { block: MarkdownBlock; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let current: string[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = LIST_ITEM.exec(line);
+    if (item && item[1].length <= baseIndent && !RULE.test(line)) {
+      if (/\d/.test(item[2]) !== ordered) break; // A different kind of list starts here
+      if (i > start) items.push(current);
+      // Continuation lines are dedented to this item's content
+      current = [item[3] ?? ''];
+      i += 1;
+      continue;
+    }
+    if (isBlank(line)) {
+      // A blank line only continues the list if more of it follows
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next += 1;
+      const resumes = next < lines.length && (indentOf(lines[next]) > baseIndent || LIST_ITEM.test(lines[next]) && indentOf(lines[next]) <= baseIndent);
+      if (!resumes) break;
+      current.push('');
+      i += 1;
+      continue;
+    }
+    if (indentOf(line) > baseIndent) {
+      current.push(line.slice(Math.min(indentOf(line), baseIndent + 2)));
+      i += 1;
+      continue;
+    }
+    // An unindented line straight after item text carries on that paragraph
+    if (!isBlank(lines[i - 1]) && !startsBlock(lines, i)) {
+      current.push(line.trim());
+      i += 1;
+      continue;
+    }
+    break;
+  }
+  items.push(current);
+
+  return {
+    block: {
+      type: 'list',
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      items: items.map((itemLines) => parseBlocks(itemLines, depth + 1)),
+    },
+    next: i,
+  };
+}
+
+function parseBlocks(lines: string[], depth: number): MarkdownBlock[] {
+  if (depth > MAX_BLOCK_DEPTH) {
+    return [{ type: 'paragraph', children: [{ type: 'text', text: lines.join('\n').trim() }] }];
+  }
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i += 1;
+      continue;
+    }
+    if (FENCE.test(line)) {
+      const { block, next } = parseFence(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      i += 1;
+      continue;
+    }
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i += 1;
+      continue;
+    }
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(QUOTE.exec(lines[i])![1]);
+        i += 1;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+    if (isTableStart(lines, i)) {
+      const { block, next } = parseTable(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i, depth);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+    const paragraph = [line.trim()];
+    i += 1;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i += 1;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+  return blocks;
+}
+
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return parseBlocks(lines, 0);
+}
+
+// --- Inlines ---
+
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>"\'';
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i;
+const BARE_URL = /^https?:\/\/[^\s<>]+/i;
+
+function isWhitespace(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char);
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+function runLength(text: string, index: number): number {
+  let end = index;
+  while (text[end] === text[index]) end += 1;
+  return end - index;
+}
+
+// Index of the closing delimiter for an opener of `length` characters, skipping escapes and code
+// spans. A longer run closes at its end, so "***a***" nests as strong around emphasis; "**" runs
+// never close single emphasis, so "*a **b** c*" keeps its bold.
+function findClosing(text: string, from: number, char: string, length: number): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const ticks = runLength(text, i);
+      const close = text.indexOf('`'.repeat(ticks), i + ticks);
+      i = close === -1 ? i + ticks : close + ticks;
+      continue;
+    }
+    if (text[i] === char) {
+      const run = runLength(text, i);
+      const closesHere = (length === 1 ? run !== 2 : run >= length)
+        && !isWhitespace(text[i - 1])
+        && !(char === '_' && isWordChar(text[i + run]));
+      if (closesHere && i > from) return i + run - length;
+      i += run;
+      continue;
+    }
+    i += 1;
+  }
+  return -1;
+}
+
+// The end of "[label](destination)" starting at `start`, or null if it isn't a link.
+function parseLinkAt(text: string, start: number): { label: string; href: string; end: number } | null {
+  let depth = 0;
+  let i = start;
+  for (; i < text.length; i += 1) {
+    if (text[i] === '\\') i += 1;
+    else if (text[i] === '[') depth += 1;
+    else if (text[i] === ']' && (depth -= 1) === 0) break;
+  }
+  if (i >= text.length || text[i + 1] !== '(') return null;
+  const label = text.slice(start + 1, i);
+  const match = /^\(\s*(<[^<>\n]*>|(?:[^\s()]|\([^\s()]*\))*)(?:\s+("[^"]*"|'[^']*'))?\s*\)/.exec(text.slice(i + 1));
+  if (!match) return null;
+  const destination = match[1].startsWith('<') ? match[1].slice(1, -1) : match[1];
+  return { label, href: destination, end: i + 1 + match[0].length };
+}
+
+// A bare URL without the punctuation that usually follows one in a sentence.
+function trimBareUrl(url: string): string {
+  let trimmed = url;
+  for (;;) {
+    const last = trimmed[trimmed.length - 1];
+    const unbalanced = last === ')' && (trimmed.match(/\(/g)?.length ?? 0) < (trimmed.match(/\)/g)?.length ?? 0);
+    if (!'.,;:!?\'"*_~'.includes(last) && !unbalanced) return trimmed;
+    trimmed = trimmed.slice(0, -1);
+  }
+}
+
+export function parseInline(text: string, depth: number = 0): MarkdownInline[] {
+  if (depth > MAX_INLINE_DEPTH) return text ? [{ type: 'text', text }] : [];
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+  // Once a delimiter has no closer past some point, later openers of it can't have one either,
+  // which keeps a reply full of stray asterisks from going quadratic
+  const unclosedFrom = new Map<string, number>();
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.includes(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (char === '\n') {
+      push({ type: 'break' });
+      i += 1;
+      continue;
+    }
+    if (char === '`') {
+      const ticks = runLength(text, i);
+      const close = text.indexOf('`'.repeat(ticks), i + ticks);
+      if (close !== -1 && runLength(text, close) === ticks) {
+        const code = text.slice(i + ticks, close).replace(/\n/g, ' ');
+        push({ type: 'code', text: /^ .* $/.test(code) && code.trim() ? code.slice(1, -1) : code });
+        i = close + ticks;
+      } else {
+        buffer += text.slice(i, i + ticks);
+        i += ticks;
+      }
+      continue;
+    }
+    // Images are shown as links rather than loaded, so a reply can't embed tracking pixels
+    if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const link = parseLinkAt(text, char === '!' ? i + 1 : i);
+      if (link) {
+        const href = toSafeHref(link.href);
+        const children = parseInline(link.label || link.href, depth + 1);
+        flush();
+        // An unsafe link keeps its label as plain text
+        nodes.push(...(href ? [{ type: 'link', href, children } as MarkdownInline] : children));
+        i = link.end;
+        continue;
+      }
+    }
+    if (char === '<') {
+      const autolink = AUTOLINK.exec(text.slice(i));
+      if (autolink) {
+        push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+    if ((char === 'h' || char === 'H') && !isWordChar(text[i - 1])) {
+      const url = BARE_URL.exec(text.slice(i));
+      if (url) {
+        const href = trimBareUrl(url[0]);
+        push({ type: 'link', href, children: [{ type: 'text', text: href }] });
+        i += href.length;
+        continue;
+      }
+    }
+    if (char === '*' || char === '_' || char === '~') {
+      const run = runLength(text, i);
+      const canOpen = !isWhitespace(text[i + run]) && !(char === '_' && isWordChar(text[i - 1]));
+      const length = char === '~' ? 2 : Math.min(run, 2);
+      const key = char.repeat(length);
+      if (canOpen && (char !== '~' || run === 2) && i < (unclosedFrom.get(key) ?? Infinity)) {
+        const close = findClosing(text, i + length, char, length);
+        if (close === -1) unclosedFrom.set(key, i);
+        else {
+          const type = char === '~' ? 'strikethrough' : length === 2 ? 'strong' : 'emphasis';
+          push({ type, children: parseInline(text.slice(i + length, close), depth + 1) });
+          i = close + length;
+          continue;
+        }
+      }
+      buffer += text.slice(i, i + run);
+      i += run;
+      continue;
+    }
+
+    buffer += char;
+    i += 1;
+  }
+  flush();
+  return nodes;
+}
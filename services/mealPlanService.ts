@@ -0,0 +1,97 @@
+import { Ingredient, MealPlan, MealSlot, PlannedMeal, Recipe, UserProfile } from '../types';
+import { MEAL_PLAN_DAYS } from '../constants';
+import { addDays, daysUntilExpiry, toISODate } from './shelfLifeService';
+import { checkRecipeSafety } from './allergenService';
+import { applyConsumption, findMissingIngredients, matchRecipeToInventory, toDeduction } from './recipeInventoryService';
+import { mergeIntoShoppingList } from './shoppingListService';
+import { formatQuantity } from './quantityService';
+import { toIngredientLine } from './recipeScalingService';
+
+export interface MealSlotRef {
+  date: string;
+  slot: MealSlot;
+}
+
+export const MEAL_SLOTS: { id: MealSlot; label: string; icon: string }[] = [
+  { id: 'breakfast', label: 'Breakfast', icon: '🍳' },
+  { id: 'lunch', label: 'Lunch', icon: '🥗' },
+  { id: 'dinner', label: 'Dinner', icon: '🍲' },
+];
+
+const SLOT_ORDER: Record<MealSlot, number> = { breakfast: 0, lunch: 1, dinner: 2 };
+
+export function getPlanDates(plan: Pick<MealPlan, 'weekStart'>): string[] {
+  return Array.from({ length: MEAL_PLAN_DAYS }, (_, day) => addDays(plan.weekStart, day));
+}
+
+export function getPlannedMeal(plan: MealPlan, ref: MealSlotRef): PlannedMeal | undefined {
+  return plan.meals.find((meal) => meal.date === ref.date && meal.slot === ref.slot);
+}
+
+// Meals in the order they'll be eaten.
+export function sortMeals(meals: PlannedMeal[]): PlannedMeal[] {
+  return [...meals].sort((a, b) => a.date.localeCompare(b.date) || SLOT_ORDER[a.slot] - SLOT_ORDER[b.slot]);
+}
+
+// Usable inventory, soonest to expire first, for the planning prompt. Spoiled items are left out.
+export function getExpiryPriorities(inventory: Ingredient[], today: string = toISODate(new Date())): Ingredient[] {
+  return inventory
+    .filter((item) => item.freshness !== 'spoiled')
+    .sort((a, b) => daysUntilExpiry(a, today) - daysUntilExpiry(b, today));
+}
+
+// Turns the model's day-numbered plan into dated meals. The model is told about the profile,
+// but recipes are still run through the allergen checker: ones containing an allergy are left
+// out (their slot stays empty) and reported by name. A slot filled twice keeps the first meal.
+export function createMealPlan(
+  weekStart: string,
+  generated: { day: number; slot: MealSlot; recipe: Recipe }[],
+  profile: UserProfile,
+): { plan: MealPlan; rejected: string[] } {
+  const meals: PlannedMeal[] = [];
+  const rejected: string[] = [];
+  generated.forEach(({ day, slot, recipe }) => {
+    if (day < 0 || day >= MEAL_PLAN_DAYS || SLOT_ORDER[slot] === undefined) return;
+    if (checkRecipeSafety(recipe, profile).status === 'blocked') {
+      rejected.push(recipe.name);
+      return;
+    }
+    const date = addDays(weekStart, day);
+    if (meals.some((meal) => meal.date === date && meal.slot === slot)) return;
+    meals.push({ date, slot, recipe: { ...recipe, ingredientLines: recipe.ingredients.map(toIngredientLine) } });
+  });
+  return { plan: { weekStart, meals: sortMeals(meals) }, rejected };
+}
+
+// Moves a meal to another slot; a meal already there swaps into the slot it came from.
+export function moveMeal(plan: MealPlan, from: MealSlotRef, to: MealSlotRef): MealPlan {
+  if (from.date === to.date && from.slot === to.slot) return plan;
+  const meals = plan.meals.map((meal) => {
+    if (meal.date === from.date && meal.slot === from.slot) return { ...meal, ...to };
+    if (meal.date === to.date && meal.slot === to.slot) return { ...meal, ...from };
+    return meal;
+  });
+  return { ...plan, meals: sortMeals(meals) };
+}
+
+export function removeMeal(plan: MealPlan, ref: MealSlotRef): MealPlan {
+  return { ...plan, meals: plan.meals.filter((meal) => !(meal.date === ref.date && meal.slot === ref.slot)) };
+}
+
+// What has to be bought for the whole plan. Meals are walked in order against a running copy
+// of the inventory, so an ingredient shared by two meals is only counted as stocked once;
+// the gaps are then aggregated per ingredient ("200 g" + "300 g" spinach -> "500 g").
+export function getPlanShoppingNeeds(plan: MealPlan, inventory: Ingredient[]): { name: string; quantity?: string }[] {
+  let remaining = inventory;
+  const gaps: { name: string; quantity?: string }[] = [];
+  sortMeals(plan.meals).forEach(({ recipe }) => {
+    findMissingIngredients(recipe, remaining).forEach((missing) => {
+      gaps.push({ name: missing.name, quantity: missing.quantity ? formatQuantity(missing.quantity) : undefined });
+    });
+    const deductions = matchRecipeToInventory(recipe, remaining)
+      .filter((match) => match.inventoryIndex !== null && !match.needsReview)
+      .map((match) => toDeduction(remaining[match.inventoryIndex!], match.consumeAmount));
+    remaining = applyConsumption(remaining, deductions).inventory;
+  });
+  return mergeIntoShoppingList([], gaps).map(({ name, quantity }) => ({ name, quantity }));
+}
@@ -0,0 +1,133 @@
+import { NutritionFacts, Quantity, Recipe, RecipeNutrition } from '../types';
+import { NUTRIENT_TABLE, NutrientEntry } from '../data/nutrients';
+import { DEFAULT_RECIPE_SERVINGS } from '../constants';
+import { parseIngredientLine, normalizeIngredientName, lookupPhrase } from './recipeInventoryService';
+import { convertQuantity } from './quantityService';
+import geminiService from './geminiService';
+
+export const EMPTY_NUTRITION: NutritionFacts = {
+  calories: 0, proteinGrams: 0, carbsGrams: 0, fatGrams: 0, fiberGrams: 0, sodiumMg: 0,
+};
+
+const NUTRITION_KEYS = Object.keys(EMPTY_NUTRITION) as (keyof NutritionFacts)[];
+
+function buildIndex(): Map<string, NutrientEntry> {
+  const index = new Map<string, NutrientEntry>();
+  Object.entries(NUTRIENT_TABLE).forEach(([names, entry]) => {
+    names.split('|').forEach((name) => {
+      const key = normalizeIngredientName(name);
+      if (key && !index.has(key)) index.set(key, entry);
+    });
+  });
+  return index;
+}
+
+const NUTRIENT_INDEX = buildIndex();
+
+export function lookupNutrients(name: string): NutrientEntry | null {
+  return lookupPhrase(NUTRIENT_INDEX, normalizeIngredientName(name));
+}
+
+// Weight of a measured amount of a food, or null when the unit can't be turned into grams
+// for it (e.g. "1 bag" of something the table has no bag weight for).
+export function quantityToGrams(quantity: Quantity, entry: NutrientEntry): number | null {
+  if (quantity.family === 'mass') return convertQuantity(quantity, 'g')?.amount ?? null;
+  if (quantity.family === 'volume') {
+    const ml = convertQuantity(quantity, 'ml')?.amount;
+    return ml === undefined ? null : ml * entry.gramsPerMl;
+  }
+  const pieces = convertQuantity(quantity, 'piece');
+  if (pieces && entry.gramsPer.piece !== undefined) return pieces.amount * entry.gramsPer.piece;
+  const gramsPerUnit = entry.gramsPer[quantity.unit];
+  return gramsPerUnit === undefined ? null : quantity.amount * gramsPerUnit;
+}
+
+export function scaleNutrition(facts: NutritionFacts, factor: number): NutritionFacts {
+  const scaled = { ...facts };
+  NUTRITION_KEYS.forEach((key) => { scaled[key] = facts[key] * factor; });
+  return scaled;
+}
+
+export function addNutrition(a: NutritionFacts, b: NutritionFacts): NutritionFacts {
+  const sum = { ...a };
+  NUTRITION_KEYS.forEach((key) => { sum[key] = a[key] + b[key]; });
+  return sum;
+}
+
+// Whole kcal and mg, one decimal for grams.
+export function roundNutrition(facts: NutritionFacts): NutritionFacts {
+  return {
+    calories: Math.round(facts.calories),
+    proteinGrams: Math.round(facts.proteinGrams * 10) / 10,
+    carbsGrams: Math.round(facts.carbsGrams * 10) / 10,
+    fatGrams: Math.round(facts.fatGrams * 10) / 10,
+    fiberGrams: Math.round(facts.fiberGrams * 10) / 10,
+    sodiumMg: Math.round(facts.sodiumMg),
+  };
+}
+
+// Nutrition for one ingredient line from the local table. Lines without an amount
+// ("salt to taste", "parsley, to garnish") count as negligible; null means the line
+// couldn't be resolved locally.
+export function estimateLineNutrition(line: string): NutritionFacts | null {
+  const parsed = parseIngredientLine(line);
+  if (!parsed.quantity && !parsed.alternateQuantity) return { ...EMPTY_NUTRITION };
+  const entry = lookupNutrients(parsed.name);
+  if (!entry) return null;
+  const grams = [parsed.quantity, parsed.alternateQuantity]
+    .map((quantity) => (quantity ? quantityToGrams(quantity, entry) : null))
+    .find((value) => value !== null) ?? null;
+  return grams === null ? null : scaleNutrition(entry.per100g, grams / 100);
+}
+
+export function getServings(recipe: Recipe): number {
+  return recipe.servings && recipe.servings > 0 ? recipe.servings : DEFAULT_RECIPE_SERVINGS;
+}
+
+function buildNutrition(total: NutritionFacts, servings: number, source: RecipeNutrition['source'], unresolved: string[]): RecipeNutrition {
+  return {
+    servings,
+    total: roundNutrition(total),
+    perServing: roundNutrition(scaleNutrition(total, 1 / servings)),
+    source,
+    unresolved,
+  };
+}
+
+// Estimate from the bundled table only; lines it can't resolve are listed, not guessed.
+export function estimateNutritionLocally(recipe: Recipe): RecipeNutrition {
+  let total = { ...EMPTY_NUTRITION };
+  const unresolved: string[] = [];
+  recipe.ingredients.forEach((line) => {
+    const facts = estimateLineNutrition(line);
+    if (facts) total = addNutrition(total, facts);
+    else unresolved.push(line);
+  });
+  return buildNutrition(total, getServings(recipe), 'local', unresolved);
+}
+
+// Local estimate first; the model is only asked about the lines the table couldn't resolve.
+// If that call fails the local estimate is kept, with those lines listed as unresolved.
+export async function estimateRecipeNutrition(recipe: Recipe): Promise<RecipeNutrition> {
+  const local = estimateNutritionLocally(recipe);
+  if (local.unresolved.length === 0) return local;
+  try {
+    const estimates = await geminiService.estimateIngredientNutrition(local.unresolved);
+    const stillUnresolved = local.unresolved.filter((line) => !estimates[line]);
+    const total = local.unresolved.reduce(
+      (sum, line) => (estimates[line] ? addNutrition(sum, estimates[line]) : sum),
+      local.total,
+    );
+    const source = stillUnresolved.length === local.unresolved.length ? 'local'
+      : local.unresolved.length === recipe.ingredients.length ? 'model' : 'mixed';
+    return buildNutrition(total, local.servings, source, stillUnresolved);
+  } catch (err) {
+    console.error('Error estimating nutrition with the model:', err);
+    return local;
+  }
+}
+
+// Stored nutrition when the recipe has it, otherwise a local estimate (e.g. recipes saved before nutrition existed).
+export function getRecipeNutrition(recipe: Recipe): RecipeNutrition {
+  return recipe.nutrition ?? estimateNutritionLocally(recipe);
+}
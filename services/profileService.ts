@@ -0,0 +1,72 @@
+import { DietType, UserProfile } from '../types';
+
+export const DIET_TYPES: { value: DietType; label: string; rule: string }[] = [
+  { value: 'omnivore', label: 'No restrictions', rule: 'No dietary restrictions.' },
+  { value: 'vegetarian', label: 'Vegetarian', rule: 'Vegetarian: no meat, poultry or seafood.' },
+  { value: 'vegan', label: 'Vegan', rule: 'Vegan: no animal products at all, including dairy, eggs and honey.' },
+  { value: 'pescatarian', label: 'Pescatarian', rule: 'Pescatarian: no meat or poultry; fish and seafood are fine.' },
+  { value: 'keto', label: 'Keto', rule: 'Ketogenic: very low carbohydrate (under ~20-30 g net carbs a day), high fat.' },
+  { value: 'low-carb', label: 'Low-carb', rule: 'Low-carb: keep starches and sugars to a minimum.' },
+  { value: 'paleo', label: 'Paleo', rule: 'Paleo: no grains, legumes, dairy or refined sugar.' },
+  { value: 'mediterranean', label: 'Mediterranean', rule: 'Mediterranean: favour vegetables, legumes, whole grains, fish and olive oil.' },
+];
+
+export const DEFAULT_USER_PROFILE: UserProfile = {
+  name: '',
+  dietType: 'omnivore',
+  allergens: [],
+  intolerances: [],
+  dislikedFoods: [],
+  targets: {},
+};
+
+export function getDietLabel(dietType: DietType): string {
+  return DIET_TYPES.find((diet) => diet.value === dietType)?.label ?? dietType;
+}
+
+// Summarises the profile as plain rules the model must follow. Allergens are stated as hard
+// constraints; intolerances and dislikes as strong preferences.
+export function describeProfileForPrompt(profile: UserProfile): string {
+  const lines: string[] = [];
+  if (profile.name) lines.push(`The user's name is ${profile.name}.`);
+  lines.push(`Diet: ${DIET_TYPES.find((diet) => diet.value === profile.dietType)?.rule ?? profile.dietType}`);
+  if (profile.allergens.length > 0) {
+    lines.push(`ALLERGIES (never include these or anything derived from them): ${profile.allergens.join(', ')}.`);
+  }
+  if (profile.intolerances.length > 0) {
+    lines.push(`Intolerances (avoid, or use a suitable substitute): ${profile.intolerances.join(', ')}.`);
+  }
+  if (profile.dislikedFoods.length > 0) {
+    lines.push(`Dislikes (do not use): ${profile.dislikedFoods.join(', ')}.`);
+  }
+  const { calories, proteinGrams, carbsGrams, fatGrams } = profile.targets;
+  const targets = [
+    calories ? `${calories} kcal` : null,
+    proteinGrams ? `${proteinGrams} g protein` : null,
+    carbsGrams ? `${carbsGrams} g carbs` : null,
+    fatGrams ? `${fatGrams} g fat` : null,
+  ].filter((target): target is string => target !== null);
+  if (targets.length > 0) {
+    lines.push(`Daily targets: ${targets.join(', ')}. Size portions so a meal fits sensibly within them.`);
+  }
+  return lines.join('\n');
+}
+
+// Appends the user's profile to a system instruction so every response respects it.
+export function withUserProfile(systemInstruction: string, profile: UserProfile): string {
+  return `${systemInstruction}\n\nUser profile - every suggestion must respect this:\n${describeProfileForPrompt(profile)}`;
+}
+
+// Splits a comma-separated entry ("peanuts, shellfish") into trimmed, de-duplicated items.
+export function parseListInput(value: string): string[] {
+  const seen = new Set<string>();
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
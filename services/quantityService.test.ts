@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addQuantities, compareQuantities, convertQuantity, convertToSystem, formatQuantity, parseQuantity, parseQuantityPrefix,
+  subtractQuantities,
+} from './quantityService';
+
+describe('parseQuantity', () => {
+  it.each([
+    ['2 large', { amount: 2, unit: 'piece', family: 'count', descriptor: 'large' }],
+    ['500g', { amount: 500, unit: 'g', family: 'mass' }],
+    ['1½ cups', { amount: 1.5, unit: 'cup', family: 'volume' }],
+    ['1 1/2 cups', { amount: 1.5, unit: 'cup', family: 'volume' }],
+    ['a pinch', { amount: 1, unit: 'pinch', family: 'volume' }],
+    ['pinch', { amount: 1, unit: 'pinch', family: 'volume' }],
+    ['1,5 l', { amount: 1.5, unit: 'l', family: 'volume' }],
+    ['2 x 400 g', { amount: 800, unit: 'g', family: 'mass' }],
+    ['400 g x 2', { amount: 800, unit: 'g', family: 'mass' }],
+    ['a dozen', { amount: 1, unit: 'dozen', family: 'count' }],
+    ['3 tins', { amount: 3, unit: 'can', family: 'count' }],
+  ])('reads %j', (text, quantity) => {
+    expect(parseQuantity(text)).toEqual(quantity);
+  });
+
+  it('keeps text without an amount as one piece', () => {
+    expect(parseQuantity('some')).toEqual({ amount: 1, unit: 'piece', family: 'count', descriptor: 'some' });
+    expect(parseQuantity('')).toEqual({ amount: 1, unit: 'piece', family: 'count' });
+  });
+
+  it('splits the quantity off an ingredient line', () => {
+    expect(parseQuantityPrefix('2 large eggs')).toEqual({ quantity: { amount: 2, unit: 'piece', family: 'count', descriptor: 'large' }, rest: 'eggs' });
+    expect(parseQuantityPrefix('a pinch of salt')).toEqual({ quantity: { amount: 1, unit: 'pinch', family: 'volume' }, rest: 'salt' });
+    expect(parseQuantityPrefix('salt to taste')).toEqual({ quantity: null, rest: 'salt to taste' });
+  });
+});
+
+describe('formatQuantity', () => {
+  it('writes amounts the way they were parsed', () => {
+    expect(formatQuantity(parseQuantity('2 large'))).toBe('2 large');
+    expect(formatQuantity(parseQuantity('1½ cups'))).toBe('1 1/2 cups');
+    expect(formatQuantity(parseQuantity('500g'))).toBe('500 g');
+  });
+});
+
+describe('conversion', () => {
+  it('round-trips between metric and imperial', () => {
+    const flour = parseQuantity('500 g');
+    const imperial = convertToSystem(flour, 'imperial');
+    expect(imperial.unit).toBe('lb');
+    expect(imperial.amount).toBeCloseTo(1.1023, 3);
+    const back = convertToSystem(imperial, 'metric');
+    expect(back.unit).toBe('g');
+    expect(back.amount).toBeCloseTo(500, 6);
+
+    const milk = convertToSystem(parseQuantity('2 cups'), 'metric');
+    expect(milk.unit).toBe('ml');
+    expect(milk.amount).toBeCloseTo(473.176, 3);
+    expect(convertQuantity(milk, 'cup')!.amount).toBeCloseTo(2, 9);
+  });
+
+  it('converts within a family and refuses across families and containers', () => {
+    expect(convertQuantity(parseQuantity('1 kg'), 'g')).toEqual({ amount: 1000, unit: 'g', family: 'mass' });
+    expect(convertQuantity(parseQuantity('2 dozen'), 'piece')).toEqual({ amount: 24, unit: 'piece', family: 'count' });
+    expect(convertQuantity(parseQuantity('1 kg'), 'ml')).toBeNull();
+    expect(convertQuantity(parseQuantity('2 cans'), 'piece')).toBeNull();
+  });
+});
+
+describe('arithmetic', () => {
+  it('adds and subtracts in the first quantity\'s unit', () => {
+    expect(addQuantities(parseQuantity('1 kg'), parseQuantity('250 g'))).toEqual({ amount: 1.25, unit: 'kg', family: 'mass' });
+    expect(subtractQuantities(parseQuantity('1 l'), parseQuantity('250 ml'))).toEqual({ amount: 0.75, unit: 'l', family: 'volume' });
+  });
+
+  it('clamps subtraction at zero', () => {
+    expect(subtractQuantities(parseQuantity('200 g'), parseQuantity('1 kg'))).toEqual({ amount: 0, unit: 'g', family: 'mass' });
+  });
+
+  it('returns null when the units don\'t convert', () => {
+    expect(subtractQuantities(parseQuantity('500 g'), parseQuantity('2 cups'))).toBeNull();
+    expect(subtractQuantities(parseQuantity('3 cans'), parseQuantity('400 g'))).toBeNull();
+    expect(subtractQuantities(parseQuantity('1 bag'), parseQuantity('1 box'))).toBeNull();
+    expect(addQuantities(parseQuantity('6'), parseQuantity('1 l'))).toBeNull();
+    expect(compareQuantities(parseQuantity('1 tbsp'), parseQuantity('10 g'))).toBeNull();
+  });
+
+  it('compares across units', () => {
+    expect(compareQuantities(parseQuantity('1 kg'), parseQuantity('1000 g'))).toBe(0);
+    expect(compareQuantities(parseQuantity('1 tsp'), parseQuantity('1 tbsp'))!).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,300 @@
+import { Quantity, UnitFamily } from '../types';
+
+export type MeasurementSystem = 'metric' | 'imperial' | 'count';
+
+interface UnitDefinition {
+  symbol: string;
+  family: UnitFamily;
+  system: MeasurementSystem;
+  // Factor to the family's base unit (g, ml, piece). Container units like "bag" have none,
+  // so they only combine with the same unit.
+  toBase?: number;
+  plural?: string;
+  aliases: string[];
+}
+
+const UNITS: UnitDefinition[] = [
+  // Mass (base: g)
+  { symbol: 'mg', family: 'mass', system: 'metric', toBase: 0.001, aliases: ['mg', 'milligram', 'milligrams'] },
+  { symbol: 'g', family: 'mass', system: 'metric', toBase: 1, aliases: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'] },
+  { symbol: 'kg', family: 'mass', system: 'metric', toBase: 1000, aliases: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'] },
+  { symbol: 'oz', family: 'mass', system: 'imperial', toBase: 28.3495, aliases: ['oz', 'ounce', 'ounces'] },
+  { symbol: 'lb', family: 'mass', system: 'imperial', toBase: 453.592, aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+  // Volume (base: ml)
+  { symbol: 'ml', family: 'volume', system: 'metric', toBase: 1, aliases: ['ml', 'mls', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  { symbol: 'cl', family: 'volume', system: 'metric', toBase: 10, aliases: ['cl', 'centiliter', 'centiliters', 'centilitre', 'centilitres'] },
+  { symbol: 'dl', family: 'volume', system: 'metric', toBase: 100, aliases: ['dl', 'deciliter', 'deciliters', 'decilitre', 'decilitres'] },
+  { symbol: 'l', family: 'volume', system: 'metric', toBase: 1000, aliases: ['l', 'liter', 'liters', 'litre', 'litres', 'ltr'] },
+  { symbol: 'pinch', family: 'volume', system: 'imperial', toBase: 0.31, plural: 'pinches', aliases: ['pinch', 'pinches'] },
+  { symbol: 'dash', family: 'volume', system: 'imperial', toBase: 0.62, plural: 'dashes', aliases: ['dash', 'dashes'] },
+  { symbol: 'tsp', family: 'volume', system: 'imperial', toBase: 4.92892, aliases: ['tsp', 'tsps', 'teaspoon', 'teaspoons'] },
+  { symbol: 'tbsp', family: 'volume', system: 'imperial', toBase: 14.7868, aliases: ['tbsp', 'tbsps', 'tbs', 'tablespoon', 'tablespoons'] },
+  { symbol: 'fl oz', family: 'volume', system: 'imperial', toBase: 29.5735, aliases: ['fl oz', 'fl. oz', 'fl. oz.', 'fluid ounce', 'fluid ounces'] },
+  { symbol: 'cup', family: 'volume', system: 'imperial', toBase: 236.588, plural: 'cups', aliases: ['cup', 'cups'] },
+  { symbol: 'pint', family: 'volume', system: 'imperial', toBase: 473.176, plural: 'pints', aliases: ['pint', 'pints', 'pt'] },
+  { symbol: 'quart', family: 'volume', system: 'imperial', toBase: 946.353, plural: 'quarts', aliases: ['quart', 'quarts', 'qt'] },
+  { symbol: 'gallon', family: 'volume', system: 'imperial', toBase: 3785.41, plural: 'gallons', aliases: ['gallon', 'gallons', 'gal'] },
+  // Count (base: piece)
+  { symbol: 'piece', family: 'count', system: 'count', toBase: 1, plural: 'pieces', aliases: ['piece', 'pieces', 'pc', 'pcs', 'item', 'items', 'unit', 'units', 'whole'] },
+  { symbol: 'pair', family: 'count', system: 'count', toBase: 2, plural: 'pairs', aliases: ['pair', 'pairs'] },
+  { symbol: 'dozen', family: 'count', system: 'count', toBase: 12, plural: 'dozen', aliases: ['dozen', 'doz'] },
+  ...[
+    ['bag', 'bags'], ['pack', 'packs', 'packet', 'packets', 'package', 'packages'], ['box', 'boxes'],
+    ['can', 'cans', 'tin', 'tins'], ['jar', 'jars'], ['bottle', 'bottles'], ['carton', 'cartons'],
+    ['tub', 'tubs'], ['container', 'containers'], ['bunch', 'bunches'], ['head', 'heads'],
+    ['clove', 'cloves'], ['slice', 'slices'], ['loaf', 'loaves'], ['stick', 'sticks'],
+    ['sprig', 'sprigs'], ['handful', 'handfuls'], ['block', 'blocks'], ['fillet', 'fillets'],
+  ].map(([symbol, plural, ...rest]): UnitDefinition => ({
+    symbol,
+    family: 'count',
+    system: 'count',
+    plural,
+    aliases: [symbol, plural, ...rest],
+  })),
+];
+
+// Units worth converting *into*; the rest (cl, pinch, pint...) are only ever parsed.
+const CONVERSION_TARGETS = new Set(['g', 'kg', 'oz', 'lb', 'ml', 'l', 'tsp', 'tbsp', 'cup', 'quart', 'gallon']);
+
+const UNIT_BY_ALIAS = new Map<string, UnitDefinition>();
+UNITS.forEach((unit) => unit.aliases.forEach((alias) => UNIT_BY_ALIAS.set(alias, unit)));
+const UNIT_BY_SYMBOL = new Map(UNITS.map((unit) => [unit.symbol, unit]));
+
+// Size words that describe a counted item rather than measure it ("2 large").
+const DESCRIPTORS = new Set(['small', 'medium', 'large', 'big', 'extra large', 'extra-large', 'jumbo', 'mini', 'heaping', 'level', 'scant', 'generous']);
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, eleven: 11, twelve: 12, half: 0.5, 'a half': 0.5, 'a couple of': 2,
+  'a couple': 2, couple: 2, 'a few': 3, few: 3, several: 4,
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '¼': 0.25, '½': 0.5, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3, '⅛': 0.125, '⅜': 0.375, '⅝': 0.625, '⅞': 0.875,
+};
+
+const NUMBER_PATTERN = String.raw`(?:\d+\s+\d+\/\d+|\d+\/\d+|\d*[.,]?\d+\s*[¼½¾⅓⅔⅛⅜⅝⅞]|\d*[.,]?\d+|[¼½¾⅓⅔⅛⅜⅝⅞])`;
+const AMOUNT_REGEX = new RegExp(
+  String.raw`^(${NUMBER_PATTERN})(?:\s*(?:-|–|to)\s*(${NUMBER_PATTERN}))?(?:\s*[x×]\s*(${NUMBER_PATTERN}))?`,
+  'i',
+);
+
+function parseNumber(token: string): number {
+  const text = token.trim().replace(',', '.');
+  const unicode = text.match(/^(\d*\.?\d*)\s*([¼½¾⅓⅔⅛⅜⅝⅞])$/);
+  if (unicode) {
+    return (unicode[1] ? parseFloat(unicode[1]) : 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / parseInt(mixed[3], 10);
+  }
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return parseInt(fraction[1], 10) / parseInt(fraction[2], 10);
+  }
+  return parseFloat(text);
+}
+
+function matchUnit(text: string): { unit: UnitDefinition; length: number } | null {
+  const lower = text.toLowerCase();
+  // Longest alias first so "fl oz" wins over "fl" and "pounds" over "pound".
+  let best: { unit: UnitDefinition; length: number } | null = null;
+  for (const [alias, unit] of UNIT_BY_ALIAS) {
+    if (!lower.startsWith(alias)) continue;
+    const next = lower.charAt(alias.length);
+    if (next && /[a-z]/.test(next)) continue;
+    if (!best || alias.length > best.length) {
+      best = { unit, length: alias.length + (next === '.' ? 1 : 0) };
+    }
+  }
+  return best;
+}
+
+function matchDescriptor(text: string): { descriptor: string; length: number } | null {
+  const lower = text.toLowerCase();
+  for (const descriptor of DESCRIPTORS) {
+    if (lower.startsWith(descriptor) && !/[a-z]/.test(lower.charAt(descriptor.length))) {
+      return { descriptor, length: descriptor.length };
+    }
+  }
+  return null;
+}
+
+function matchLeadingAmount(text: string): { amount: number; length: number } | null {
+  const numeric = text.match(AMOUNT_REGEX);
+  if (numeric) {
+    let amount = parseNumber(numeric[1]);
+    // Ranges ("2-3") resolve to the upper bound so we never under-estimate what is needed.
+    if (numeric[2]) amount = Math.max(amount, parseNumber(numeric[2]));
+    // Multipacks ("2 x 400g") multiply through.
+    if (numeric[3]) amount *= parseNumber(numeric[3]);
+    return { amount, length: numeric[0].length };
+  }
+  const lower = text.toLowerCase();
+  const word = Object.keys(WORD_NUMBERS)
+    .sort((a, b) => b.length - a.length)
+    .find((candidate) => lower.startsWith(candidate) && !/[a-z]/.test(lower.charAt(candidate.length)));
+  if (word) {
+    return { amount: WORD_NUMBERS[word], length: word.length };
+  }
+  return null;
+}
+
+// Parses a leading quantity off free text ("2 large eggs", "500g chicken", "1 1/2 cups milk").
+// `rest` is whatever follows the quantity, with a leading "of" removed.
+export function parseQuantityPrefix(text: string): { quantity: Quantity | null; rest: string } {
+  let remaining = text.trim();
+  const leadingAmount = matchLeadingAmount(remaining);
+  if (!leadingAmount) {
+    const bareUnit = matchUnit(remaining);
+    if (bareUnit && bareUnit.unit.family !== 'count') {
+      // "pinch of salt" style lines without a number.
+      return {
+        quantity: { amount: 1, unit: bareUnit.unit.symbol, family: bareUnit.unit.family },
+        rest: stripOf(remaining.slice(bareUnit.length)),
+      };
+    }
+    return { quantity: null, rest: remaining };
+  }
+
+  remaining = remaining.slice(leadingAmount.length).trim();
+  let amount = leadingAmount.amount;
+  let descriptor: string | undefined;
+
+  const describedBefore = matchDescriptor(remaining);
+  if (describedBefore) {
+    descriptor = describedBefore.descriptor;
+    remaining = remaining.slice(describedBefore.length).trim();
+  }
+
+  const unitMatch = matchUnit(remaining);
+  let unit: UnitDefinition = UNIT_BY_SYMBOL.get('piece')!;
+  if (unitMatch) {
+    unit = unitMatch.unit;
+    remaining = remaining.slice(unitMatch.length).trim();
+    // "2 x 400 g" written the other way round: "400 g x 2".
+    const trailingMultiplier = remaining.match(/^[x×]\s*(\d+)/i);
+    if (trailingMultiplier) {
+      amount *= parseInt(trailingMultiplier[1], 10);
+      remaining = remaining.slice(trailingMultiplier[0].length).trim();
+    }
+  }
+
+  if (!descriptor) {
+    const describedAfter = matchDescriptor(remaining);
+    if (describedAfter && unit.family === 'count') {
+      descriptor = describedAfter.descriptor;
+      remaining = remaining.slice(describedAfter.length).trim();
+    }
+  }
+
+  const quantity: Quantity = { amount, unit: unit.symbol, family: unit.family };
+  if (descriptor) quantity.descriptor = descriptor;
+  return { quantity, rest: stripOf(remaining) };
+}
+
+function stripOf(text: string): string {
+  return text.replace(/^\s*(?:\(s\)|s\b)?\s*/i, '').replace(/^of\s+/i, '').trim();
+}
+
+// Parses a standalone quantity string such as the ones `analyzeImage` returns.
+// Never fails: text without a recognisable amount becomes "1 piece" with the text kept as a descriptor.
+export function parseQuantity(text: string): Quantity {
+  const { quantity, rest } = parseQuantityPrefix(text);
+  if (!quantity) {
+    const descriptor = text.trim();
+    return descriptor
+      ? { amount: 1, unit: 'piece', family: 'count', descriptor }
+      : { amount: 1, unit: 'piece', family: 'count' };
+  }
+  if (rest && !quantity.descriptor && quantity.family === 'count' && quantity.unit === 'piece') {
+    quantity.descriptor = rest;
+  }
+  return quantity;
+}
+
+const FRACTION_LABELS: [number, string][] = [
+  [0.125, '1/8'], [0.25, '1/4'], [1 / 3, '1/3'], [0.5, '1/2'], [2 / 3, '2/3'], [0.75, '3/4'],
+];
+
+export function formatAmount(amount: number, system: MeasurementSystem = 'metric'): string {
+  if (system !== 'metric') {
+    const whole = Math.floor(amount);
+    const remainder = amount - whole;
+    const fraction = FRACTION_LABELS.find(([value]) => Math.abs(value - remainder) < 0.02);
+    if (fraction) {
+      return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+    }
+  }
+  return `${Math.round(amount * 100) / 100}`;
+}
+
+export function formatQuantity(quantity: Quantity): string {
+  const unit = UNIT_BY_SYMBOL.get(quantity.unit);
+  const amountText = formatAmount(quantity.amount, unit?.system ?? 'count');
+  const parts = [amountText];
+  if (quantity.descriptor) parts.push(quantity.descriptor);
+  if (quantity.unit !== 'piece') {
+    const label = quantity.amount > 1 && unit?.plural ? unit.plural : quantity.unit;
+    parts.push(label);
+  }
+  return parts.join(' ');
+}
+
+export function getUnitSystem(unitSymbol: string): MeasurementSystem | undefined {
+  return UNIT_BY_SYMBOL.get(unitSymbol)?.system;
+}
+
+export function areQuantitiesCompatible(a: Quantity, b: Quantity): boolean {
+  if (a.unit === b.unit) return true;
+  const unitA = UNIT_BY_SYMBOL.get(a.unit);
+  const unitB = UNIT_BY_SYMBOL.get(b.unit);
+  return !!unitA && !!unitB && unitA.family === unitB.family && unitA.toBase !== undefined && unitB.toBase !== undefined;
+}
+
+// Converts into `targetUnit`, or returns null when the units measure different things.
+export function convertQuantity(quantity: Quantity, targetUnit: string): Quantity | null {
+  if (quantity.unit === targetUnit) return { ...quantity };
+  const from = UNIT_BY_SYMBOL.get(quantity.unit);
+  const to = UNIT_BY_SYMBOL.get(targetUnit);
+  if (!from || !to || from.family !== to.family || from.toBase === undefined || to.toBase === undefined) {
+    return null;
+  }
+  return { ...quantity, amount: (quantity.amount * from.toBase) / to.toBase, unit: to.symbol, family: to.family };
+}
+
+// Re-expresses a quantity in the other measurement system (e.g. 2 cups -> 473 ml).
+export function convertToSystem(quantity: Quantity, system: Exclude<MeasurementSystem, 'count'>): Quantity {
+  const current = UNIT_BY_SYMBOL.get(quantity.unit);
+  if (!current || current.system === system || current.toBase === undefined || current.family === 'count') {
+    return { ...quantity };
+  }
+  const baseAmount = quantity.amount * current.toBase;
+  const candidates = UNITS
+    .filter((unit) => unit.family === current.family && unit.system === system && CONVERSION_TARGETS.has(unit.symbol))
+    .sort((a, b) => b.toBase! - a.toBase!);
+  const target = candidates.find((unit) => baseAmount / unit.toBase! >= 1) ?? candidates[candidates.length - 1];
+  return convertQuantity(quantity, target.symbol) ?? { ...quantity };
+}
+
+export function addQuantities(a: Quantity, b: Quantity): Quantity | null {
+  const converted = convertQuantity(b, a.unit);
+  if (!converted) return null;
+  return { ...a, amount: a.amount + converted.amount };
+}
+
+// Subtracts b from a, clamping at zero.
+export function subtractQuantities(a: Quantity, b: Quantity): Quantity | null {
+  const converted = convertQuantity(b, a.unit);
+  if (!converted) return null;
+  return { ...a, amount: Math.max(0, a.amount - converted.amount) };
+}
+
+// Negative when a < b, zero when equal, positive when a > b; null when not comparable.
+export function compareQuantities(a: Quantity, b: Quantity): number | null {
+  const converted = convertQuantity(b, a.unit);
+  if (!converted) return null;
+  const difference = a.amount - converted.amount;
+  return Math.abs(difference) < 1e-9 ? 0 : difference;
+}
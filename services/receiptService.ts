@@ -0,0 +1,61 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Ingredient, ReceiptLine, ReceiptScan } from '../types';
+import { RECEIPT_ABBREVIATIONS, RECEIPT_FILLER_WORDS } from '../data/receiptAbbreviations';
+import { normalizeIngredientName } from './recipeInventoryService';
+import { createInventoryItem, toISODate } from './shelfLifeService';
+import { addAcceptedToInventory } from './scanService';
+
+// Expands receipt shorthand ("ORG BNLS CHKN BRST 1.2KG" -> "boneless chicken breast"), dropping
+// packaging words, sizes and product codes. Names that are already plain pass through unchanged.
+export function expandReceiptName(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s'-]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !/\d/.test(word) && !RECEIPT_FILLER_WORDS.has(word))
+    .map((word) => RECEIPT_ABBREVIATIONS[word] ?? word)
+    .join(' ');
+}
+
+// The inventory name a receipt line should be stored under: the name of a matching item
+// already in the fridge, so amounts merge, otherwise the expanded receipt name.
+export function toInventoryName(name: string, inventory: Ingredient[]): string {
+  const expanded = expandReceiptName(name) || name.trim().toLowerCase();
+  const key = normalizeIngredientName(expanded);
+  const existing = inventory.find((item) => normalizeIngredientName(item.name) === key);
+  return existing?.name ?? expanded;
+}
+
+export function createReceiptScan(
+  reading: Omit<ReceiptScan, 'lines'> & { lines: Omit<ReceiptLine, 'id'>[] },
+  inventory: Ingredient[],
+): ReceiptScan {
+  return {
+    ...reading,
+    lines: reading.lines.map((line) => ({ ...line, id: uuidv4(), name: toInventoryName(line.name, inventory) })),
+  };
+}
+
+// Receipt dates in the future are misreads; fall back to today.
+export function getPurchaseDate(scan: Pick<ReceiptScan, 'purchasedOn'>, today: string = toISODate(new Date())): string {
+  return scan.purchasedOn && scan.purchasedOn <= today ? scan.purchasedOn : today;
+}
+
+export function toReceiptIngredient(line: ReceiptLine, purchasedOn: string): Ingredient {
+  return createInventoryItem({ name: line.name, quantity: line.quantity, addedOn: purchasedOn });
+}
+
+// Adds bought items to the inventory: amounts add to what's already there and the older
+// stock's expiry is kept.
+export function addReceiptToInventory(inventory: Ingredient[], lines: ReceiptLine[], purchasedOn: string): Ingredient[] {
+  return addAcceptedToInventory(inventory, lines.map((line) => toReceiptIngredient(line, purchasedOn)));
+}
+
+export function formatPrice(amount: number, currency: string | null): string {
+  if (!currency) return amount.toFixed(2);
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`; // Not a currency code Intl knows
+  }
+}
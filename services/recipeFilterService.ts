@@ -0,0 +1,99 @@
+import { DietTag, Recipe, RecipeDifficulty } from '../types';
+import { QUICK_RECIPE_MAX_MINUTES, HIGH_PROTEIN_MIN_GRAMS, LOW_CARB_MAX_GRAMS } from '../constants';
+import { getRecipeNutrition } from './nutritionService';
+
+export type RecipeFilterId = 'quick' | 'easy' | 'vegetarian' | 'vegan' | 'glutenFree' | 'lowCarb' | 'highProtein';
+export type RecipeSortId = 'suggested' | 'quickest' | 'mostProtein' | 'fewestCalories' | 'easiest';
+
+const DIFFICULTY_RANK: Record<RecipeDifficulty, number> = { easy: 0, medium: 1, hard: 2 };
+
+// Prep plus cook time, or null when the recipe predates structured metadata.
+export function getTotalMinutes(recipe: Recipe): number | null {
+  if (recipe.prepMinutes === undefined && recipe.cookMinutes === undefined) return null;
+  return (recipe.prepMinutes ?? 0) + (recipe.cookMinutes ?? 0);
+}
+
+// The model's per-serving figure, falling back to our own nutrition estimate.
+export function getProteinPerServing(recipe: Recipe): number {
+  return recipe.proteinGrams ?? getRecipeNutrition(recipe).perServing.proteinGrams;
+}
+
+function hasTag(recipe: Recipe, ...tags: DietTag[]): boolean {
+  return tags.some((tag) => recipe.dietTags?.includes(tag));
+}
+
+// Each filter only passes recipes it can vouch for: missing metadata never matches.
+export const RECIPE_FILTERS: { id: RecipeFilterId; label: string; matches: (recipe: Recipe) => boolean }[] = [
+  {
+    id: 'quick',
+    label: `Quick (<${QUICK_RECIPE_MAX_MINUTES} Mins)`,
+    matches: (recipe) => {
+      const minutes = getTotalMinutes(recipe);
+      return minutes !== null && minutes < QUICK_RECIPE_MAX_MINUTES;
+    },
+  },
+  { id: 'easy', label: 'Easy', matches: (recipe) => recipe.difficulty === 'easy' },
+  { id: 'vegetarian', label: 'Vegetarian', matches: (recipe) => hasTag(recipe, 'vegetarian', 'vegan') },
+  { id: 'vegan', label: 'Vegan', matches: (recipe) => hasTag(recipe, 'vegan') },
+  { id: 'glutenFree', label: 'Gluten-Free', matches: (recipe) => hasTag(recipe, 'gluten-free') },
+  {
+    id: 'lowCarb',
+    label: 'Low Carb',
+    matches: (recipe) => hasTag(recipe, 'low-carb', 'keto')
+      // A partial estimate could understate carbs, so only a complete one counts.
+      || (recipe.nutrition?.unresolved.length === 0 && recipe.nutrition.perServing.carbsGrams <= LOW_CARB_MAX_GRAMS),
+  },
+  {
+    id: 'highProtein',
+    label: 'High Protein',
+    matches: (recipe) => hasTag(recipe, 'high-protein') || getProteinPerServing(recipe) >= HIGH_PROTEIN_MIN_GRAMS,
+  },
+];
+
+// Recipes matching every active filter (AND).
+export function filterRecipes(recipes: Recipe[], activeFilters: RecipeFilterId[]): Recipe[] {
+  const filters = RECIPE_FILTERS.filter((filter) => activeFilters.includes(filter.id));
+  return recipes.filter((recipe) => filters.every((filter) => filter.matches(recipe)));
+}
+
+// Recipes without the value being sorted on go last.
+function compareKnown(a: number | null | undefined, b: number | null | undefined): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  return a - b;
+}
+
+export const RECIPE_SORTS: { id: RecipeSortId; label: string; compare: (a: Recipe, b: Recipe) => number }[] = [
+  { id: 'suggested', label: 'Suggested', compare: () => 0 },
+  { id: 'quickest', label: 'Quickest', compare: (a, b) => compareKnown(getTotalMinutes(a), getTotalMinutes(b)) },
+  { id: 'mostProtein', label: 'Most protein', compare: (a, b) => getProteinPerServing(b) - getProteinPerServing(a) },
+  {
+    id: 'fewestCalories',
+    label: 'Fewest calories',
+    compare: (a, b) => getRecipeNutrition(a).perServing.calories - getRecipeNutrition(b).perServing.calories,
+  },
+  {
+    id: 'easiest',
+    label: 'Easiest',
+    compare: (a, b) => compareKnown(
+      a.difficulty ? DIFFICULTY_RANK[a.difficulty] : null,
+      b.difficulty ? DIFFICULTY_RANK[b.difficulty] : null,
+    ),
+  },
+];
+
+// Stable sort, so ties keep the order the recipes were suggested in.
+export function sortRecipes(recipes: Recipe[], sortId: RecipeSortId): Recipe[] {
+  const sort = RECIPE_SORTS.find((candidate) => candidate.id === sortId) ?? RECIPE_SORTS[0];
+  return [...recipes].sort(sort.compare);
+}
+
+export function describeRecipeMetadata(recipe: Recipe): string {
+  const minutes = getTotalMinutes(recipe);
+  return [
+    minutes !== null ? `⏱ ${minutes} min` : null,
+    recipe.difficulty ? recipe.difficulty.charAt(0).toUpperCase() + recipe.difficulty.slice(1) : null,
+    recipe.cuisine || null,
+    recipe.proteinGrams !== undefined ? `${Math.round(recipe.proteinGrams)} g protein` : null,
+  ].filter((part): part is string => part !== null).join(' · ');
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient, Recipe } from '../types';
+import { parseQuantity } from './quantityService';
+import { createInventoryItem } from './shelfLifeService';
+import {
+  applyConsumption, describeConsumption, findMissingIngredients, matchRecipeToInventory, normalizeIngredientName, restoreConsumption,
+  toDeduction,
+} from './recipeInventoryService';
+
+function item(name: string, quantity: string): Ingredient {
+  return createInventoryItem({ name, quantity: parseQuantity(quantity), addedOn: '2026-10-01' });
+}
+
+const recipe: Recipe = {
+  name: 'Pancakes',
+  summary: '',
+  healthInsight: '',
+  ingredients: ['250 g plain flour', '2 large eggs', '1 l whole milk', 'a pinch of salt'],
+  instructions: [],
+};
+
+const flour = item('plain flour', '1 kg');
+const eggs = item('eggs', '6');
+const milk = item('whole milk', '1 l');
+const apples = item('apples', '4');
+const inventory = [flour, eggs, milk, apples];
+
+// What "Mark as cooked" deducts once the user confirms the proposed amounts.
+function deductionsFor(current: Ingredient[]) {
+  return matchRecipeToInventory(recipe, current)
+    .filter((match) => match.inventoryIndex !== null)
+    .map((match) => toDeduction(current[match.inventoryIndex!], match.consumeAmount));
+}
+
+function byName(items: Ingredient[]): Ingredient[] {
+  return [...items].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+describe('matchRecipeToInventory', () => {
+  it('proposes amounts in the inventory unit, capped at what is there', () => {
+    const matches = matchRecipeToInventory(recipe, inventory);
+    expect(matches.map((match) => [match.inventoryIndex, match.consumeAmount, match.needsReview])).toEqual([
+      [0, 0.25, false],
+      [1, 2, false],
+      [2, 1, false],
+      [null, 0, false],
+    ]);
+  });
+
+  it('flags amounts that do not convert for review', () => {
+    const [match] = matchRecipeToInventory({ ...recipe, ingredients: ['2 cups plain flour'] }, inventory);
+    expect(match).toMatchObject({ inventoryIndex: 0, consumeAmount: 0, needsReview: true });
+  });
+
+  it('reports what is missing or short, but not staples', () => {
+    const missing = findMissingIngredients(recipe, [item('plain flour', '100 g'), eggs]);
+    expect(missing.map((entry) => [normalizeIngredientName(entry.name), entry.quantity])).toEqual([
+      ['plain flour', { amount: 150, unit: 'g', family: 'mass' }],
+      ['whole milk', { amount: 1, unit: 'l', family: 'volume' }],
+    ]);
+  });
+});
+
+describe('cooking and undoing', () => {
+  it('deducts the recipe and gives the original inventory back on undo', () => {
+    const { inventory: cooked, consumed } = applyConsumption(inventory, deductionsFor(inventory));
+    expect(byName(cooked)).toEqual(byName([
+      apples,
+      { ...eggs, quantity: { ...eggs.quantity, amount: 4 } },
+      { ...flour, quantity: { ...flour.quantity, amount: 0.75 } },
+    ]));
+    expect(describeConsumption(consumed)).toBe('0.25 kg plain flour, 2 eggs, 1 l whole milk');
+
+    expect(byName(restoreConsumption(cooked, consumed))).toEqual(byName(inventory));
+  });
+
+  it('lands deductions by name after the inventory was reordered and changed', () => {
+    const deductions = deductionsFor(inventory);
+    // Meanwhile: milk finished, flour repacked in grams, the list shuffled
+    const changed = [apples, { ...flour, quantity: parseQuantity('800 g') }, eggs];
+    const { inventory: cooked, consumed } = applyConsumption(changed, deductions);
+    expect(cooked.map((entry) => [entry.name, entry.quantity.amount, entry.quantity.unit])).toEqual([
+      ['apples', 4, 'piece'],
+      ['plain flour', 550, 'g'],
+      ['eggs', 4, 'piece'],
+    ]);
+    expect(consumed.map((entry) => entry.item.name)).toEqual(['plain flour', 'eggs']);
+    expect(restoreConsumption(cooked, consumed)).toEqual(changed);
+  });
+
+  it('skips deductions whose units no longer convert', () => {
+    const deductions = [toDeduction(flour, 0.25)];
+    const repacked = [{ ...flour, quantity: parseQuantity('2 bags') }];
+    expect(applyConsumption(repacked, deductions)).toEqual({ inventory: repacked, consumed: [] });
+  });
+});
@@ -0,0 +1,229 @@
+import { Ingredient, Quantity, Recipe } from '../types';
+import { parseQuantityPrefix, convertQuantity, formatQuantity } from './quantityService';
+
+// Words that describe preparation or size rather than what the ingredient is.
+const PREP_WORDS = new Set([
+  'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded', 'fresh', 'freshly', 'ground', 'crushed',
+  'peeled', 'finely', 'roughly', 'thinly', 'coarsely', 'large', 'small', 'medium', 'boneless', 'skinless',
+  'cooked', 'raw', 'ripe', 'divided', 'softened', 'melted', 'beaten', 'optional', 'taste', 'to', 'for',
+  'serving', 'garnish', 'and', 'or', 'about', 'approx', 'approximately', 'plus', 'extra', 'some', 'of', 'a',
+]);
+
+const SINGULAR_EXCEPTIONS = new Set(['asparagus', 'hummus', 'couscous', 'molasses', 'swiss', 'citrus', 'grits', 'bass', 'quinoa']);
+
+export function singularize(word: string): string {
+  if (word.length <= 3 || SINGULAR_EXCEPTIONS.has(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (/(lea|hal|loa|shel|cal)ves$/.test(word)) return `${word.slice(0, -3)}f`; // leaves, halves; not olives, chives
+  if (/(ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^a-z\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter((token) => token && !PREP_WORDS.has(token))
+    .map(singularize);
+}
+
+// Canonical form used to compare ingredient names ("2 Ripe Tomatoes, diced" -> "tomato").
+export function normalizeIngredientName(name: string): string {
+  return tokenize(name).join(' ');
+}
+
+// Looks a normalized name up in a phrase index: first the whole name, then its longest
+// contiguous phrases, preferring phrases nearer the end (the head noun) on ties,
+// so "organic free range chicken thighs" resolves via "chicken thigh".
+export function lookupPhrase<T>(index: Map<string, T>, normalizedName: string): T | null {
+  const exact = index.get(normalizedName);
+  if (exact !== undefined) return exact;
+  const tokens = normalizedName.split(' ').filter(Boolean);
+  for (let length = tokens.length - 1; length >= 1; length--) {
+    for (let start = tokens.length - length; start >= 0; start--) {
+      const match = index.get(tokens.slice(start, start + length).join(' '));
+      if (match !== undefined) return match;
+    }
+  }
+  return null;
+}
+
+export interface ParsedIngredientLine {
+  quantity: Quantity | null;
+  // Second measure given in parentheses, e.g. "2 chicken breasts (about 300g)"
+  alternateQuantity?: Quantity;
+  name: string;
+  note?: string; // Preparation note after the first comma, e.g. "finely chopped"
+}
+
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  const { quantity, rest } = parseQuantityPrefix(line);
+  const [namePart, ...noteParts] = rest.split(',');
+  const note = noteParts.join(',').trim();
+  const parsed: ParsedIngredientLine = { quantity, name: namePart.replace(/\(.*?\)/g, '').trim() };
+  const parenthetical = rest.match(/\(\s*(?:about|approx\.?|approximately|~)?\s*([^)]*)\)/i);
+  if (parenthetical) {
+    const alternate = parseQuantityPrefix(parenthetical[1]).quantity;
+    if (alternate) parsed.alternateQuantity = alternate;
+  }
+  if (note) parsed.note = note;
+  return parsed;
+}
+
+// Scores how well two ingredient names refer to the same food. One name's tokens must be
+// contained in the other's and both must share the head noun (last token), so "chicken breast"
+// matches "boneless chicken breasts" but "olives" does not match "olive oil".
+function matchScore(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  if (a.join(' ') === b.join(' ')) return 100;
+  if (a[a.length - 1] !== b[b.length - 1]) return 0;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (!shorter.every((token) => longer.includes(token))) return 0;
+  return 50 + shorter.length;
+}
+
+// Index of the inventory item that best matches an ingredient name, or -1.
+export function findInventoryMatch(name: string, inventory: Ingredient[]): number {
+  const tokens = tokenize(name);
+  let bestIndex = -1;
+  let bestScore = 0;
+  inventory.forEach((item, index) => {
+    const score = matchScore(tokens, tokenize(item.name));
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+}
+
+export interface IngredientMatch {
+  line: string;
+  parsed: ParsedIngredientLine;
+  inventoryIndex: number | null;
+  // Proposed amount to deduct, expressed in the matched inventory item's unit.
+  consumeAmount: number;
+  // True when the recipe amount couldn't be converted into the inventory unit, so
+  // consumeAmount is only a guess the user should check.
+  needsReview: boolean;
+}
+
+export function matchRecipeToInventory(recipe: Recipe, inventory: Ingredient[]): IngredientMatch[] {
+  return recipe.ingredients.map((line) => {
+    const parsed = parseIngredientLine(line);
+    const index = findInventoryMatch(parsed.name, inventory);
+    if (index === -1) {
+      return { line, parsed, inventoryIndex: null, consumeAmount: 0, needsReview: false };
+    }
+    const item = inventory[index];
+    const converted = [parsed.quantity, parsed.alternateQuantity]
+      .map((quantity) => (quantity ? convertQuantity(quantity, item.quantity.unit) : null))
+      .find((quantity) => quantity !== null) ?? null;
+    return {
+      line,
+      parsed,
+      inventoryIndex: index,
+      consumeAmount: converted ? Math.min(converted.amount, item.quantity.amount) : 0,
+      needsReview: !converted,
+    };
+  });
+}
+
+export interface ConsumedIngredient {
+  item: Ingredient; // Snapshot before deduction, so the change can be undone
+  amount: number; // In item.quantity.unit
+}
+
+// An amount to take out of the inventory. It names the item rather than its position, so it
+// still lands on the right one if the inventory changed after the match was made.
+export interface Deduction {
+  name: string;
+  quantity: Quantity;
+}
+
+export function toDeduction(item: Ingredient, amount: number): Deduction {
+  return { name: item.name, quantity: { ...item.quantity, amount } };
+}
+
+// Deducts the given amounts from the items of that name; items that reach zero are removed from
+// the inventory. Deductions whose item is gone, or no longer measured in a convertible unit, are skipped.
+export function applyConsumption(
+  inventory: Ingredient[],
+  deductions: Deduction[],
+): { inventory: Ingredient[]; consumed: ConsumedIngredient[] } {
+  const consumed: ConsumedIngredient[] = [];
+  const amounts = new Map<Ingredient, number>();
+  deductions
+    .filter((deduction) => deduction.quantity.amount > 0)
+    .forEach((deduction) => {
+      const key = deduction.name.toLowerCase();
+      for (const item of inventory) {
+        if (item.name.toLowerCase() !== key) continue;
+        const converted = convertQuantity(deduction.quantity, item.quantity.unit);
+        if (!converted) continue;
+        amounts.set(item, (amounts.get(item) ?? 0) + converted.amount);
+        return;
+      }
+    });
+
+  const updated = inventory.flatMap((item) => {
+    const amount = amounts.get(item);
+    if (amount === undefined) return [item];
+    const used = Math.min(amount, item.quantity.amount);
+    consumed.push({ item, amount: used });
+    const remaining = item.quantity.amount - used;
+    return remaining > 1e-9 ? [{ ...item, quantity: { ...item.quantity, amount: remaining } }] : [];
+  });
+  return { inventory: updated, consumed };
+}
+
+// Puts consumed amounts back, re-adding items that were used up entirely.
+export function restoreConsumption(inventory: Ingredient[], consumed: ConsumedIngredient[]): Ingredient[] {
+  const restored = [...inventory];
+  consumed.forEach(({ item, amount }) => {
+    const index = restored.findIndex((candidate) => candidate.name === item.name && candidate.quantity.unit === item.quantity.unit);
+    if (index > -1) {
+      const current = restored[index];
+      restored[index] = { ...current, quantity: { ...current.quantity, amount: current.quantity.amount + amount } };
+    } else {
+      restored.push({ ...item, quantity: { ...item.quantity, amount } });
+    }
+  });
+  return restored;
+}
+
+export function describeConsumption(consumed: ConsumedIngredient[]): string {
+  return consumed
+    .map(({ item, amount }) => `${formatQuantity({ ...item.quantity, amount })} ${item.name}`)
+    .join(', ');
+}
+
+// Seasonings nobody wants on a shopping list just because a recipe mentions them.
+const ASSUMED_STAPLES = new Set(['salt', 'pepper', 'black pepper', 'water', 'salt pepper', 'ice']);
+
+export interface MissingIngredient {
+  line: string;
+  name: string;
+  quantity: Quantity | null; // Shortfall still needed, null when the recipe gives no amount
+}
+
+// Recipe lines the inventory doesn't cover: not stocked at all, or stocked in a smaller amount.
+export function findMissingIngredients(recipe: Recipe, inventory: Ingredient[]): MissingIngredient[] {
+  return matchRecipeToInventory(recipe, inventory).flatMap((match): MissingIngredient[] => {
+    const { parsed, line } = match;
+    if (ASSUMED_STAPLES.has(normalizeIngredientName(parsed.name))) return [];
+    if (match.inventoryIndex === null) {
+      return [{ line, name: parsed.name, quantity: parsed.quantity }];
+    }
+    const item = inventory[match.inventoryIndex];
+    const required = [parsed.quantity, parsed.alternateQuantity]
+      .map((quantity) => (quantity ? convertQuantity(quantity, item.quantity.unit) : null))
+      .find((quantity) => quantity !== null);
+    if (!required || required.amount <= item.quantity.amount) return [];
+    return [{ line, name: parsed.name, quantity: { ...required, amount: required.amount - item.quantity.amount } }];
+  });
+}
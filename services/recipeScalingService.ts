@@ -0,0 +1,128 @@
+import { IngredientLine, Quantity, Recipe } from '../types';
+import { parseIngredientLine, singularize } from './recipeInventoryService';
+import { convertQuantity, formatQuantity, getUnitSystem } from './quantityService';
+import { getRecipeNutrition, getServings, scaleNutrition, roundNutrition } from './nutritionService';
+
+// Units a scaled amount may move between, smallest first, each with the smallest amount
+// worth writing in it: 3 tsp become 1 tbsp, 4 tbsp become 1/4 cup, and back down again.
+const UNIT_LADDERS: [string, number][][] = [
+  [['tsp', 0], ['tbsp', 1], ['cup', 0.25]],
+  [['g', 0], ['kg', 1]],
+  [['ml', 0], ['l', 1]],
+  [['oz', 0], ['lb', 1]],
+];
+
+// Fractions a cook can measure with spoons and cups.
+const KITCHEN_FRACTIONS = [0, 1 / 8, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 3 / 4, 1];
+
+export function toIngredientLine(line: string): IngredientLine {
+  const { quantity, alternateQuantity, name, note } = parseIngredientLine(line);
+  const structured: IngredientLine = { quantity, item: name };
+  if (alternateQuantity) structured.alternateQuantity = alternateQuantity;
+  if (note) structured.note = note;
+  return structured;
+}
+
+export function getIngredientLines(recipe: Recipe): IngredientLine[] {
+  return recipe.ingredientLines ?? recipe.ingredients.map(toIngredientLine);
+}
+
+// Moves an amount to the largest unit on its ladder it fills, e.g. 48 tsp -> 1 cup, 0.5 kg -> 500 g.
+export function promoteUnit(quantity: Quantity): Quantity {
+  const ladder = UNIT_LADDERS.find((units) => units.some(([unit]) => unit === quantity.unit));
+  if (!ladder) return quantity;
+  for (let i = ladder.length - 1; i >= 0; i--) {
+    const [unit, minimum] = ladder[i];
+    const converted = convertQuantity(quantity, unit);
+    if (converted && (converted.amount >= minimum || i === 0)) return converted;
+  }
+  return quantity;
+}
+
+function roundToStep(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+function roundToKitchenFraction(amount: number): number {
+  if (amount >= 10) return Math.round(amount);
+  const whole = Math.floor(amount);
+  const remainder = amount - whole;
+  const fraction = KITCHEN_FRACTIONS.reduce((best, candidate) =>
+    (Math.abs(candidate - remainder) < Math.abs(best - remainder) ? candidate : best));
+  return Math.max(whole + fraction, 1 / 8);
+}
+
+// Metric amounts are rounded in grams or millilitres to steps that read naturally
+// (7 g, 45 ml, 380 g, 1.25 kg); anything else follows its own measuring habit.
+function roundAmount(quantity: Quantity): Quantity {
+  const system = getUnitSystem(quantity.unit);
+  const base = quantity.family === 'mass' ? 'g' : 'ml';
+  if (system === 'metric' && ['g', 'kg', 'ml', 'l'].includes(quantity.unit)) {
+    const inBase = convertQuantity(quantity, base)!;
+    const step = inBase.amount < 20 ? 1 : inBase.amount < 100 ? 5 : inBase.amount < 1000 ? 10 : 50;
+    return promoteUnit({ ...inBase, amount: Math.max(roundToStep(inBase.amount, step), 1) });
+  }
+  if (system === 'imperial') {
+    return { ...quantity, amount: roundToKitchenFraction(quantity.amount) };
+  }
+  if (system === 'metric') {
+    return { ...quantity, amount: Number(quantity.amount.toPrecision(2)) };
+  }
+  // Counted things: quarters of a lemon, halves of an onion, whole eggs past a handful.
+  const step = quantity.amount < 1 ? 0.25 : quantity.amount < 5 ? 0.5 : 1;
+  return { ...quantity, amount: Math.max(roundToStep(quantity.amount, step), 0.25) };
+}
+
+export function scaleQuantity(quantity: Quantity, factor: number): Quantity {
+  return roundAmount(promoteUnit({ ...quantity, amount: quantity.amount * factor }));
+}
+
+function pluralize(word: string): string {
+  if (/(s|x|z|ch|sh)$/.test(word)) return `${word}es`;
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  return `${word}s`;
+}
+
+// "1 egg" / "3 eggs": only bare counts carry the number onto the item itself.
+function agreeItem(item: string, before: Quantity, after: Quantity): string {
+  if (after.unit !== 'piece' || before.unit !== 'piece') return item;
+  const words = item.split(' ');
+  const last = words[words.length - 1];
+  const singular = singularize(last.toLowerCase());
+  const isPlural = singular !== last.toLowerCase();
+  if (after.amount <= 1 && before.amount > 1 && isPlural) words[words.length - 1] = singular;
+  if (after.amount > 1 && before.amount <= 1 && !isPlural) words[words.length - 1] = pluralize(last);
+  return words.join(' ');
+}
+
+export function formatIngredientLine(line: IngredientLine): string {
+  const parts = [line.quantity ? `${formatQuantity(line.quantity)} ${line.item}` : line.item];
+  if (line.alternateQuantity) parts[0] += ` (about ${formatQuantity(line.alternateQuantity)})`;
+  if (line.note) parts.push(line.note);
+  return parts.join(', ');
+}
+
+export function scaleIngredientLine(line: IngredientLine, factor: number): IngredientLine {
+  if (!line.quantity) return line;
+  const quantity = scaleQuantity(line.quantity, factor);
+  const scaled: IngredientLine = { ...line, quantity, item: agreeItem(line.item, line.quantity, quantity) };
+  if (line.alternateQuantity) scaled.alternateQuantity = scaleQuantity(line.alternateQuantity, factor);
+  return scaled;
+}
+
+// The recipe rewritten for a different number of servings. Unmeasured lines ("salt, to taste")
+// keep their original wording; nutrition keeps its per-serving figures and scales the total.
+export function scaleRecipe(recipe: Recipe, servings: number): Recipe {
+  const baseServings = getServings(recipe);
+  if (servings === baseServings) return recipe;
+  const factor = servings / baseServings;
+  const ingredientLines = getIngredientLines(recipe).map((line) => scaleIngredientLine(line, factor));
+  const nutrition = getRecipeNutrition(recipe);
+  return {
+    ...recipe,
+    servings,
+    ingredientLines,
+    ingredients: ingredientLines.map((line, i) => (line.quantity ? formatIngredientLine(line) : recipe.ingredients[i])),
+    nutrition: { ...nutrition, servings, total: roundNutrition(scaleNutrition(nutrition.total, factor)) },
+  };
+}
@@ -0,0 +1,208 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Detection, Ingredient, Quantity, ScanImage } from '../types';
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
+import { addQuantities, compareQuantities, formatQuantity } from './quantityService';
+import { normalizeIngredientName } from './recipeInventoryService';
+import { createInventoryItem } from './shelfLifeService';
+
+// An item after merging a batch, with the photos it was seen in.
+export interface MergedDetection {
+  ingredient: Ingredient;
+  confidence: number;
+  imageIds: string[];
+}
+
+export function createScanImage(file: File): ScanImage {
+  return { id: uuidv4(), file, previewUrl: URL.createObjectURL(file), status: 'queued', detections: [] };
+}
+
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+}
+
+// Runs `task` over the items with at most `limit` in flight, keeping results in input order.
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// The sooner-expiring of two readings of the same item, which also carries the worse freshness.
+function earlierExpiry(a: Ingredient, b: Ingredient): Ingredient {
+  return b.expiresOn < a.expiresOn ? b : a;
+}
+
+function detectionKey(name: string): string {
+  return normalizeIngredientName(name) || name.toLowerCase();
+}
+
+// Combines detections from several photos of the same fridge. Within one photo, repeated names
+// are separate items and their amounts add up. Across photos, the same name is treated as the
+// same item photographed twice (overlapping shelves, the door seen from two angles), so the
+// largest reading is kept rather than the sum, with the earliest expiry of any reading.
+// Confidence is the best of any reading: seeing an item again doesn't make it less likely.
+export function mergeDetections(images: Pick<ScanImage, 'id' | 'detections'>[]): MergedDetection[] {
+  const merged = new Map<string, MergedDetection>();
+  images.forEach((image) => {
+    const perImage = new Map<string, Detection>();
+    image.detections.forEach((detection) => {
+      const { ingredient } = detection;
+      const key = detectionKey(ingredient.name);
+      const existing = perImage.get(key);
+      if (!existing) {
+        perImage.set(key, detection);
+        return;
+      }
+      const soonest = earlierExpiry(existing.ingredient, ingredient);
+      perImage.set(key, {
+        ingredient: { ...soonest, name: existing.ingredient.name, quantity: addQuantities(existing.ingredient.quantity, ingredient.quantity) ?? existing.ingredient.quantity },
+        confidence: Math.max(existing.confidence, detection.confidence),
+      });
+    });
+
+    perImage.forEach(({ ingredient, confidence }, key) => {
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ingredient, confidence, imageIds: [image.id] });
+        return;
+      }
+      const current = existing.ingredient;
+      const larger = (compareQuantities(ingredient.quantity, current.quantity) ?? 0) > 0 ? ingredient.quantity : current.quantity;
+      const soonest = earlierExpiry(current, ingredient);
+      merged.set(key, {
+        ingredient: { ...soonest, name: current.name, quantity: larger },
+        confidence: Math.max(existing.confidence, confidence),
+        imageIds: [...existing.imageIds, image.id],
+      });
+    });
+  });
+  return [...merged.values()];
+}
+
+// --- Review before committing ---
+
+// 'add' sums with what's already in the fridge, 'replace' takes the scan as the new total.
+// For items not yet in the fridge both simply add them.
+export type ReviewDecision = 'add' | 'replace' | 'reject';
+
+// A merged detection waiting for the user's go-ahead, possibly with a corrected name or amount.
+export interface ReviewItem {
+  id: string;
+  detection: MergedDetection;
+  name: string;
+  quantity: Quantity;
+  decision: ReviewDecision;
+}
+
+export function createReviewItems(merged: MergedDetection[]): ReviewItem[] {
+  return merged.map((detection) => ({
+    id: uuidv4(),
+    detection,
+    name: detection.ingredient.name,
+    quantity: detection.ingredient.quantity,
+    decision: 'add',
+  }));
+}
+
+// Carries the user's decisions and corrections over to a fresh merge of the same photos, e.g.
+// after a detection was corrected on one of them. Items are matched by the name the model
+// gave them; amounts the user hadn't touched follow the new merge.
+export function reconcileReviewItems(previous: ReviewItem[], merged: MergedDetection[]): ReviewItem[] {
+  const byKey = new Map(previous.map((item) => [detectionKey(item.detection.ingredient.name), item]));
+  return createReviewItems(merged).map((fresh) => {
+    const before = byKey.get(detectionKey(fresh.detection.ingredient.name));
+    if (!before) return fresh;
+    const detectedBefore = before.detection.ingredient;
+    return {
+      ...before,
+      detection: fresh.detection,
+      name: before.name === detectedBefore.name ? fresh.name : before.name,
+      quantity: formatQuantity(before.quantity) === formatQuantity(detectedBefore.quantity) ? fresh.quantity : before.quantity,
+    };
+  });
+}
+
+// A detection corrected by hand on the photo. Renaming re-estimates the item from scratch.
+export function correctDetection(detection: Detection, changes: { name: string; quantity: Quantity }): Detection {
+  const { ingredient } = detection;
+  const renamed = detectionKey(changes.name) !== detectionKey(ingredient.name);
+  return {
+    ...detection,
+    confidence: 1,
+    ingredient: renamed
+      ? createInventoryItem({ name: changes.name, quantity: changes.quantity, freshness: ingredient.freshness, addedOn: ingredient.addedOn })
+      : { ...ingredient, name: changes.name, quantity: changes.quantity },
+  };
+}
+
+export function isLowConfidence(detection: Pick<Detection, 'confidence'>): boolean {
+  return detection.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+// The inventory entry a reviewed item would merge into: same name once normalized.
+export function findExistingItem(name: string, inventory: Ingredient[]): Ingredient | undefined {
+  const key = detectionKey(name);
+  return inventory.find((item) => detectionKey(item.name) === key);
+}
+
+// The detection as an inventory item, re-estimated from scratch if the user renamed it.
+export function toReviewedIngredient(item: ReviewItem): Ingredient {
+  const detected = item.detection.ingredient;
+  if (detectionKey(item.name) === detectionKey(detected.name)) {
+    return { ...detected, name: item.name.trim() || detected.name, quantity: item.quantity };
+  }
+  return createInventoryItem({ name: item.name.trim(), quantity: item.quantity, freshness: detected.freshness, addedOn: detected.addedOn });
+}
+
+// The amount the fridge will hold once this item is committed. Amounts that can't be combined
+// (e.g. "1 bag" + "500 g") fall back to the new reading.
+export function getReviewedQuantity(item: ReviewItem, existing: Ingredient | undefined): Quantity {
+  if (!existing || item.decision === 'replace') return item.quantity;
+  return addQuantities(existing.quantity, item.quantity) ?? item.quantity;
+}
+
+// Merges the accepted items into the inventory. Existing items keep the earlier expiry
+// (the older stock goes off first) unless the user set one explicitly.
+export function applyReview(inventory: Ingredient[], items: ReviewItem[]): Ingredient[] {
+  const next = [...inventory];
+  items.forEach((item) => {
+    if (item.decision === 'reject') return;
+    const reviewed = toReviewedIngredient(item);
+    const key = detectionKey(reviewed.name);
+    const existingIndex = next.findIndex((ingredient) => detectionKey(ingredient.name) === key);
+    if (existingIndex === -1) {
+      next.push(reviewed);
+      return;
+    }
+    const existing = next[existingIndex];
+    next[existingIndex] = {
+      ...existing,
+      quantity: getReviewedQuantity(item, existing),
+      expiresOn: existing.expirySource === 'user' || existing.expiresOn < reviewed.expiresOn ? existing.expiresOn : reviewed.expiresOn,
+    };
+  });
+  return next;
+}
+
+// Adds items that need no review, such as receipt lines or scanned barcodes, through the same merge.
+export function addAcceptedToInventory(inventory: Ingredient[], ingredients: Ingredient[]): Ingredient[] {
+  return applyReview(inventory, ingredients.map((ingredient) => ({
+    id: uuidv4(),
+    detection: { ingredient, confidence: 1, imageIds: [] },
+    name: ingredient.name,
+    quantity: ingredient.quantity,
+    decision: 'add',
+  })));
+}
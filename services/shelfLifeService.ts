@@ -0,0 +1,147 @@
+import { FoodCategory, Freshness, Ingredient, Quantity, StorageLocation } from '../types';
+import { SHELF_LIFE_DAYS } from '../data/shelfLife';
+import { EXPIRY_ALERT_THRESHOLD_DAYS } from '../constants';
+import foodTaxonomyService from './foodTaxonomyService';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// --- Date helpers (local calendar dates, stored as YYYY-MM-DD) ---
+export function toISODate(date: Date): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function fromISODate(isoDate: string): Date {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(isoDate: string, days: number): string {
+  const date = fromISODate(isoDate);
+  date.setDate(date.getDate() + Math.round(days));
+  return toISODate(date);
+}
+
+export function daysBetween(fromIsoDate: string, toIsoDate: string): number {
+  return Math.round((fromISODate(toIsoDate).getTime() - fromISODate(fromIsoDate).getTime()) / MS_PER_DAY);
+}
+
+export function getShelfLifeDays(category: FoodCategory, storage: StorageLocation): number {
+  return SHELF_LIFE_DAYS[category][storage];
+}
+
+export function getExpiryThresholdDays(category: FoodCategory): number {
+  return EXPIRY_ALERT_THRESHOLD_DAYS[category];
+}
+
+// Maps the free-text freshness the model (or older data) reports onto our four states.
+export function normalizeFreshness(value: string | undefined): Freshness | undefined {
+  const lower = (value || '').toLowerCase();
+  if (!lower) return undefined;
+  if (/(spoil|rotten|mold|mould|expired|bad)/.test(lower)) return 'spoiled';
+  if (/(expir|wilt|soft|ripe|soon|old)/.test(lower)) return 'expiring';
+  if (/(fresh|new|crisp)/.test(lower)) return 'fresh';
+  return 'good';
+}
+
+// Estimates an expiry date from the shelf-life table. When the item was observed as already
+// past its best (e.g. by the image scan), only the matching share of the shelf life is left.
+export function estimateExpiryDate(
+  category: FoodCategory,
+  storage: StorageLocation,
+  addedOn: string,
+  observedFreshness?: Freshness,
+): string {
+  const shelfLife = getShelfLifeDays(category, storage);
+  const threshold = getExpiryThresholdDays(category);
+  let remainingDays = shelfLife;
+  if (observedFreshness === 'good') remainingDays = Math.max(threshold + 1, Math.round(shelfLife * 0.4));
+  if (observedFreshness === 'expiring') remainingDays = Math.min(shelfLife, threshold);
+  if (observedFreshness === 'spoiled') remainingDays = -1;
+  return addDays(addedOn, remainingDays);
+}
+
+export function daysUntilExpiry(item: Pick<Ingredient, 'expiresOn'>, today: string = toISODate(new Date())): number {
+  return daysBetween(today, item.expiresOn);
+}
+
+export function deriveFreshness(
+  item: Pick<Ingredient, 'category' | 'addedOn' | 'expiresOn' | 'storage'>,
+  today: string = toISODate(new Date()),
+): Freshness {
+  const { category } = item;
+  const daysLeft = daysUntilExpiry(item, today);
+  if (daysLeft < 0) return 'spoiled';
+  if (daysLeft <= getExpiryThresholdDays(category)) return 'expiring';
+  // Measure against the typical shelf life so an item scanned as "good" doesn't start out "fresh".
+  const totalDays = Math.max(1, getShelfLifeDays(category, item.storage), daysBetween(item.addedOn, item.expiresOn));
+  return daysLeft / totalDays > 0.5 ? 'fresh' : 'good';
+}
+
+// Builds a complete inventory entry, estimating whatever the caller doesn't know.
+export function createInventoryItem(params: {
+  name: string;
+  quantity: Quantity;
+  category?: FoodCategory;
+  freshness?: string;
+  storage?: StorageLocation;
+  addedOn?: string;
+  expiresOn?: string;
+}): Ingredient {
+  const storage = params.storage ?? 'fridge';
+  const category = params.category ?? foodTaxonomyService.categorize(params.name);
+  const addedOn = params.addedOn ?? toISODate(new Date());
+  const expiresOn = params.expiresOn
+    ?? estimateExpiryDate(category, storage, addedOn, normalizeFreshness(params.freshness));
+  const item: Ingredient = {
+    name: params.name,
+    quantity: params.quantity,
+    category,
+    freshness: 'fresh',
+    addedOn,
+    expiresOn,
+    expirySource: params.expiresOn ? 'user' : 'estimated',
+    storage,
+  };
+  return { ...item, freshness: deriveFreshness(item) };
+}
+
+// Moves an item to another category, re-estimating its expiry unless the user set one.
+export function recategorizeItem(item: Ingredient, category: FoodCategory): Ingredient {
+  if (item.category === category) return item;
+  const expiresOn = item.expirySource === 'user'
+    ? item.expiresOn
+    : estimateExpiryDate(category, item.storage, item.addedOn, item.freshness);
+  const updated = { ...item, category, expiresOn };
+  return { ...updated, freshness: deriveFreshness(updated) };
+}
+
+// Re-derives freshness for every item; returns the same array when nothing changed
+// so it is safe to call from an effect that depends on the inventory.
+export function refreshFreshness(inventory: Ingredient[], today: string = toISODate(new Date())): Ingredient[] {
+  let changed = false;
+  const refreshed = inventory.map((item) => {
+    const freshness = deriveFreshness(item, today);
+    if (freshness === item.freshness) return item;
+    changed = true;
+    return { ...item, freshness };
+  });
+  return changed ? refreshed : inventory;
+}
+
+// Items at or past their category's alert threshold, soonest first.
+export function getExpiringItems(inventory: Ingredient[], today: string = toISODate(new Date())): Ingredient[] {
+  return inventory
+    .filter((item) => item.freshness === 'expiring' || item.freshness === 'spoiled')
+    .sort((a, b) => daysUntilExpiry(a, today) - daysUntilExpiry(b, today));
+}
+
+export function describeExpiry(item: Ingredient, today: string = toISODate(new Date())): string {
+  const daysLeft = daysUntilExpiry(item, today);
+  const suffix = item.expirySource === 'estimated' ? ' (est.)' : '';
+  if (daysLeft < 0) return `Expired ${-daysLeft} day${daysLeft === -1 ? '' : 's'} ago${suffix}`;
+  if (daysLeft === 0) return `Expires today${suffix}`;
+  if (daysLeft === 1) return `Expires tomorrow${suffix}`;
+  return `Expires in ${daysLeft} days${suffix}`;
+}
@@ -0,0 +1,58 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ShoppingListItem } from '../types';
+import { parseQuantity, addQuantities, formatQuantity } from './quantityService';
+import { normalizeIngredientName } from './recipeInventoryService';
+
+function combineQuantities(existing: string | undefined, incoming: string | undefined): string | undefined {
+  if (!existing) return incoming;
+  if (!incoming) return existing;
+  const sum = addQuantities(parseQuantity(existing), parseQuantity(incoming));
+  // Amounts in units that don't convert (e.g. "1 bag" and "200 g") are listed side by side.
+  return sum ? formatQuantity(sum) : `${existing} + ${incoming}`;
+}
+
+// Adds items to the list, aggregating with any open entry for the same ingredient
+// ("Tomatoes" and "tomato" share one row) instead of creating duplicates.
+// A ticked-off entry for the same ingredient is re-opened with just the new amount.
+export function mergeIntoShoppingList(
+  list: ShoppingListItem[],
+  additions: { name: string; quantity?: string }[],
+): ShoppingListItem[] {
+  const merged = [...list];
+  additions.forEach((addition) => {
+    const key = normalizeIngredientName(addition.name);
+    const openIndex = merged.findIndex(item => !item.checked && normalizeIngredientName(item.name) === key);
+    if (openIndex > -1) {
+      const existing = merged[openIndex];
+      merged[openIndex] = { ...existing, quantity: combineQuantities(existing.quantity, addition.quantity) };
+      return;
+    }
+    const checkedIndex = merged.findIndex(item => item.checked && normalizeIngredientName(item.name) === key);
+    if (checkedIndex > -1) {
+      merged[checkedIndex] = { ...merged[checkedIndex], quantity: addition.quantity, checked: false };
+      return;
+    }
+    merged.push({ id: uuidv4(), name: addition.name, quantity: addition.quantity, checked: false });
+  });
+  return merged;
+}
+
+// The open list entry a purchase fulfils: the same ingredient, or a more specific one
+// ("whole milk" fulfils "milk").
+export function findShoppingMatch(list: ShoppingListItem[], name: string): ShoppingListItem | undefined {
+  const boughtTokens = normalizeIngredientName(name).split(' ').filter(Boolean);
+  if (boughtTokens.length === 0) return undefined;
+  return list.find((item) => {
+    if (item.checked) return false;
+    const wantedTokens = normalizeIngredientName(item.name).split(' ').filter(Boolean);
+    return wantedTokens.length > 0 && wantedTokens.every((token) => boughtTokens.includes(token));
+  });
+}
+
+// Ticks off every open entry fulfilled by one of the bought items.
+export function markPurchased(list: ShoppingListItem[], boughtNames: string[]): ShoppingListItem[] {
+  const fulfilled = new Set(
+    boughtNames.map((name) => findShoppingMatch(list, name)?.id).filter((id): id is string => Boolean(id)),
+  );
+  return list.map((item) => (fulfilled.has(item.id) ? { ...item, checked: true } : item));
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Ingredient } from '../types';
+import { InMemoryStorageAdapter, Migration, SCHEMA_VERSION, runMigrations } from './storageService';
+
+describe('runMigrations', () => {
+  it('starts a fresh install on the latest schema without running anything', async () => {
+    const adapter = new InMemoryStorageAdapter();
+    const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    expect(await runMigrations(adapter)).toBe(SCHEMA_VERSION);
+    expect(await adapter.get('__schemaVersion')).toBe(SCHEMA_VERSION);
+    expect(info).not.toHaveBeenCalled();
+    info.mockRestore();
+  });
+
+  it('upgrades v1 free-text quantities all the way', async () => {
+    const adapter = new InMemoryStorageAdapter({
+      __schemaVersion: 1,
+      fridgeInventory: [{ name: 'whole milk', quantity: '2 l', freshness: 'Good' }],
+    });
+    expect(await runMigrations(adapter)).toBe(SCHEMA_VERSION);
+    const [milk] = (await adapter.get<Ingredient[]>('fridgeInventory'))!;
+    expect(milk).toMatchObject({
+      name: 'whole milk',
+      quantity: { amount: 2, unit: 'l', family: 'volume' },
+      category: 'dairy',
+      storage: 'fridge',
+      expirySource: 'estimated',
+      freshness: 'good',
+    });
+    expect(await adapter.get('__schemaVersion')).toBe(SCHEMA_VERSION);
+  });
+
+  it('adds dates to v2 items and keeps their parsed quantities', async () => {
+    const adapter = new InMemoryStorageAdapter({
+      __schemaVersion: 2,
+      fridgeInventory: [{ name: 'eggs', quantity: { amount: 6, unit: 'piece', family: 'count' }, freshness: 'fresh' }],
+    });
+    await runMigrations(adapter);
+    const [eggs] = (await adapter.get<Ingredient[]>('fridgeInventory'))!;
+    expect(eggs).toMatchObject({ quantity: { amount: 6, unit: 'piece' }, category: 'eggs', storage: 'fridge' });
+    expect(eggs.addedOn).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(eggs.expiresOn > eggs.addedOn).toBe(true);
+  });
+
+  it('only categorizes v3 items, leaving their dates alone', async () => {
+    const v3Item = {
+      name: 'cheddar', quantity: { amount: 200, unit: 'g', family: 'mass' }, freshness: 'fresh',
+      addedOn: '2026-01-01', expiresOn: '2026-02-01', expirySource: 'user', storage: 'fridge',
+    };
+    const adapter = new InMemoryStorageAdapter({ __schemaVersion: 3, fridgeInventory: [v3Item] });
+    await runMigrations(adapter);
+    expect(await adapter.get('fridgeInventory')).toEqual([{ ...v3Item, category: 'cheese' }]);
+  });
+
+  it('skips migrations that already ran and records each one applied', async () => {
+    const adapter = new InMemoryStorageAdapter({ __schemaVersion: 2, fridgeInventory: [] });
+    const ran: number[] = [];
+    const migrations: Migration[] = [1, 2, 3, 4].map((version) => ({
+      version,
+      description: `v${version}`,
+      migrate: async () => {
+        ran.push(version);
+        expect(await adapter.get('__schemaVersion')).toBe(version - 1);
+      },
+    }));
+    const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    expect(await runMigrations(adapter, migrations)).toBe(4);
+    expect(ran).toEqual([3, 4]);
+    expect(await runMigrations(adapter, migrations)).toBe(4);
+    expect(ran).toEqual([3, 4]);
+    info.mockRestore();
+  });
+});
@@ -0,0 +1,225 @@
+import { Ingredient, PersistedState } from '../types';
+import { parseQuantity } from './quantityService';
+import { createInventoryItem } from './shelfLifeService';
+import foodTaxonomyService from './foodTaxonomyService';
+import { STORAGE_DB_NAME, STORAGE_DB_STORE } from '../constants';
+
+// Minimal key/value contract every storage backend has to fulfil.
+// Swap in `InMemoryStorageAdapter` (e.g. in tests) via `storageService.useAdapter`.
+export interface StorageAdapter {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export class InMemoryStorageAdapter implements StorageAdapter {
+  private store = new Map<string, unknown>();
+
+  constructor(initial?: Record<string, unknown>) {
+    if (initial) {
+      Object.entries(initial).forEach(([key, value]) => this.store.set(key, structuredClone(value)));
+    }
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = this.store.get(key);
+    return value === undefined ? undefined : structuredClone(value as T);
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.store.set(key, structuredClone(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.store.keys()];
+  }
+}
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string = STORAGE_DB_NAME,
+    private readonly storeName: string = STORAGE_DB_STORE,
+  ) {}
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        // The IndexedDB version only tracks object store layout; data shape changes
+        // are handled by the app-level MIGRATIONS below.
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = action(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.run('readonly', (store) => store.get(key) as IDBRequest<T | undefined>);
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.run('readwrite', (store) => store.put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run('readonly', (store) => store.getAllKeys());
+    return keys.map(String);
+  }
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (adapter: StorageAdapter) => Promise<void>;
+}
+
+const SCHEMA_VERSION_KEY = '__schemaVersion';
+
+// Ordered list of data migrations. Append a new entry whenever a persisted shape changes;
+// never edit one that has already shipped.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema: inventory, shopping list, health log and generated recipes.',
+    migrate: async () => {},
+  },
+  {
+    version: 2,
+    description: 'Parse free-text ingredient quantities into structured quantities.',
+    migrate: async (adapter) => {
+      const inventory = await adapter.get<(Omit<Ingredient, 'quantity'> & { quantity: Ingredient['quantity'] | string })[]>('fridgeInventory');
+      if (!inventory) return;
+      await adapter.set<Ingredient[]>('fridgeInventory', inventory.map((item) => ({
+        ...item,
+        quantity: typeof item.quantity === 'string' ? parseQuantity(item.quantity) : item.quantity,
+      })));
+    },
+  },
+  {
+    version: 3,
+    description: 'Add storage location and added-on/expiry dates to inventory items.',
+    migrate: async (adapter) => {
+      const inventory = await adapter.get<(Pick<Ingredient, 'name' | 'quantity'> & { freshness?: string })[]>('fridgeInventory');
+      if (!inventory) return;
+      // Without a purchase date we assume everything was added today and estimate from the old freshness label.
+      await adapter.set<Ingredient[]>('fridgeInventory', inventory.map((item) => createInventoryItem({
+        name: item.name,
+        quantity: item.quantity,
+        freshness: item.freshness,
+      })));
+    },
+  },
+  {
+    version: 4,
+    description: 'Assign a food taxonomy category to every inventory item.',
+    migrate: async (adapter) => {
+      const inventory = await adapter.get<(Omit<Ingredient, 'category'> & { category?: Ingredient['category'] })[]>('fridgeInventory');
+      if (!inventory) return;
+      await adapter.set<Ingredient[]>('fridgeInventory', inventory.map((item) => ({
+        ...item,
+        category: item.category ?? foodTaxonomyService.categorize(item.name),
+      })));
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function runMigrations(adapter: StorageAdapter, migrations: Migration[] = MIGRATIONS): Promise<number> {
+  const currentVersion = (await adapter.get<number>(SCHEMA_VERSION_KEY)) ?? 0;
+  // A fresh install has nothing to upgrade and starts on the latest schema
+  if (currentVersion === 0 && (await adapter.keys()).length === 0) {
+    const latestVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+    await adapter.set(SCHEMA_VERSION_KEY, latestVersion);
+    return latestVersion;
+  }
+  let appliedVersion = currentVersion;
+  for (const migration of migrations) {
+    if (migration.version <= currentVersion) continue;
+    console.info(`Running storage migration v${migration.version}: ${migration.description}`);
+    await migration.migrate(adapter);
+    appliedVersion = migration.version;
+    await adapter.set(SCHEMA_VERSION_KEY, appliedVersion);
+  }
+  return appliedVersion;
+}
+
+function createDefaultAdapter(): StorageAdapter {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB is not available; falling back to in-memory storage.');
+    return new InMemoryStorageAdapter();
+  }
+  return new IndexedDBStorageAdapter();
+}
+
+class StorageService {
+  private adapter: StorageAdapter;
+  private readyPromise: Promise<void> | null = null;
+
+  constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  // Replace the backend, e.g. with an InMemoryStorageAdapter in tests.
+  useAdapter(adapter: StorageAdapter) {
+    this.adapter = adapter;
+    this.readyPromise = null;
+  }
+
+  private ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = runMigrations(this.adapter).then(() => undefined);
+    }
+    return this.readyPromise;
+  }
+
+  async load<K extends keyof PersistedState>(key: K): Promise<PersistedState[K] | undefined> {
+    await this.ready();
+    return this.adapter.get<PersistedState[K]>(key);
+  }
+
+  async save<K extends keyof PersistedState>(key: K, value: PersistedState[K]): Promise<void> {
+    await this.ready();
+    await this.adapter.set(key, value);
+  }
+
+  async remove<K extends keyof PersistedState>(key: K): Promise<void> {
+    await this.ready();
+    await this.adapter.delete(key);
+  }
+}
+
+const storageService = new StorageService(createDefaultAdapter());
+export default storageService;
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { applyTimerChange, createTimer, describeDuration, formatCountdown, parseStepDurations } from './timerService';
+
+function secondsIn(instruction: string): number[] {
+  return parseStepDurations(instruction, 1).map((duration) => duration.seconds);
+}
+
+describe('parseStepDurations', () => {
+  it('reads a plain duration with its text and verb', () => {
+    expect(parseStepDurations('Simmer for 20 minutes, stirring now and then.', 3)).toEqual([
+      { seconds: 1200, text: '20 minutes', label: 'Simmer (step 3)' },
+    ]);
+  });
+
+  it.each([
+    ['Bake for 15-20 minutes until golden.', 900, '15-20 minutes'],
+    ['Roast for 15–20 mins.', 900, '15–20 mins'],
+    ['Braise for 2 to 3 hours.', 7200, '2 to 3 hours'],
+    ['Steep for 3 or 4 minutes.', 180, '3 or 4 minutes'],
+  ])('takes the shorter end of the range in %j', (instruction, seconds, text) => {
+    expect(parseStepDurations(instruction, 1)).toMatchObject([{ seconds, text }]);
+  });
+
+  it.each([
+    ['Slow cook for 1½ hrs.', 5400],
+    ['Rest for 1.5 hours.', 5400],
+    ['Rest for 2,5 hours.', 9000],
+    ['Chill for ½ hour.', 1800],
+    ['Leave to rise for half an hour.', 1800],
+    ['Boil for ten minutes.', 600],
+    ['Cook for forty-five minutes.', 2700],
+    ['Marinate for an hour.', 3600],
+    ['Microwave for a minute.', 60],
+    ['Sear for 90 seconds a side.', 90],
+    ['Blanch 30 secs.', 30],
+  ])('reads %j', (instruction, seconds) => {
+    expect(secondsIn(instruction)).toEqual([seconds]);
+  });
+
+  it('adds up compound durations', () => {
+    expect(secondsIn('Roast for 1 hour and 15 minutes.')).toEqual([4500]);
+    expect(secondsIn('Roast for 1 hour 30 minutes.')).toEqual([5400]);
+    expect(secondsIn('Bake for 2 hours, 10 minutes.')).toEqual([7800]);
+  });
+
+  it('keeps separate timed actions apart, each named by its own verb', () => {
+    expect(parseStepDurations('Boil the pasta for 10 minutes. Meanwhile, fry the garlic for 2 minutes.', 4)).toEqual([
+      { seconds: 600, text: '10 minutes', label: 'Boil (step 4)' },
+      { seconds: 120, text: '2 minutes', label: 'Fry (step 4)' },
+    ]);
+  });
+
+  it('does not add a longer unit onto a shorter one', () => {
+    expect(secondsIn('Whisk for 5 minutes and 1 hour later stir again.')).toEqual([300, 3600]);
+  });
+
+  it('names the timer after the step when there is no verb', () => {
+    expect(parseStepDurations('About 25 minutes in total.', 2)).toMatchObject([{ label: 'Step 2' }]);
+  });
+
+  it.each([
+    'Stir for a few minutes.',
+    'Drain the pasta minutes before serving.',
+    'Add a pasta and cook until done.',
+    'Heat the oven to 200°C.',
+    'Bake at 350 degrees until set.',
+    'Add 2 cups of stock.',
+    'Season to taste.',
+  ])('finds no timer in %j', (instruction) => {
+    expect(parseStepDurations(instruction, 1)).toEqual([]);
+  });
+
+  it('ignores a temperature but reads the time next to it', () => {
+    expect(parseStepDurations('Bake at 180°C for 25 minutes.', 5)).toEqual([
+      { seconds: 1500, text: '25 minutes', label: 'Bake (step 5)' },
+    ]);
+  });
+});
+
+describe('formatting', () => {
+  it('formats countdowns and durations', () => {
+    expect(formatCountdown(245)).toBe('4:05');
+    expect(formatCountdown(3750)).toBe('1:02:30');
+    expect(formatCountdown(-3)).toBe('0:00');
+    expect(describeDuration(5400)).toBe('1 h 30 min');
+    expect(describeDuration(45)).toBe('45 s');
+  });
+});
+
+describe('applyTimerChange', () => {
+  it('adds and removes by id, keeping other timers as they are', () => {
+    const pasta = createTimer('pasta', 600, 0);
+    const rice = { ...createTimer('rice', 900, 0), status: 'paused' as const };
+    const added = applyTimerChange([pasta], { type: 'add', timer: rice });
+    expect(added).toEqual([pasta, rice]);
+    expect(applyTimerChange(added, { type: 'remove', id: pasta.id })).toEqual([rice]);
+  });
+});
@@ -0,0 +1,156 @@
+import { v4 as uuidv4 } from 'uuid';
+import { KitchenTimer } from '../types';
+
+// --- Durations in recipe steps ---
+
+// A duration found in an instruction, e.g. "simmer for 20 minutes".
+export interface StepDuration {
+  seconds: number;
+  text: string; // As written, e.g. "15-20 minutes"
+  label: string; // Timer name, e.g. "Simmer (step 3)"
+}
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  twelve: 12, fifteen: 15, twenty: 20, thirty: 30, 'forty-five': 45, sixty: 60,
+};
+const NUMBER = `(?:\\d+(?:[.,]\\d+)?\\s*½?|½|${Object.keys(WORD_NUMBERS).sort((a, b) => b.length - a.length).join('|')})`;
+// "20 minutes", "1½ hrs", "15-20 min", "2 to 3 hours", "half an hour"
+const DURATION_PATTERN = new RegExp(
+  `(?<![\\w.,])(?:(${NUMBER})\\s*(?:-|–|to|or)\\s*)?(${NUMBER})\\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)\\b|\\bhalf an hour\\b`,
+  'gi',
+);
+// Between an hour part and a minute part that belong together: "1 hour 30 minutes", "1 hour and 15 minutes"
+const COMPOUND_GAP = /^\s*(?:,|and)?\s*$/i;
+
+// The step's own verb names its timer: "Simmer (step 3)" reads better than "Step 3" in a row of timers.
+const COOKING_VERBS = [
+  'bake', 'boil', 'simmer', 'roast', 'fry', 'sauté', 'saute', 'grill', 'broil', 'steam', 'rest', 'marinate', 'chill',
+  'cook', 'braise', 'poach', 'toast', 'blanch', 'reduce', 'knead', 'rise', 'prove', 'proof', 'cool', 'soak', 'sear',
+  'microwave', 'freeze', 'set', 'whisk', 'stir', 'beat', 'steep', 'infuse', 'brown', 'caramelize', 'caramelise',
+];
+const VERB_PATTERN = new RegExp(`\\b(${COOKING_VERBS.join('|')})(?:s|es|ed|ing)?\\b`, 'gi');
+
+function parseNumber(value: string): number {
+  const text = value.trim().toLowerCase();
+  if (text in WORD_NUMBERS) return WORD_NUMBERS[text];
+  const half = text.endsWith('½') ? 0.5 : 0;
+  const whole = text.replace('½', '').trim().replace(',', '.');
+  return (whole ? Number(whole) : 0) + half;
+}
+
+function unitSeconds(unit: string): number {
+  const first = unit[0].toLowerCase();
+  return first === 'h' ? 3600 : first === 'm' ? 60 : 1;
+}
+
+function labelFor(instruction: string, index: number, stepNumber: number): string {
+  // The last cooking verb before the duration, within the same sentence
+  const sentenceStart = Math.max(instruction.lastIndexOf('.', index - 1), instruction.lastIndexOf(';', index - 1)) + 1;
+  const verbs = [...instruction.slice(sentenceStart, index).matchAll(VERB_PATTERN)];
+  const verb = verbs.length > 0 ? verbs[verbs.length - 1][1].toLowerCase() : null;
+  return verb ? `${verb[0].toUpperCase()}${verb.slice(1)} (step ${stepNumber})` : `Step ${stepNumber}`;
+}
+
+// Every timed action in a step. Ranges use the shorter time, so food is checked before it overcooks.
+export function parseStepDurations(instruction: string, stepNumber: number): StepDuration[] {
+  const found: { seconds: number; start: number; end: number; unit: number }[] = [];
+  for (const match of instruction.matchAll(DURATION_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const unit = match[3] ? unitSeconds(match[3]) : 3600;
+    const seconds = match[3] ? parseNumber(match[1] ?? match[2]) * unit : 1800; // "half an hour"
+    const previous = found[found.length - 1];
+    if (previous && previous.unit > unit && COMPOUND_GAP.test(instruction.slice(previous.end, start))) {
+      previous.seconds += seconds;
+      previous.end = end;
+      previous.unit = unit;
+    } else {
+      found.push({ seconds, start, end, unit });
+    }
+  }
+  return found
+    .filter((duration) => duration.seconds > 0)
+    .map((duration) => ({
+      seconds: Math.round(duration.seconds),
+      text: instruction.slice(duration.start, duration.end),
+      label: labelFor(instruction, duration.start, stepNumber),
+    }));
+}
+
+// --- Formatting ---
+
+// Clock style for a countdown: "4:05", "1:02:30".
+export function formatCountdown(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
+
+// Words for a duration: "20 min", "1 h 30 min", "45 s".
+export function describeDuration(totalSeconds: number): string {
+  const seconds = Math.round(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const parts = [hours ? `${hours} h` : '', minutes ? `${minutes} min` : '', seconds % 60 ? `${seconds % 60} s` : ''].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : '0 s';
+}
+
+// --- Timers ---
+
+export function createTimer(label: string, seconds: number, now: number = Date.now()): KitchenTimer {
+  const durationMs = seconds * 1000;
+  return { id: uuidv4(), label, durationSeconds: seconds, status: 'running', endsAt: now + durationMs, remainingMs: durationMs };
+}
+
+export function getRemainingMs(timer: KitchenTimer, now: number = Date.now()): number {
+  if (timer.status === 'paused') return timer.remainingMs;
+  return Math.max(0, timer.endsAt - now);
+}
+
+export function pauseTimer(timer: KitchenTimer, now: number = Date.now()): KitchenTimer {
+  if (timer.status !== 'running') return timer;
+  return { ...timer, status: 'paused', remainingMs: getRemainingMs(timer, now) };
+}
+
+export function resumeTimer(timer: KitchenTimer, now: number = Date.now()): KitchenTimer {
+  if (timer.status !== 'paused') return timer;
+  return { ...timer, status: 'running', endsAt: now + timer.remainingMs };
+}
+
+// Adds time to a timer; a ringing one starts running again with just the extra time.
+export function extendTimer(timer: KitchenTimer, seconds: number, now: number = Date.now()): KitchenTimer {
+  const extraMs = seconds * 1000;
+  if (timer.status === 'paused') return { ...timer, remainingMs: timer.remainingMs + extraMs };
+  if (timer.status === 'ringing') return { ...timer, status: 'running', endsAt: now + extraMs };
+  return { ...timer, endsAt: timer.endsAt + extraMs };
+}
+
+// Sets running timers that have reached their end ringing. Returns the same array when none have.
+export function ringDueTimers(timers: KitchenTimer[], now: number = Date.now()): KitchenTimer[] {
+  if (!timers.some((timer) => timer.status === 'running' && timer.endsAt <= now)) return timers;
+  return timers.map((timer) => (timer.status === 'running' && timer.endsAt <= now ? { ...timer, status: 'ringing' } : timer));
+}
+
+// A change a voice tool makes to the timers. It is applied to the timers as they are by the time
+// the call finishes, so taps and alarms in the meantime aren't undone.
+export type TimerChange = { type: 'add'; timer: KitchenTimer } | { type: 'remove'; id: string };
+
+export function applyTimerChange(timers: KitchenTimer[], change: TimerChange): KitchenTimer[] {
+  return change.type === 'add' ? [...timers, change.timer] : timers.filter((timer) => timer.id !== change.id);
+}
+
+// When the next running timer is due, if any.
+export function getNextDueAt(timers: KitchenTimer[]): number | null {
+  const running = timers.filter((timer) => timer.status === 'running');
+  return running.length > 0 ? Math.min(...running.map((timer) => timer.endsAt)) : null;
+}
+
+// The timers a spoken name could mean: an exact match if there is one, else every label containing it.
+export function findTimersByLabel(timers: KitchenTimer[], label: string): KitchenTimer[] {
+  const key = label.trim().toLowerCase();
+  const exact = timers.filter((timer) => timer.label.toLowerCase() === key);
+  return exact.length > 0 ? exact : timers.filter((timer) => timer.label.toLowerCase().includes(key));
+}
@@ -1,11 +1,88 @@
 import { GenerateContentResponse } from "@google/genai";
 
-export type TabName = 'scan' | 'chat' | 'inventory' | 'imageGen' | 'health' | 'recipes' | 'voicechat';
+export type TabName = 'scan' | 'chat' | 'inventory' | 'imageGen' | 'health' | 'recipes' | 'voicechat' | 'cookbook' | 'planner';
+
+export type UnitFamily = 'mass' | 'volume' | 'count';
+
+export interface Quantity {
+  amount: number;
+  unit: string; // Canonical unit symbol, e.g. 'g', 'ml', 'cup', 'piece', 'bag'
+  family: UnitFamily;
+  descriptor?: string; // Non-measuring qualifier kept for display, e.g. 'large'
+}
+
+export type Freshness = 'fresh' | 'good' | 'expiring' | 'spoiled';
+
+export type StorageLocation = 'fridge' | 'freezer' | 'pantry';
+
+export type FoodCategory =
+  | 'produce' | 'fruit' | 'herbs' | 'dairy' | 'cheese' | 'eggs' | 'meat' | 'poultry' | 'seafood'
+  | 'deli' | 'bakery' | 'grains' | 'canned' | 'condiments' | 'beverages' | 'leftovers' | 'frozen' | 'other';
 
 export interface Ingredient {
   name: string;
-  quantity: string;
-  freshness: string;
+  quantity: Quantity;
+  category: FoodCategory; // From the food taxonomy, a user override, or model-assisted classification
+  freshness: Freshness; // Derived from the dates below, see shelfLifeService.deriveFreshness
+  addedOn: string; // ISO date (YYYY-MM-DD)
+  expiresOn: string; // ISO date (YYYY-MM-DD)
+  expirySource: 'estimated' | 'user';
+  storage: StorageLocation;
+}
+
+// A packaged product as the barcode scanner knows it, from the built-in catalog or named by the user.
+export interface CatalogProduct {
+  name: string; // As it should appear in the inventory
+  brand?: string;
+  category: FoodCategory;
+  packSize: string; // Parsed with parseQuantity, e.g. "1 l", "400 g", "12"
+  shelfLifeDays: number; // Typical life from purchase, unopened, in the storage below
+  storage: StorageLocation;
+}
+
+export type ScanStatus = 'queued' | 'analyzing' | 'done' | 'error';
+
+// Where an item sits in a photo, as fractions (0-1) of its width and height from the top left.
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One item the model found in a photo, with how sure it was and where it was looking.
+export interface Detection {
+  ingredient: Ingredient;
+  confidence: number; // 0-1, as reported by the model; 1 once the user has corrected it
+  box?: BoundingBox; // Missing when the model couldn't place the item
+}
+
+// One photo in the scan queue and what was detected in it. Held in memory only.
+export interface ScanImage {
+  id: string;
+  file: File;
+  previewUrl: string; // Object URL, revoked when the photo leaves the queue
+  status: ScanStatus;
+  detections: Detection[];
+  error?: string;
+}
+
+// One purchased line read off a receipt. Held in memory only.
+export interface ReceiptLine {
+  id: string;
+  rawText: string; // As printed, e.g. "ORG BNLS CHKN BRST"
+  name: string; // Normalized to an inventory name, e.g. "chicken breast"
+  quantity: Quantity;
+  price: number | null; // Line total in the receipt's currency
+  confidence: number; // 0-1, how sure the model is of the reading
+}
+
+export interface ReceiptScan {
+  store: string | null;
+  purchasedOn: string | null; // ISO date (YYYY-MM-DD) printed on the receipt
+  currency: string | null; // ISO code such as "EUR"
+  total: number | null;
+  lines: ReceiptLine[]; // Food lines only; bags, tax and discounts are left out
 }
 
 export interface ShoppingListItem {
@@ -21,12 +98,144 @@ export interface IngredientCategory {
   items: Ingredient[];
 }
 
+export interface NutritionFacts {
+  calories: number;
+  proteinGrams: number;
+  carbsGrams: number;
+  fatGrams: number;
+  fiberGrams: number;
+  sodiumMg: number;
+}
+
+export interface RecipeNutrition {
+  servings: number;
+  perServing: NutritionFacts;
+  total: NutritionFacts;
+  // 'local' when every line came from the bundled nutrient table, 'mixed' when the model filled gaps.
+  source: 'local' | 'mixed' | 'model';
+  unresolved: string[]; // Ingredient lines left out of the estimate
+}
+
+export type RecipeDifficulty = 'easy' | 'medium' | 'hard';
+
+export type DietTag = 'vegetarian' | 'vegan' | 'pescatarian' | 'gluten-free' | 'dairy-free' | 'low-carb' | 'keto' | 'high-protein';
+
+// An ingredient line broken into parts so it can be rescaled, e.g.
+// "2 tbsp olive oil, divided" -> 2 tbsp | olive oil | divided.
+export interface IngredientLine {
+  quantity: Quantity | null; // Null for unmeasured lines such as "salt, to taste"
+  alternateQuantity?: Quantity; // From a parenthetical, e.g. "2 chicken breasts (about 300g)"
+  item: string;
+  note?: string;
+}
+
 export interface Recipe {
   name: string;
   summary: string;
   healthInsight: string;
   ingredients: string[];
+  ingredientLines?: IngredientLine[]; // Parallel to `ingredients`; parsed on demand when absent
   instructions: string[];
+  servings?: number; // Base serving count the amounts are written for; older saved recipes have none, see DEFAULT_RECIPE_SERVINGS
+  nutrition?: RecipeNutrition;
+  // Structured metadata from the generation schema; absent on recipes saved before it existed.
+  prepMinutes?: number;
+  cookMinutes?: number;
+  difficulty?: RecipeDifficulty;
+  dietTags?: DietTag[];
+  cuisine?: string;
+  proteinGrams?: number; // Per serving
+}
+
+// A recipe kept in the user's cookbook, with their own rating, tags, notes and history.
+export interface SavedRecipe {
+  id: string;
+  recipe: Recipe;
+  savedOn: string; // ISO date (YYYY-MM-DD)
+  isFavorite: boolean;
+  rating: number; // 1-5, 0 when unrated
+  tags: string[];
+  notes: string;
+  cookedOn: string[]; // ISO dates, oldest first
+}
+
+// A recipe being cooked one step at a time in cooking mode. Held in memory only.
+export interface CookingSession {
+  recipe: Recipe; // Already scaled to the servings being cooked
+  stepIndex: number; // Index into recipe.instructions
+}
+
+export type TimerStatus = 'running' | 'paused' | 'ringing';
+
+// A named kitchen timer. Held in memory only. A running timer keeps its end time rather than
+// counting down, so it stays right while the tab is in the background.
+export interface KitchenTimer {
+  id: string;
+  label: string;
+  durationSeconds: number; // As set, for display
+  status: TimerStatus;
+  endsAt: number; // Epoch ms; when it rings (running) or rang (ringing)
+  remainingMs: number; // Time left when it was paused
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+export interface PlannedMeal {
+  date: string; // ISO date (YYYY-MM-DD)
+  slot: MealSlot;
+  recipe: Recipe;
+}
+
+// A week of meals starting on `weekStart`; empty slots simply have no entry.
+export interface MealPlan {
+  weekStart: string; // ISO date (YYYY-MM-DD)
+  meals: PlannedMeal[];
+}
+
+export type AllergenId =
+  | 'peanut' | 'treeNut' | 'dairy' | 'egg' | 'gluten' | 'soy' | 'fish' | 'shellfish' | 'sesame' | 'mustard' | 'celery' | 'sulphite';
+
+export type DietType = 'omnivore' | 'vegetarian' | 'vegan' | 'pescatarian' | 'keto' | 'low-carb' | 'paleo' | 'mediterranean';
+
+// Daily targets; anything left undefined is not constrained.
+export interface NutritionTargets {
+  calories?: number;
+  proteinGrams?: number;
+  carbsGrams?: number;
+  fatGrams?: number;
+}
+
+export interface UserProfile {
+  name: string;
+  dietType: DietType;
+  allergens: string[]; // Must never appear in suggestions
+  intolerances: string[]; // Avoid, or offer a substitute
+  dislikedFoods: string[];
+  targets: NutritionTargets;
+}
+
+// One change to the fridge inventory. Quantities are written as the user would, e.g. "500 g".
+export interface InventoryEdit {
+  action: 'add' | 'remove' | 'update';
+  name: string;
+  quantity?: string; // add: amount added; remove: amount used up, all of it when absent; update: new total
+  newName?: string; // update only
+  expiresOn?: string; // ISO date (YYYY-MM-DD); add and update only
+  storage?: StorageLocation; // add and update only
+}
+
+// Something a chat reply offers to do, shown as a card the user can act on.
+export type ChatAttachment =
+  | { type: 'recipe'; recipe: Recipe }
+  | { type: 'inventoryEdits'; edits: InventoryEdit[] }
+  | { type: 'shoppingItems'; items: { name: string; quantity?: string }[] };
+
+// What the buttons on chat cards do, provided by the app.
+export interface ChatCardActions {
+  onSaveRecipe: (recipe: Recipe) => void;
+  onStartCooking: (recipe: Recipe) => void;
+  onApplyInventoryEdits: (edits: InventoryEdit[]) => string[]; // Returns why any edits were skipped
+  onAddToShoppingList: (items: { name: string; quantity?: string }[]) => void;
 }
 
 export interface ChatMessage {
@@ -37,9 +246,24 @@ export interface ChatMessage {
   timestamp: Date;
   sources?: { uri: string; title?: string }[];
   functionCalls?: GenerateContentResponse['functionCalls'];
+  attachments?: ChatAttachment[];
 }
 
 export interface AudioBufferData {
   buffer: AudioBuffer;
   duration: number;
-}
\ No newline at end of file
+}
+
+// Everything that survives a reload, keyed by its storage key.
+export interface PersistedState {
+  fridgeInventory: Ingredient[];
+  shoppingList: ShoppingListItem[];
+  healthLog: string[];
+  generatedRecipes: Recipe[];
+  categoryOverrides: Record<string, FoodCategory>; // Keyed by normalized ingredient name
+  categoryCache: Record<string, FoodCategory>; // Model classifications for names the taxonomy doesn't know
+  userProfile: UserProfile;
+  cookbook: SavedRecipe[];
+  mealPlan: MealPlan | null;
+  productCodes: Record<string, CatalogProduct>; // Barcodes the user named by hand, keyed by EAN-13
+}